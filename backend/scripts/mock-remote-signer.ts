@@ -0,0 +1,97 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local stand-in for a remote signer (Web3Signer-style JSON-RPC over HTTP)
+ *
+ * Signs with a key from the environment so KEEPER_SIGNER=remote can be tried without
+ * real signing infrastructure:
+ *
+ *   MOCK_SIGNER_PRIVATE_KEY=0x... MOCK_SIGNER_TOKEN=secret npx tsx scripts/mock-remote-signer.ts
+ *
+ *   KEEPER_SIGNER=remote
+ *   KEEPER_REMOTE_SIGNER_URL=http://127.0.0.1:9000
+ *   KEEPER_REMOTE_SIGNER_ADDRESS=<printed address>
+ *   KEEPER_REMOTE_SIGNER_TOKEN=secret
+ */
+
+import { createServer, type Server } from 'http';
+import { pathToFileURL } from 'url';
+import { hexToBigInt, hexToNumber, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+interface RpcTransaction {
+  chainId: Hex;
+  nonce: Hex;
+  to?: Address;
+  data?: Hex;
+  value?: Hex;
+  gas: Hex;
+  maxFeePerGas: Hex;
+  maxPriorityFeePerGas: Hex;
+}
+
+/**
+ * HTTP server answering eth_accounts, eth_sign and eth_signTransaction (EIP-1559) for one key
+ */
+export function createMockRemoteSigner(privateKey: Hex, token?: string): Server {
+  const account = privateKeyToAccount(privateKey);
+
+  const handle = async (method: string, params: unknown[]): Promise<unknown> => {
+    switch (method) {
+      case 'eth_accounts':
+        return [account.address];
+      case 'eth_sign':
+        return account.signMessage({ message: { raw: params[1] as Hex } });
+      case 'eth_signTransaction': {
+        const tx = params[0] as RpcTransaction;
+        return account.signTransaction({
+          type: 'eip1559',
+          chainId: hexToNumber(tx.chainId),
+          nonce: hexToNumber(tx.nonce),
+          to: tx.to,
+          data: tx.data,
+          value: tx.value ? hexToBigInt(tx.value) : undefined,
+          gas: hexToBigInt(tx.gas),
+          maxFeePerGas: hexToBigInt(tx.maxFeePerGas),
+          maxPriorityFeePerGas: hexToBigInt(tx.maxPriorityFeePerGas),
+        });
+      }
+      default:
+        throw new Error(`Method ${method} not supported`);
+    }
+  };
+
+  return createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      if (token && req.headers.authorization !== `Bearer ${token}`) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: unknown[] };
+      try {
+        const result = await handle(method, params);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: errorMessage } }));
+      }
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const privateKey = process.env.MOCK_SIGNER_PRIVATE_KEY as Hex | undefined;
+  if (!privateKey) {
+    console.error('Set MOCK_SIGNER_PRIVATE_KEY');
+    process.exit(1);
+  }
+
+  const port = parseInt(process.env.MOCK_SIGNER_PORT || '9000');
+  createMockRemoteSigner(privateKey, process.env.MOCK_SIGNER_TOKEN).listen(port, '127.0.0.1', () => {
+    console.log(`Mock remote signer for ${privateKeyToAccount(privateKey).address} on http://127.0.0.1:${port}`);
+  });
+}
@@ -0,0 +1,112 @@
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { createHash, timingSafeEqual } from 'crypto';
+import { join } from 'path';
+import type { IncomingMessage } from 'http';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('admin');
+
+const AUDIT_FILE = 'admin-audit.jsonl';
+
+// Entries kept in memory for /api/admin/audit
+const AUDIT_HISTORY = 500;
+
+/**
+ * Operator actions the keeper exposes on /api/admin, implemented by the service
+ * chainId undefined means every chain for pause/resume and reconnect
+ */
+export interface AdminControls {
+  evaluateAgent(chainId: number, agentId: bigint): Promise<Record<string, unknown>>;
+  triggerRule(chainId: number, agentId: bigint, ruleIndex: number): Promise<Record<string, unknown>>;
+  setEvaluationPaused(chainId: number | undefined, paused: boolean): number[];
+  setAgentSkipped(chainId: number, agentId: bigint, skipped: boolean): void;
+  reconnectClearNode(chainId: number | undefined): Promise<Record<string, unknown>>;
+  getState(): Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  timestamp: number;
+  action: string;
+  actor: string; // how the caller authenticated and from where
+  chainId?: number;
+  agentId?: string;
+  ruleIndex?: number;
+  reason?: string; // operator's note from the request body
+  outcome: 'ok' | 'error' | 'denied';
+  error?: string;
+}
+
+/**
+ * Append-only record of admin actions, including refused ones
+ * Written to <dataDir>/admin-audit.jsonl unless the execution store is in memory
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = []; // newest last
+  private path: string | null;
+
+  constructor(config: Config) {
+    this.path = config.executionStore === 'jsonl' ? join(config.dataDir, AUDIT_FILE) : null;
+  }
+
+  async init(): Promise<void> {
+    if (!this.path || !existsSync(this.path)) return;
+
+    const lines = (await readFile(this.path, 'utf8')).split('\n').filter(Boolean);
+    for (const line of lines.slice(-AUDIT_HISTORY)) {
+      try {
+        this.entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        logger.warn({ path: this.path }, 'Skipping unreadable audit line');
+      }
+    }
+  }
+
+  record(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > AUDIT_HISTORY) this.entries.shift();
+
+    const log = entry.outcome === 'ok' ? logger.info.bind(logger) : logger.warn.bind(logger);
+    log(entry, 'Admin action');
+
+    if (this.path) {
+      mkdirSync(join(this.path, '..'), { recursive: true });
+      appendFileSync(this.path, JSON.stringify(entry) + '\n');
+    }
+  }
+
+  /**
+   * Most recent entries, newest first
+   */
+  recent(limit: number): AuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+}
+
+/**
+ * Check the Authorization bearer token or X-API-Key header against the admin token
+ * Returns how the caller authenticated, or null
+ */
+export function authenticateAdmin(req: IncomingMessage, token: string): 'bearer' | 'api-key' | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ') && tokensMatch(authorization.slice(7), token)) {
+    return 'bearer';
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && tokensMatch(apiKey, token)) {
+    return 'api-key';
+  }
+  return null;
+}
+
+// Compare digests so neither the content nor the length leaks through timing
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+export function createAuditLog(config: Config): AuditLog {
+  return new AuditLog(config);
+}
@@ -0,0 +1,197 @@
+import { type PublicClient } from 'viem';
+import { StrategyAgentABI, YellFiHookABI } from './abis/index.js';
+import { createChildLogger } from './logger.js';
+import { computePoolId } from './pool-id.js';
+import { createRobustPublicClient } from './rpc-client.js';
+import type { Config } from './config.js';
+import type { HookSignal } from './event-listener.js';
+import type { AgentConfig, Rule } from './rule-evaluator.js';
+
+const logger = createChildLogger('agent-snapshot');
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Everything the keeper needs to evaluate and execute an agent, read at one point in time
+ */
+export interface AgentSnapshot {
+  agentId: bigint;
+  agent: AgentConfig;
+  rules: Rule[];
+  canExecute: boolean[]; // per rule index
+  balances: {
+    currency0: bigint;
+    currency1: bigint;
+  };
+  poolId: `0x${string}` | null; // null if the pool key is invalid
+  latestSignal: HookSignal | null;
+  blockNumber?: bigint;
+}
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+/**
+ * Loads agent snapshots for a page of agents with viem multicall
+ *
+ * A page takes two batched round-trips: agent configs and rules first, then
+ * canExecute per rule, both pool token balances and the pool's latest signal,
+ * which depend on the rule count and pool key from the first batch.
+ */
+export class AgentSnapshotLoader {
+  private client: PublicClient;
+  private config: Config;
+
+  constructor(config: Config, client?: PublicClient) {
+    this.config = config;
+    this.client = client ?? createRobustPublicClient(config);
+  }
+
+  /**
+   * Load snapshots for agents, paging by config.snapshotPageSize
+   * Agents that fail to load are omitted from the result
+   */
+  async load(agentIds: bigint[]): Promise<AgentSnapshot[]> {
+    const snapshots: AgentSnapshot[] = [];
+    for (let i = 0; i < agentIds.length; i += this.config.snapshotPageSize) {
+      const page = agentIds.slice(i, i + this.config.snapshotPageSize);
+      snapshots.push(...(await this.loadPage(page)));
+    }
+    return snapshots;
+  }
+
+  /**
+   * Load snapshots for one page of agents
+   */
+  async loadPage(agentIds: bigint[]): Promise<AgentSnapshot[]> {
+    if (agentIds.length === 0) return [];
+
+    const blockNumber = await this.client.getBlockNumber();
+
+    // Round-trip 1: agent configs and rules
+    const configCalls = agentIds.flatMap((agentId) => [
+      {
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'getAgent',
+        args: [agentId],
+      },
+      {
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'getRules',
+        args: [agentId],
+      },
+    ]);
+    const configResults = await this.multicall(configCalls, blockNumber);
+
+    const loaded: Array<{ agentId: bigint; agent: AgentConfig; rules: Rule[]; poolId: `0x${string}` | null }> = [];
+    agentIds.forEach((agentId, index) => {
+      const agentResult = configResults[index * 2];
+      const rulesResult = configResults[index * 2 + 1];
+
+      if (agentResult.status !== 'success' || rulesResult.status !== 'success') {
+        const error = agentResult.status === 'failure' ? agentResult.error : (rulesResult as { error: Error }).error;
+        logger.warn({ agentId: agentId.toString(), error: error.message }, 'Failed to load agent');
+        return;
+      }
+
+      const agent = agentResult.result as AgentConfig;
+      loaded.push({
+        agentId,
+        agent,
+        rules: [...(rulesResult.result as Rule[])],
+        poolId: this.safePoolId(agentId, agent),
+      });
+    });
+
+    // Round-trip 2: canExecute per rule, balances and latest signal
+    const hookConfigured = this.config.yellFiHookAddress !== ZERO_ADDRESS;
+    const stateCalls = loaded.flatMap(({ agentId, agent, rules, poolId }) => [
+      ...rules.map((_, ruleIndex) => ({
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'canExecute',
+        args: [agentId, BigInt(ruleIndex)],
+      })),
+      {
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'getAgentBalance',
+        args: [agentId, agent.poolKey.currency0],
+      },
+      {
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'getAgentBalance',
+        args: [agentId, agent.poolKey.currency1],
+      },
+      ...(hookConfigured && poolId
+        ? [{
+            address: this.config.yellFiHookAddress,
+            abi: YellFiHookABI,
+            functionName: 'getLatestSignal',
+            args: [poolId],
+          }]
+        : []),
+    ]);
+    const stateResults = await this.multicall(stateCalls, blockNumber);
+
+    let cursor = 0;
+    return loaded.map(({ agentId, agent, rules, poolId }) => {
+      const canExecute = rules.map(() => this.resultOr(stateResults[cursor++], false) as boolean);
+      const currency0 = this.resultOr(stateResults[cursor++], 0n) as bigint;
+      const currency1 = this.resultOr(stateResults[cursor++], 0n) as bigint;
+      const latestSignal = hookConfigured && poolId
+        ? this.toSignal(this.resultOr(stateResults[cursor++], null))
+        : null;
+
+      return {
+        agentId,
+        agent,
+        rules,
+        canExecute,
+        balances: { currency0, currency1 },
+        poolId,
+        latestSignal,
+        blockNumber,
+      };
+    });
+  }
+
+  private async multicall(contracts: unknown[], blockNumber: bigint): Promise<MulticallResult[]> {
+    if (contracts.length === 0) return [];
+
+    const results = await this.client.multicall({
+      contracts: contracts as Parameters<PublicClient['multicall']>[0]['contracts'],
+      allowFailure: true,
+      blockNumber,
+    });
+    return results as MulticallResult[];
+  }
+
+  private resultOr(result: MulticallResult, fallback: unknown): unknown {
+    return result.status === 'success' ? result.result : fallback;
+  }
+
+  private toSignal(raw: unknown): HookSignal | null {
+    const signal = raw as { poolId: `0x${string}`; signalType: number; magnitude: bigint; timestamp: bigint } | null;
+    if (!signal || signal.timestamp === 0n) return null;
+
+    return {
+      poolId: signal.poolId,
+      signalType: signal.signalType,
+      magnitude: signal.magnitude,
+      timestamp: signal.timestamp,
+    };
+  }
+
+  private safePoolId(agentId: bigint, agent: AgentConfig): `0x${string}` | null {
+    try {
+      return computePoolId(agent.poolKey);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ agentId: agentId.toString(), poolKey: agent.poolKey, error: errorMessage }, 'Invalid pool key');
+      return null;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * A request the API refused, with the HTTP status to answer
+ * Thrown by admin and owner handlers; anything else surfaces as a 500
+ */
+export class ApiRequestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
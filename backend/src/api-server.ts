@@ -1,11 +1,41 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { createChildLogger } from './logger.js';
+import { createExecutionStore, type ExecutionQuery, type ExecutionStore } from './execution-store.js';
 import type { Config } from './config.js';
+import type { FailureClass, FailureCode } from './execution-errors.js';
+import type { BalanceMonitor } from './balance-monitor.js';
+import { registry } from './metrics.js';
+import { createEventStream, type EventStream } from './event-stream.js';
+import {
+  authenticateAdmin,
+  createAuditLog,
+  type AdminControls,
+  type AuditEntry,
+  type AuditLog,
+} from './admin.js';
+import { ApiRequestError } from './api-errors.js';
+import { createOwnerAuth, type OwnerAuth, type OwnerServices, type OwnerSession } from './owner-auth.js';
+import {
+  createOwnerPreferencesStore,
+  parseOwnerPreferences,
+  type OwnerPreferencesStore,
+} from './owner-preferences.js';
+import type { AgentEvaluationReport } from './evaluation-report.js';
+import { createEvaluationHistory, type EvaluationHistory } from './evaluation-history.js';
+import type { EvaluationResult } from './rule-evaluator.js';
 
 const logger = createChildLogger('api-server');
 
+// refresh=true on /api/owner/agents/:id/evaluation is ignored for reports younger than this
+const MIN_EVALUATION_REFRESH_MS = 5000;
+
+// Evaluation requests each client may make per window; fresh reports cost RPC calls and quotes
+const EVALUATION_RATE_LIMIT = 20;
+const EVALUATION_RATE_WINDOW_MS = 60 * 1000;
+
 export interface ExecutionRecord {
   id: string;
+  chainId: number;
   agentId: bigint;
   ruleIndex: number;
   timestamp: number;
@@ -16,9 +46,27 @@ export interface ExecutionRecord {
   executionMode: 'state-channel' | 'on-chain';
   ruleType?: number;
   threshold?: number;
+  // Swap amounts as decimal strings
+  amountIn?: string;
+  quotedAmountOut?: string;
+  minAmountOut?: string;
+  amountOut?: string; // received, confirmed on-chain swaps only
+  slippageBps?: number;
+  skipped?: boolean; // Not attempted, e.g. by gas policy; error holds the reason
+  estimatedGas?: string;
+  estimatedGasCost?: string; // wei
+  failureCode?: FailureCode;
+  failureClass?: FailureClass;
+  simulated?: boolean; // Dry run, no transaction sent
 }
 
+/**
+ * Evaluate an agent on demand; null when the agent does not exist
+ */
+export type AgentExplainer = (chainId: number, agentId: bigint) => Promise<AgentEvaluationReport | null>;
+
 export interface AgentStatus {
+  chainId: number;
   agentId: bigint;
   isActive: boolean;
   lastEvaluation: number;
@@ -28,17 +76,38 @@ export interface AgentStatus {
 
 /**
  * Simple HTTP API server for frontend communication
+ * One server covers every chain the keeper serves; records carry their chainId
+ * and list endpoints accept a chainId filter
  */
 export class ApiServer {
   private server: ReturnType<typeof createServer> | null = null;
-  private executions: ExecutionRecord[] = [];
-  private agentStatuses: Map<string, AgentStatus> = new Map();
+  private store: ExecutionStore;
+  private evaluationHistory: EvaluationHistory;
   private config: Config;
+  private chains: Config[];
+  private balanceMonitors: Map<number, BalanceMonitor> = new Map();
+  private stream: EventStream = createEventStream();
+  private auditLog: AuditLog;
+  private admin: AdminControls | null = null;
+  private ownerAuth: OwnerAuth;
+  private ownerPreferences: OwnerPreferencesStore;
+  private owners: OwnerServices | null = null;
+  private explainer: AgentExplainer | null = null;
+  // chainId:agentId -> latest report, shared by concurrent requests while in flight
+  private evaluations: Map<string, Promise<AgentEvaluationReport | null>> = new Map();
+  // client address -> evaluation requests in the current window
+  private evaluationRequests: Map<string, { windowStart: number; count: number }> = new Map();
   private port: number;
 
-  constructor(config: Config, port: number = 3001) {
+  constructor(config: Config, port: number = 3001, store?: ExecutionStore, chains: Config[] = [config]) {
     this.config = config;
+    this.chains = chains;
     this.port = port;
+    this.store = store ?? createExecutionStore(config);
+    this.evaluationHistory = createEvaluationHistory(config);
+    this.auditLog = createAuditLog(config);
+    this.ownerAuth = createOwnerAuth(config, chains);
+    this.ownerPreferences = createOwnerPreferencesStore(config);
   }
 
   /**
@@ -51,22 +120,28 @@ export class ApiServer {
       timestamp: Date.now(),
     };
     
-    this.executions.unshift(execution);
-    
-    // Keep only last 1000 executions
-    if (this.executions.length > 1000) {
-      this.executions = this.executions.slice(0, 1000);
-    }
+    this.store.appendExecution(execution);
+    this.stream.publish('execution', execution.chainId, execution);
 
-    logger.info({ executionId: execution.id, agentId: record.agentId.toString() }, 'Execution recorded');
+    logger.info(
+      { executionId: execution.id, chainId: record.chainId, agentId: record.agentId.toString() },
+      'Execution recorded'
+    );
+  }
+
+  /**
+   * Record one agent's rule decisions; unchanged decisions extend the previous record
+   */
+  recordEvaluations(chainId: number, evaluations: EvaluationResult[], blockNumber?: bigint): void {
+    this.evaluationHistory.record(chainId, evaluations, blockNumber);
   }
 
   /**
    * Update agent status
    */
-  updateAgentStatus(agentId: bigint, update: Partial<AgentStatus>): void {
-    const key = agentId.toString();
-    const existing = this.agentStatuses.get(key) || {
+  updateAgentStatus(chainId: number, agentId: bigint, update: Partial<AgentStatus>): void {
+    const existing = this.store.getAgentStatus(chainId, agentId.toString()) || {
+      chainId,
       agentId,
       isActive: true,
       lastEvaluation: 0,
@@ -74,17 +149,78 @@ export class ApiServer {
       totalExecutions: 0,
     };
     
-    this.agentStatuses.set(key, { ...existing, ...update });
+    const status = { ...existing, ...update };
+    this.store.saveAgentStatus(status);
+    this.stream.publish('agent-status', chainId, status);
+  }
+
+  /**
+   * Push a keeper event that is not stored, e.g. an evaluation cycle summary or a hook signal
+   */
+  publishEvent(type: 'evaluation-cycle' | 'signal', chainId: number, data: Record<string, unknown>): void {
+    this.stream.publish(type, chainId, data);
+  }
+
+  /**
+   * Report a chain's keeper balance on /api/health
+   */
+  trackKeeperBalance(chainId: number, monitor: BalanceMonitor): void {
+    this.balanceMonitors.set(chainId, monitor);
+  }
+
+  /**
+   * Serve operator actions on /api/admin; they also need ADMIN_API_TOKEN
+   */
+  setAdminControls(controls: AdminControls): void {
+    this.admin = controls;
+  }
+
+  /**
+   * Serve /api/owner for signed-in agent owners
+   */
+  setOwnerServices(services: OwnerServices): void {
+    this.owners = services;
+  }
+
+  /**
+   * Serve /api/owner/agents/:id/evaluation
+   */
+  setAgentExplainer(explainer: AgentExplainer): void {
+    this.explainer = explainer;
+  }
+
+  /**
+   * Owner preferences, read by each chain's evaluator and executor
+   */
+  getOwnerPreferences(): OwnerPreferencesStore {
+    return this.ownerPreferences;
+  }
+
+  /**
+   * Count recorded executions, optionally for one chain or one agent on it
+   */
+  countExecutions(chainId?: number, agentId?: bigint): number {
+    return this.store.countExecutions(chainId, agentId?.toString());
   }
 
   /**
    * Handle HTTP requests
    */
   private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', `http://localhost:${this.port}`);
+    const path = url.pathname;
+    const chainId = parseChainId(url.searchParams.get('chainId'));
+
+    // Admin routes get no CORS headers, so browsers cannot call them cross-origin
+    if (path.startsWith('/api/admin/')) {
+      void this.handleAdminRequest(req, res, url);
+      return;
+    }
+
     // CORS headers
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Last-Event-ID');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(204);
@@ -92,77 +228,419 @@ export class ApiServer {
       return;
     }
 
-    const url = new URL(req.url || '/', `http://localhost:${this.port}`);
-    const path = url.pathname;
+    // Owner sessions travel as bearer tokens, not cookies, so the open CORS policy is safe here
+    if (path.startsWith('/api/auth/') || path.startsWith('/api/owner/')) {
+      void this.handleOwnerRequest(req, res, url, chainId);
+      return;
+    }
 
     try {
-      if (path === '/api/health') {
-        this.sendJson(res, { status: 'ok', timestamp: Date.now() });
+      if (path === '/metrics') {
+        // Prometheus text exposition format
+        res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+        res.end(registry.render());
+      } else if (path === '/api/health') {
+        // Degraded while any chain has on-chain execution paused for gas
+        const keepers = [...this.balanceMonitors.entries()]
+          .filter(([id]) => chainId === undefined || id === chainId)
+          .flatMap(([id, monitor]) => {
+            const state = monitor.getState();
+            if (!state) return [];
+            return [{
+              chainId: id,
+              keeper: state.keeper,
+              balance: state.balance.toString(),
+              level: state.level,
+              executionCost: state.executionCost?.toString() ?? null,
+              executionsRemaining: state.executionsRemaining,
+              onChainPaused: state.onChainPaused,
+              checkedAt: state.checkedAt,
+            }];
+          });
+        this.sendJson(res, {
+          status: keepers.some(k => k.onChainPaused) ? 'degraded' : 'ok',
+          timestamp: Date.now(),
+          keepers,
+        });
+      } else if (path === '/api/stream') {
+        // Server-Sent Events; resumes from the Last-Event-ID header on reconnect
+        this.stream.subscribe(req, res, chainId);
       } else if (path === '/api/executions') {
-        const limit = parseInt(url.searchParams.get('limit') || '50');
-        const agentId = url.searchParams.get('agentId');
-        
-        let filtered = this.executions;
-        if (agentId) {
-          filtered = filtered.filter(e => e.agentId.toString() === agentId);
-        }
+        const query = this.parseExecutionQuery(url.searchParams);
+        const page = this.store.queryExecutions(query);
         
         this.sendJson(res, {
-          executions: filtered.slice(0, limit).map(e => ({
+          executions: page.executions.map(e => ({
             ...e,
             agentId: e.agentId.toString(),
           })),
-          total: filtered.length,
+          total: page.total,
+          limit: query.limit,
+          offset: query.offset,
         });
       } else if (path === '/api/agents/status') {
-        const statuses = Array.from(this.agentStatuses.values()).map(s => ({
+        const statuses = this.store.getAgentStatuses()
+          .filter(s => chainId === undefined || s.chainId === chainId)
+          .map(s => ({
           ...s,
           agentId: s.agentId.toString(),
         }));
         this.sendJson(res, { agents: statuses });
       } else if (path === '/api/stats') {
-        const totalExecutions = this.executions.length;
-        const successfulExecutions = this.executions.filter(e => e.success).length;
-        const failedExecutions = totalExecutions - successfulExecutions;
-        const stateChannelExecutions = this.executions.filter(e => e.executionMode === 'state-channel').length;
-        const onChainExecutions = this.executions.filter(e => e.executionMode === 'on-chain').length;
-        
+        // Dry-run records are reported separately so shadow keepers do not inflate the real counts
+        // Counts cover the executions still within retention
+        const stats = this.store.getStats(chainId);
+
         this.sendJson(res, {
-          totalExecutions,
-          successfulExecutions,
-          failedExecutions,
-          stateChannelExecutions,
-          onChainExecutions,
-          activeAgents: this.agentStatuses.size,
+          chainId: chainId ?? null, // null when aggregated over every chain
+          totalExecutions: stats.total,
+          successfulExecutions: stats.successful,
+          failedExecutions: stats.failed,
+          skippedExecutions: stats.skipped,
+          simulatedExecutions: stats.simulated,
+          stateChannelExecutions: stats.stateChannel,
+          onChainExecutions: stats.onChain,
+          activeAgents: this.store.getAgentStatuses()
+            .filter(s => chainId === undefined || s.chainId === chainId).length,
           uptime: process.uptime(),
         });
       } else if (path === '/api/config') {
+        // Top-level fields describe the primary chain
         this.sendJson(res, {
           chainId: this.config.chainId,
           strategyAgent: this.config.strategyAgentAddress,
           pollInterval: this.config.pollIntervalMs,
           yellowSandbox: this.config.yellowUseSandbox,
+          chains: this.chains.map(c => ({
+            chainId: c.chainId,
+            chainProfile: c.chainProfile,
+            strategyAgent: c.strategyAgentAddress,
+            executorAdapter: c.executorAdapterAddress,
+          })),
+        });
+      } else {
+        this.sendJson(res, { error: 'Not found' }, 404);
+      }
+    } catch (error) {
+      logger.error({ error, path }, 'API error');
+      this.sendJson(res, { error: 'Internal server error' }, 500);
+    }
+  }
+
+  /**
+   * Handle /api/admin requests: authenticate, run the action, audit it
+   * GETs read keeper state and the audit trail; POSTs change things and are audited
+   */
+  private async handleAdminRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const path = url.pathname.slice('/api/admin'.length);
+    const token = this.config.adminApiToken;
+    if (!token || !this.admin) {
+      this.sendJson(res, { error: 'Admin API is disabled, set ADMIN_API_TOKEN' }, 403);
+      return;
+    }
+
+    const method = authenticateAdmin(req, token);
+    const actor = `${method ?? 'anonymous'}@${req.socket.remoteAddress ?? 'unknown'}`;
+    if (!method) {
+      if (req.method === 'POST') {
+        this.auditLog.record({ timestamp: Date.now(), action: path.slice(1), actor, outcome: 'denied' });
+      } else {
+        logger.warn({ path, actor }, 'Unauthorized admin request');
+      }
+      this.sendJson(res, { error: 'Unauthorized' }, 401);
+      return;
+    }
+
+    const admin = this.admin;
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 500);
+    if (req.method === 'GET' && path === '/state') {
+      this.sendJson(res, admin.getState());
+      return;
+    }
+    if (req.method === 'GET' && path === '/audit') {
+      this.sendJson(res, { entries: this.auditLog.recent(limit) });
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.sendJson(res, { error: 'Method not allowed' }, 405);
+      return;
+    }
+
+    // Per-agent actions default to the primary chain; pause and reconnect default to every chain
+    const chainId = parseChainId(url.searchParams.get('chainId'));
+    const agentChainId = chainId ?? this.config.chainId;
+    const agentMatch = path.match(/^\/agents\/(\d+)\/(evaluate|skip|unskip|rules\/(\d+)\/execute)$/);
+    const entry: AuditEntry = { timestamp: Date.now(), action: path.slice(1), actor, outcome: 'ok' };
+
+    try {
+      const { reason } = await readJsonBody(req);
+      if (typeof reason === 'string') entry.reason = reason;
+
+      let result: Record<string, unknown>;
+      if (path === '/pause' || path === '/resume') {
+        entry.action = path.slice(1);
+        entry.chainId = chainId;
+        result = { chains: admin.setEvaluationPaused(chainId, path === '/pause') };
+      } else if (path === '/clearnode/reconnect') {
+        entry.action = 'reconnect-clearnode';
+        entry.chainId = chainId;
+        result = await admin.reconnectClearNode(chainId);
+      } else if (agentMatch) {
+        const agentId = BigInt(agentMatch[1]);
+        entry.chainId = agentChainId;
+        entry.agentId = agentId.toString();
+
+        if (agentMatch[3] !== undefined) {
+          entry.action = 'trigger-rule';
+          entry.ruleIndex = parseInt(agentMatch[3]);
+          result = await admin.triggerRule(agentChainId, agentId, entry.ruleIndex);
+        } else if (agentMatch[2] === 'evaluate') {
+          entry.action = 'evaluate-agent';
+          result = await admin.evaluateAgent(agentChainId, agentId);
+        } else {
+          entry.action = `${agentMatch[2]}-agent`;
+          admin.setAgentSkipped(agentChainId, agentId, agentMatch[2] === 'skip');
+          result = { skipped: agentMatch[2] === 'skip' };
+        }
+      } else {
+        this.sendJson(res, { error: 'Not found' }, 404);
+        return;
+      }
+
+      this.auditLog.record(entry);
+      this.sendJson(res, { ok: true, ...result });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.auditLog.record({ ...entry, outcome: 'error', error: errorMessage });
+      this.sendJson(res, { error: errorMessage }, error instanceof ApiRequestError ? error.status : 500);
+    }
+  }
+
+  /**
+   * Handle SIWE sign-in (/api/auth) and owner-only agent endpoints (/api/owner)
+   * Owner endpoints check the session address against getAgent(agentId).owner
+   */
+  private async handleOwnerRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    chainId: number | undefined
+  ): Promise<void> {
+    const path = url.pathname;
+    try {
+      if (!this.ownerAuth.enabled) {
+        throw new ApiRequestError('Owner sign-in is disabled, SIWE_DOMAIN is not set', 503);
+      }
+      if (req.method === 'GET' && path === '/api/auth/nonce') {
+        this.sendJson(res, { nonce: this.ownerAuth.issueNonce(req.socket.remoteAddress ?? 'unknown') });
+        return;
+      }
+      if (req.method === 'POST' && path === '/api/auth/verify') {
+        const { message, signature } = await readJsonBody(req);
+        if (typeof message !== 'string' || typeof signature !== 'string' || !signature.startsWith('0x')) {
+          throw new ApiRequestError('message and signature are required');
+        }
+        this.sendJson(res, await this.ownerAuth.signIn(message, signature as `0x${string}`));
+        return;
+      }
+      if (req.method === 'POST' && path === '/api/auth/logout') {
+        this.ownerAuth.signOut(req);
+        this.sendJson(res, { ok: true });
+        return;
+      }
+
+      const session = this.ownerAuth.authenticate(req);
+      if (!session) {
+        throw new ApiRequestError('Sign in required', 401);
+      }
+      if (req.method === 'GET' && path === '/api/auth/session') {
+        this.sendJson(res, session);
+        return;
+      }
+
+      const match = path.match(/^\/api\/owner\/agents\/(\d+)\/(diagnostics|preferences|evaluations?)$/);
+      if (!match) {
+        throw new ApiRequestError('Not found', 404);
+      }
+      const agentId = BigInt(match[1]);
+      const agentChainId = chainId ?? session.chainId;
+      if (match[2] === 'evaluation' || match[2] === 'evaluations') {
+        this.limitEvaluationRequests(req.socket.remoteAddress ?? 'unknown');
+      }
+      await this.requireOwner(session, agentChainId, agentId);
+
+      if (req.method === 'GET' && match[2] === 'evaluation') {
+        this.sendJson(res, await this.explainAgent(agentChainId, agentId, url.searchParams.get('refresh') === 'true'));
+      } else if (req.method === 'GET' && match[2] === 'evaluations') {
+        // Rule decision timeline, e.g. ?rule=0&from=2024-06-01T00:00Z&to=2024-06-02T00:00Z
+        const params = url.searchParams;
+        const rule = params.get('rule');
+        const query = {
+          chainId: agentChainId,
+          agentId: agentId.toString(),
+          ruleIndex: rule && /^\d+$/.test(rule) ? parseInt(rule) : undefined,
+          from: parseTime(params.get('from')),
+          to: parseTime(params.get('to')),
+          limit: Math.min(Math.max(parseInt(params.get('limit') || '100') || 100, 1), 1000),
+          offset: Math.max(parseInt(params.get('offset') || '0') || 0, 0),
+        };
+        const page = this.evaluationHistory.query(query);
+
+        this.sendJson(res, {
+          ...page,
+          limit: query.limit,
+          offset: query.offset,
+        });
+      } else if (req.method === 'GET' && match[2] === 'diagnostics') {
+        const failures = this.store.queryExecutions({
+          chainId: agentChainId,
+          agentId: agentId.toString(),
+          success: false,
+          limit: 10,
+        });
+        this.sendJson(res, {
+          chainId: agentChainId,
+          agentId: agentId.toString(),
+          ...await this.owners!.getDiagnostics(agentChainId, agentId),
+          recentFailures: failures.executions,
+          preferences: this.ownerPreferences.get(agentChainId, agentId) ?? null,
         });
+      } else if (req.method === 'GET' && match[2] === 'preferences') {
+        this.sendJson(res, this.ownerPreferences.get(agentChainId, agentId) ?? null);
+      } else if (req.method === 'PUT' && match[2] === 'preferences') {
+        const chain = this.chains.find(c => c.chainId === agentChainId) ?? this.config;
+        const preferences = {
+          chainId: agentChainId,
+          agentId: agentId.toString(),
+          ...parseOwnerPreferences(await readJsonBody(req), chain.maxSlippageBps),
+          updatedBy: session.address,
+          updatedAt: Date.now(),
+        };
+        this.ownerPreferences.set(preferences);
+        logger.info({ chainId: agentChainId, agentId: agentId.toString(), owner: session.address }, 'Owner preferences updated');
+        this.sendJson(res, preferences);
       } else {
-        res.writeHead(404);
-        this.sendJson(res, { error: 'Not found' });
+        throw new ApiRequestError('Method not allowed', 405);
       }
     } catch (error) {
+      if (error instanceof ApiRequestError) {
+        this.sendJson(res, { error: error.message }, error.status);
+        return;
+      }
       logger.error({ error, path }, 'API error');
-      res.writeHead(500);
-      this.sendJson(res, { error: 'Internal server error' });
+      this.sendJson(res, { error: 'Internal server error' }, 500);
     }
   }
 
-  private sendJson(res: ServerResponse, data: unknown): void {
-    res.setHeader('Content-Type', 'application/json');
-    res.end(JSON.stringify(data));
+  /**
+   * Explain an agent's rules, reusing a report younger than the chain's poll interval
+   * Owner-only: quotes are sized with the owner's preferences and reasons show paused rules
+   */
+  private async explainAgent(
+    chainId: number,
+    agentId: bigint,
+    refresh: boolean
+  ): Promise<AgentEvaluationReport & { cached: boolean }> {
+    if (!this.explainer) {
+      throw new ApiRequestError('Evaluation is not available', 503);
+    }
+    const chain = this.chains.find(c => c.chainId === chainId);
+    if (!chain) {
+      throw new ApiRequestError(`Chain ${chainId} is not served`, 404);
+    }
+
+    const key = `${chain.chainId}:${agentId}`;
+    let pending = this.evaluations.get(key);
+    const cached = pending ? await pending.catch(() => null) : null;
+    const age = cached ? Date.now() - cached.evaluatedAt : Infinity;
+    const stale = !pending || age >= (refresh ? MIN_EVALUATION_REFRESH_MS : chain.pollIntervalMs);
+    if (stale) {
+      pending = this.explainer(chain.chainId, agentId);
+      this.evaluations.set(key, pending);
+      // Drop failures and missing agents so the next request tries again
+      pending.then(
+        (report) => { if (!report && this.evaluations.get(key) === pending) this.evaluations.delete(key); },
+        () => { if (this.evaluations.get(key) === pending) this.evaluations.delete(key); }
+      );
+    }
+
+    const report = await pending;
+    if (!report) {
+      throw new ApiRequestError(`Agent ${agentId} not found`, 404);
+    }
+    return { ...report, cached: !stale };
+  }
+
+  /**
+   * Count an evaluation request against the client's window, refusing it past the limit
+   */
+  private limitEvaluationRequests(client: string): void {
+    const now = Date.now();
+    if (this.evaluationRequests.size > 1000) {
+      for (const [key, window] of this.evaluationRequests) {
+        if (now - window.windowStart >= EVALUATION_RATE_WINDOW_MS) this.evaluationRequests.delete(key);
+      }
+    }
+
+    let window = this.evaluationRequests.get(client);
+    if (!window || now - window.windowStart >= EVALUATION_RATE_WINDOW_MS) {
+      window = { windowStart: now, count: 0 };
+      this.evaluationRequests.set(client, window);
+    }
+    if (++window.count > EVALUATION_RATE_LIMIT) {
+      const retryIn = Math.ceil((window.windowStart + EVALUATION_RATE_WINDOW_MS - now) / 1000);
+      throw new ApiRequestError(`Too many evaluation requests, retry in ${retryIn}s`, 429);
+    }
+  }
+
+  private async requireOwner(session: OwnerSession, chainId: number, agentId: bigint): Promise<void> {
+    if (!this.owners) {
+      throw new ApiRequestError('Owner endpoints are not available', 503);
+    }
+    const owner = await this.owners.getAgentOwner(chainId, agentId);
+    if (!owner) {
+      throw new ApiRequestError(`Agent ${agentId} not found`, 404);
+    }
+    if (owner.toLowerCase() !== session.address.toLowerCase()) {
+      throw new ApiRequestError('Not the agent owner', 403);
+    }
+  }
+
+  /**
+   * Parse /api/executions filters
+   * from/to accept ms timestamps or ISO dates; success accepts true/false
+   */
+  private parseExecutionQuery(params: URLSearchParams): ExecutionQuery {
+    const success = params.get('success');
+    const simulated = params.get('simulated');
+
+    return {
+      chainId: parseChainId(params.get('chainId')),
+      agentId: params.get('agentId') || undefined,
+      success: success === 'true' ? true : success === 'false' ? false : undefined,
+      failureCode: params.get('failureCode') || undefined,
+      simulated: simulated === 'true' ? true : simulated === 'false' ? false : undefined,
+      from: parseTime(params.get('from')),
+      to: parseTime(params.get('to')),
+      limit: Math.min(Math.max(parseInt(params.get('limit') || '50') || 50, 1), 500),
+      offset: Math.max(parseInt(params.get('offset') || '0') || 0, 0),
+    };
+  }
+
+  private sendJson(res: ServerResponse, data: unknown, status: number = 200): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
   }
 
   /**
    * Start the API server
    */
-  start(): Promise<void> {
+  async start(): Promise<void> {
+    await this.store.init();
+    await this.auditLog.init();
+    await this.ownerPreferences.init();
+    await this.evaluationHistory.init();
+
     return new Promise((resolve, reject) => {
       this.server = createServer((req, res) => this.handleRequest(req, res));
       
@@ -172,7 +650,7 @@ export class ApiServer {
       });
 
       this.server.listen(this.port, () => {
-        logger.info({ port: this.port }, 'API server started');
+        logger.info({ port: this.port, ownerSignIn: this.ownerAuth.enabled }, 'API server started');
         resolve();
       });
     });
@@ -182,6 +660,10 @@ export class ApiServer {
    * Stop the API server
    */
   stop(): Promise<void> {
+    // Open streams would otherwise hold the server open
+    this.stream.close();
+    this.evaluationHistory.flush();
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -195,6 +677,46 @@ export class ApiServer {
   }
 }
 
-export function createApiServer(config: Config, port?: number): ApiServer {
-  return new ApiServer(config, port);
+/**
+ * Read an optional JSON object body, e.g. { "reason": "..." } on admin actions
+ */
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > 64 * 1024) throw new ApiRequestError('Request body too large', 413);
+    chunks.push(chunk as Buffer);
+  }
+
+  const body = Buffer.concat(chunks).toString('utf8').trim();
+  if (!body) return {};
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // fall through
+  }
+  throw new ApiRequestError('Body must be a JSON object');
+}
+
+function parseChainId(value: string | null): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return parseInt(value);
+}
+
+// Query timestamps: ms since epoch or ISO dates
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export function createApiServer(
+  config: Config,
+  port?: number,
+  store?: ExecutionStore,
+  chains?: Config[]
+): ApiServer {
+  return new ApiServer(config, port, store, chains);
 }
@@ -0,0 +1,143 @@
+import { formatEther, parseEther, type Address } from 'viem';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('balance-monitor');
+
+export type BalanceLevel = 'ok' | 'warn' | 'critical';
+
+/**
+ * What the monitor reads from the executor
+ */
+export interface KeeperBalanceSource {
+  getKeeperAddress(): Address;
+  getKeeperBalance(): Promise<bigint>;
+  estimateExecutionCost(): Promise<bigint>; // worst case for one on-chain execution, in wei
+}
+
+export interface KeeperBalanceState {
+  keeper: Address;
+  balance: bigint;
+  level: BalanceLevel;
+  executionCost: bigint | null; // null when it could not be estimated
+  executionsRemaining: number | null;
+  onChainPaused: boolean;
+  checkedAt: number;
+}
+
+export type BalanceLevelHandler = (state: KeeperBalanceState, previous: BalanceLevel | null) => void;
+
+/**
+ * Tracks the keeper's gas balance and trips a circuit breaker when it runs low
+ *
+ * Below the warn threshold the keeper keeps executing and logs how many executions
+ * it can still afford. Below the critical threshold on-chain execution is paused
+ * until the balance is topped up; state channel execution is unaffected.
+ */
+export class BalanceMonitor {
+  private source: KeeperBalanceSource;
+  private warnBalance: bigint;
+  private criticalBalance: bigint;
+  private intervalMs: number;
+  private state: KeeperBalanceState | null = null;
+  private handlers: BalanceLevelHandler[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: Config, source: KeeperBalanceSource) {
+    this.source = source;
+    this.warnBalance = parseEther(config.keeperBalanceWarnEth);
+    this.criticalBalance = parseEther(config.keeperBalanceCriticalEth);
+    this.intervalMs = config.balanceCheckIntervalMs;
+  }
+
+  /**
+   * Register a handler called when the balance level changes
+   */
+  onLevelChange(handler: BalanceLevelHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Check now, then on every interval
+   */
+  async start(): Promise<void> {
+    await this.check();
+    this.timer = setInterval(() => {
+      this.check().catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn({ error: errorMessage }, 'Keeper balance check failed');
+      });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Read the balance and update the level
+   * A failed cost estimate leaves executionsRemaining unknown but still sets the level
+   */
+  async check(): Promise<KeeperBalanceState> {
+    const keeper = this.source.getKeeperAddress();
+    const balance = await this.source.getKeeperBalance();
+
+    let executionCost: bigint | null = null;
+    try {
+      executionCost = await this.source.estimateExecutionCost();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.debug({ error: errorMessage }, 'Execution cost estimate failed');
+    }
+
+    const level = this.levelFor(balance);
+    const previous = this.state?.level ?? null;
+    this.state = {
+      keeper,
+      balance,
+      level,
+      executionCost,
+      executionsRemaining: executionCost && executionCost > 0n ? Number(balance / executionCost) : null,
+      onChainPaused: level === 'critical',
+      checkedAt: Date.now(),
+    };
+
+    const fields = {
+      keeper,
+      balance: formatEther(balance),
+      executionsRemaining: this.state.executionsRemaining,
+    };
+    if (level === 'critical') {
+      logger.error({ ...fields, critical: formatEther(this.criticalBalance) }, 'Keeper balance critical, on-chain execution paused');
+    } else if (level === 'warn') {
+      logger.warn({ ...fields, warn: formatEther(this.warnBalance) }, 'Keeper balance low');
+    } else if (previous && previous !== 'ok') {
+      logger.info(fields, 'Keeper balance recovered');
+    }
+
+    if (level !== previous) {
+      for (const handler of this.handlers) {
+        handler(this.state, previous);
+      }
+    }
+    return this.state;
+  }
+
+  /**
+   * Latest state, null before the first check
+   */
+  getState(): KeeperBalanceState | null {
+    return this.state;
+  }
+
+  private levelFor(balance: bigint): BalanceLevel {
+    if (balance < this.criticalBalance) return 'critical';
+    if (balance < this.warnBalance) return 'warn';
+    return 'ok';
+  }
+}
+
+export function createBalanceMonitor(config: Config, source: KeeperBalanceSource): BalanceMonitor {
+  return new BalanceMonitor(config, source);
+}
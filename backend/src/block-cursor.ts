@@ -0,0 +1,82 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('block-cursor');
+
+const CURSOR_FILE = 'event-cursor.json';
+
+interface CursorState {
+  lastProcessedBlock: string;
+  chainId: number;
+  strategyAgentAddress: string;
+  yellFiHookAddress: string;
+  updatedAt: number;
+}
+
+/**
+ * Last fully processed block for the event listener, persisted to disk
+ *
+ * The cursor is tied to the chain and contract addresses it was written for;
+ * after a redeploy to new addresses the saved block is ignored.
+ */
+export class BlockCursor {
+  private path: string;
+  private config: Config;
+
+  constructor(config: Config, path: string = join(config.dataDir, CURSOR_FILE)) {
+    this.config = config;
+    this.path = path;
+  }
+
+  /**
+   * Load the saved block, or null if there is no usable cursor
+   */
+  load(): bigint | null {
+    if (!existsSync(this.path)) return null;
+
+    try {
+      const state = JSON.parse(readFileSync(this.path, 'utf8')) as CursorState;
+
+      if (
+        state.chainId !== this.config.chainId ||
+        state.strategyAgentAddress.toLowerCase() !== this.config.strategyAgentAddress.toLowerCase() ||
+        state.yellFiHookAddress.toLowerCase() !== this.config.yellFiHookAddress.toLowerCase()
+      ) {
+        logger.warn(
+          {
+            savedChainId: state.chainId,
+            savedStrategyAgent: state.strategyAgentAddress,
+            savedHook: state.yellFiHookAddress,
+          },
+          'Saved block cursor belongs to a different deployment, ignoring'
+        );
+        return null;
+      }
+
+      return BigInt(state.lastProcessedBlock);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ path: this.path, error: errorMessage }, 'Failed to read block cursor, ignoring');
+      return null;
+    }
+  }
+
+  /**
+   * Persist the last processed block
+   */
+  save(block: bigint): void {
+    const state: CursorState = {
+      lastProcessedBlock: block.toString(),
+      chainId: this.config.chainId,
+      strategyAgentAddress: this.config.strategyAgentAddress,
+      yellFiHookAddress: this.config.yellFiHookAddress,
+      updatedAt: Date.now(),
+    };
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(`${this.path}.tmp`, JSON.stringify(state, null, 2));
+    renameSync(`${this.path}.tmp`, this.path);
+  }
+}
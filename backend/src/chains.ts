@@ -0,0 +1,25 @@
+import { defineChain, type Address, type Chain } from 'viem';
+import { anvil, sepolia } from 'viem/chains';
+import type { Config } from './config.js';
+
+// Canonical Multicall3, deployed at the same address on Sepolia and therefore on Sepolia forks
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11' as Address;
+
+/**
+ * The viem chain for the configured chain ID
+ * Other chains, including anvil, are defined from the config RPC with Multicall3 at its canonical address
+ */
+export function resolveChain(config: Pick<Config, 'chainId' | 'rpcUrl'>): Chain {
+  if (config.chainId === sepolia.id) return sepolia;
+
+  const known = config.chainId === anvil.id ? anvil : null;
+  return defineChain({
+    id: config.chainId,
+    name: known?.name ?? `Chain ${config.chainId}`,
+    nativeCurrency: known?.nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } },
+    contracts: {
+      multicall3: { address: MULTICALL3_ADDRESS },
+    },
+  });
+}
@@ -1,5 +1,10 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { Address } from 'viem';
+import { Address, getAddress } from 'viem';
+import { buildPoolKey, type PoolKey } from './pool-id.js';
+import { loadDeployment, type Deployment } from './deployment.js';
+import type { SignerSpec } from './signer.js';
 
 dotenvConfig();
 
@@ -10,8 +15,18 @@ export const SEPOLIA_RPC_URLS = [
   
 ] as const;
 
+export type ChainProfile = 'sepolia' | 'anvil';
+
+// Network defaults per profile; CHAIN_ID, RPC_URL and DEPLOYMENT_FILE override them
+export const CHAIN_PROFILES: Record<ChainProfile, { chainId: number; rpcUrls: readonly string[] }> = {
+  sepolia: { chainId: 11155111, rpcUrls: SEPOLIA_RPC_URLS },
+  // Local anvil, forking Sepolia or with Uniswap v4 deployed by contracts/script/DeployLocal.s.sol
+  anvil: { chainId: 31337, rpcUrls: ['http://127.0.0.1:8545'] },
+};
+
 export interface Config {
   // Network
+  chainProfile: ChainProfile;
   rpcUrl: string;
   rpcUrls: string[]; // Fallback RPCs
   chainId: number;
@@ -20,14 +35,66 @@ export interface Config {
   strategyAgentAddress: Address;
   yellFiHookAddress: Address;
   executorAdapterAddress: Address;
+  stateViewAddress: Address;
+  quoterAddress: Address;
+  
+  // Price oracle
+  priceSource: 'stateview' | 'twap';
+  twapWindowSeconds: number;
   
-  // Keeper
-  keeperPrivateKey: `0x${string}`;
+  // Keeper - the execution key must be a StrategyAgent keeper; the ClearNode key signs state channel messages
+  executionSigner: SignerSpec;
+  clearNodeSigner: SignerSpec;
   
   // Service
   pollIntervalMs: number;
   maxRetries: number;
   retryDelayMs: number;
+  reorgSafetyDepth: number;
+  snapshotPageSize: number;
+  swapSizingOverrides: string; // JSON policies keyed "agentId:ruleIndex" or rule type name, see swap-sizing.ts
+  dryRun: boolean; // Shadow mode: simulate executions, never send transactions
+  
+  // Transactions
+  maxConcurrentExecutions: number;
+  executionDedupWindowMs: number;
+  txStuckTimeoutMs: number;
+  feeBumpPercent: number;
+  maxFeeBumps: number;
+  
+  // Gas policy
+  maxFeePerGasGwei: string;
+  maxPriorityFeePerGasGwei: string;
+  maxGasPerExecution: number;
+  maxGasCostBps: number; // Max gas cost as a share of swap notional
+  wrappedNativeAddress: Address;
+  
+  // Keeper balance
+  keeperBalanceWarnEth: string;
+  keeperBalanceCriticalEth: string; // On-chain execution pauses below this
+  balanceCheckIntervalMs: number;
+  
+  // Routing
+  routingPools: PoolKey[]; // Pool graph searched for multi-hop routes, see router.ts
+  maxRouteHops: number;
+  
+  // Slippage
+  defaultSlippageBps: number;
+  maxSlippageBps: number;
+  slippageOverrides: string; // JSON bps keyed "agentId:ruleIndex", "agentId" or rule type name, see slippage.ts
+  
+  // Persistence
+  dataDir: string;
+  executionStore: 'jsonl' | 'memory';
+  executionHistoryRetentionMs: number; // executions older than this are dropped, and no longer count in /api/stats
+  evaluationHistoryRetentionMs: number; // rule decisions older than this are dropped on compaction
+  
+  // Admin API
+  adminApiToken?: string; // /api/admin is disabled without it
+  
+  // Owner sessions
+  siweDomain?: string; // Sign-in messages must name this domain; owner sign-in is off without it
+  ownerSessionTtlMs: number;
   
   // Yellow Network
   yellowClearNodeUrl: string;
@@ -46,37 +113,237 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+interface RoutingPoolSpec {
+  tokenA: Address;
+  tokenB: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks?: Address;
+}
+
+function buildRoutingPools(pools: RoutingPoolSpec[]): PoolKey[] {
+  return pools.map((pool) => buildPoolKey(pool.tokenA, pool.tokenB, pool.fee, pool.tickSpacing, pool.hooks));
+}
+
+function parseRoutingPools(json: string): PoolKey[] {
+  return buildRoutingPools(JSON.parse(json) as RoutingPoolSpec[]);
+}
+
 function optionalBoolEnv(name: string, defaultValue: boolean): boolean {
   const value = process.env[name];
   if (!value) return defaultValue;
   return value.toLowerCase() === 'true';
 }
 
+/**
+ * Signer settings under a prefix: <PREFIX>_SIGNER picks the kind, then
+ * <PREFIX>_PRIVATE_KEY, <PREFIX>_KEYSTORE_PATH with <PREFIX>_KEYSTORE_PASSPHRASE(_FILE),
+ * or <PREFIX>_REMOTE_SIGNER_URL, _ADDRESS and optional _TOKEN
+ */
+function parseSignerSpec(prefix: string): SignerSpec {
+  const kind = optionalEnv(`${prefix}_SIGNER`, 'private-key');
+  switch (kind) {
+    case 'private-key':
+      return { kind, privateKey: requireEnv(`${prefix}_PRIVATE_KEY`) as `0x${string}` };
+    case 'keystore': {
+      const passphraseFile = process.env[`${prefix}_KEYSTORE_PASSPHRASE_FILE`];
+      return {
+        kind,
+        path: requireEnv(`${prefix}_KEYSTORE_PATH`),
+        passphrase: passphraseFile
+          ? readFileSync(passphraseFile, 'utf8').trim()
+          : requireEnv(`${prefix}_KEYSTORE_PASSPHRASE`),
+      };
+    }
+    case 'remote':
+      return {
+        kind,
+        url: requireEnv(`${prefix}_REMOTE_SIGNER_URL`),
+        address: getAddress(requireEnv(`${prefix}_REMOTE_SIGNER_ADDRESS`)),
+        authToken: process.env[`${prefix}_REMOTE_SIGNER_TOKEN`],
+      };
+    default:
+      throw new Error(`Unknown ${prefix}_SIGNER "${kind}", expected private-key, keystore or remote`);
+  }
+}
+
+/**
+ * Execution and ClearNode signers from the environment
+ * ClearNode messages are signed with the execution key unless CLEARNODE_SIGNER or
+ * CLEARNODE_PRIVATE_KEY configures a separate one
+ */
+export function loadSignerConfig(): Pick<Config, 'executionSigner' | 'clearNodeSigner'> {
+  const executionSigner = parseSignerSpec('KEEPER');
+  const separate = process.env.CLEARNODE_SIGNER || process.env.CLEARNODE_PRIVATE_KEY;
+  return {
+    executionSigner,
+    clearNodeSigner: separate ? parseSignerSpec('CLEARNODE') : executionSigner,
+  };
+}
+
+function parseChainProfile(value: string): ChainProfile {
+  if (value in CHAIN_PROFILES) return value as ChainProfile;
+  throw new Error(`Unknown chain profile "${value}", expected one of: ${Object.keys(CHAIN_PROFILES).join(', ')}`);
+}
+
+interface Network {
+  chainProfile: ChainProfile;
+  rpcUrl: string;
+  rpcUrls: string[];
+  chainId: number;
+  deployment: Deployment | null;
+}
+
+/**
+ * Network settings from a profile, with an optional RPC, chain ID and Foundry broadcast on top
+ */
+function resolveNetwork(
+  chainProfile: ChainProfile,
+  rpcUrl: string | undefined,
+  chainId: number | undefined,
+  deploymentFile: string | undefined
+): Network {
+  const profile = CHAIN_PROFILES[chainProfile];
+  const primaryRpc = rpcUrl || profile.rpcUrls[0];
+  const deployment = deploymentFile ? loadDeployment(deploymentFile) : null;
+  const resolvedChainId = chainId ?? deployment?.chainId ?? profile.chainId;
+  if (deployment && deployment.chainId !== resolvedChainId) {
+    throw new Error(`Deployment ${deploymentFile} is for chain ${deployment.chainId}, but the keeper is configured for chain ${resolvedChainId}`);
+  }
+
+  return {
+    chainProfile,
+    rpcUrl: primaryRpc,
+    // Fallback list, primary first
+    rpcUrls: [primaryRpc, ...profile.rpcUrls.filter(url => url !== primaryRpc)],
+    chainId: resolvedChainId,
+    deployment,
+  };
+}
+
+/**
+ * An additional chain served by the same keeper, one entry of the CHAINS JSON array
+ * Unset network and contract fields come from the entry's profile and deployment file,
+ * never from the primary chain; Sepolia's Uniswap v4 and WETH addresses fill the rest
+ * only on Sepolia and Sepolia forks. The execution signer falls back to
+ * KEEPER_PRIVATE_KEY_<chainId> and then to the primary signer
+ */
+export interface ChainSpec {
+  profile?: ChainProfile;
+  sepoliaFork?: boolean; // e.g. an anvil entry forking Sepolia
+  chainId?: number;
+  rpcUrl?: string;
+  deploymentFile?: string;
+  keeperPrivateKey?: `0x${string}`;
+  signer?: SignerSpec; // instead of keeperPrivateKey, e.g. a keystore or remote signer
+  clearNodeSigner?: SignerSpec;
+  strategyAgentAddress?: Address;
+  yellFiHookAddress?: Address;
+  executorAdapterAddress?: Address;
+  stateViewAddress?: Address;
+  quoterAddress?: Address;
+  wrappedNativeAddress?: Address;
+  routingPools?: RoutingPoolSpec[];
+}
+
 export function loadConfig(): Config {
-  // Get primary RPC URL, fallback to first in list
-  const primaryRpc = optionalEnv('SEPOLIA_RPC_URL', SEPOLIA_RPC_URLS[0]);
-  
-  // Build fallback list (primary first, then others)
-  const rpcUrls = [primaryRpc, ...SEPOLIA_RPC_URLS.filter(url => url !== primaryRpc)];
+  // RPC_URL, or SEPOLIA_RPC_URL for existing Sepolia setups
+  const chainProfile = parseChainProfile(optionalEnv('CHAIN_PROFILE', 'sepolia'));
+  const network = resolveNetwork(
+    chainProfile,
+    process.env.RPC_URL || (chainProfile === 'sepolia' ? process.env.SEPOLIA_RPC_URL : undefined),
+    process.env.CHAIN_ID ? parseInt(process.env.CHAIN_ID) : undefined,
+    process.env.DEPLOYMENT_FILE
+  );
+  const { chainId, deployment } = network;
+  const onSepolia = network.chainProfile === 'sepolia' || optionalBoolEnv('SEPOLIA_FORK', false);
+
+  // Contract addresses: env overrides, then a Foundry broadcast, then Sepolia's on Sepolia or a fork of it
+  const required = (variable: string, name: string, sepoliaDefault: Address): Address => {
+    const address = process.env[variable]
+      || deployment?.contracts[name]
+      || (onSepolia ? sepoliaDefault : undefined);
+    if (!address) {
+      throw new Error(`Chain ${chainId}: no ${name} address, set ${variable} or DEPLOYMENT_FILE (or SEPOLIA_FORK=true on a Sepolia fork)`);
+    }
+    return address as Address;
+  };
+  const wrappedNativeAddress = required('WRAPPED_NATIVE_ADDRESS', 'WETH9', SEPOLIA_TOKENS.WETH);
   
   return {
-    // Network - Sepolia with fallbacks
-    rpcUrl: primaryRpc,
-    rpcUrls,
-    chainId: 11155111,
+    // Network - Sepolia with fallbacks by default, or a local anvil node
+    chainProfile: network.chainProfile,
+    rpcUrl: network.rpcUrl,
+    rpcUrls: network.rpcUrls,
+    chainId,
     
     // Contracts (Sepolia deployment v6 - Uniswap V4 PoolSwapTest integration for real swaps)
-    strategyAgentAddress: optionalEnv('STRATEGY_AGENT_ADDRESS', '0x4Ac56F676e8fA23BAF54E5f387E84E8623e3D5aa') as Address,
-    yellFiHookAddress: optionalEnv('YELLFI_HOOK_ADDRESS', '0x0000000000000000000000000000000000000000') as Address,
-    executorAdapterAddress: optionalEnv('EXECUTOR_ADAPTER_ADDRESS', '0xD94CB765e030e7d44350f38Bf3438e4Bc519932E') as Address,
+    strategyAgentAddress: required('STRATEGY_AGENT_ADDRESS', 'StrategyAgent', '0x4Ac56F676e8fA23BAF54E5f387E84E8623e3D5aa'),
+    yellFiHookAddress: optionalEnv('YELLFI_HOOK_ADDRESS', deployment?.contracts.YellFiHook ?? '0x0000000000000000000000000000000000000000') as Address,
+    executorAdapterAddress: required('EXECUTOR_ADAPTER_ADDRESS', 'YellowExecutorAdapter', '0xD94CB765e030e7d44350f38Bf3438e4Bc519932E'),
+    stateViewAddress: required('STATE_VIEW_ADDRESS', 'StateView', SEPOLIA_ADDRESSES.stateView),
+    quoterAddress: required('QUOTER_ADDRESS', 'V4Quoter', SEPOLIA_ADDRESSES.quoter),
+    
+    // Price oracle - StateView spot price or a TWAP over hook signals
+    priceSource: optionalEnv('PRICE_SOURCE', 'stateview') === 'twap' ? 'twap' : 'stateview',
+    twapWindowSeconds: parseInt(optionalEnv('TWAP_WINDOW_SECONDS', '1800')),
     
-    // Keeper
-    keeperPrivateKey: requireEnv('KEEPER_PRIVATE_KEY') as `0x${string}`,
+    // Keeper - raw key, keystore or remote signer; optionally a separate ClearNode key
+    ...loadSignerConfig(),
     
     // Service - increased retries for RPC reliability
     pollIntervalMs: parseInt(optionalEnv('POLL_INTERVAL_MS', '15000')),
     maxRetries: parseInt(optionalEnv('MAX_RETRIES', '5')),
     retryDelayMs: parseInt(optionalEnv('RETRY_DELAY_MS', '3000')),
+    reorgSafetyDepth: parseInt(optionalEnv('REORG_SAFETY_DEPTH', '3')), // Blocks behind head before events are processed
+    snapshotPageSize: parseInt(optionalEnv('SNAPSHOT_PAGE_SIZE', '25')), // Agents per multicall batch
+    swapSizingOverrides: optionalEnv('SWAP_SIZING', ''),
+    dryRun: optionalBoolEnv('DRY_RUN', false), // Stop after simulateContract and record what would have executed
+    
+    // Transactions - agents execute in parallel; stuck transactions are replaced with fee bumps
+    maxConcurrentExecutions: parseInt(optionalEnv('MAX_CONCURRENT_EXECUTIONS', '4')),
+    executionDedupWindowMs: parseInt(optionalEnv('EXECUTION_DEDUP_WINDOW_MS', '60000')), // Hold a rule after it executes
+    txStuckTimeoutMs: parseInt(optionalEnv('TX_STUCK_TIMEOUT_MS', '60000')),
+    feeBumpPercent: parseInt(optionalEnv('FEE_BUMP_PERCENT', '20')), // Nodes require at least 10%
+    maxFeeBumps: parseInt(optionalEnv('MAX_FEE_BUMPS', '3')),
+    
+    // Gas policy - fee ceilings (skip while the network fee is above them), gas budget and skip when gas outweighs the swap
+    maxFeePerGasGwei: optionalEnv('MAX_FEE_PER_GAS_GWEI', '50'),
+    maxPriorityFeePerGasGwei: optionalEnv('MAX_PRIORITY_FEE_PER_GAS_GWEI', '2'),
+    maxGasPerExecution: parseInt(optionalEnv('MAX_GAS_PER_EXECUTION', '1000000')),
+    maxGasCostBps: parseInt(optionalEnv('MAX_GAS_COST_BPS', '500')),
+    wrappedNativeAddress,
+    
+    // Keeper balance - warn when low, pause on-chain execution when critical
+    keeperBalanceWarnEth: optionalEnv('KEEPER_BALANCE_WARN_ETH', '0.05'),
+    keeperBalanceCriticalEth: optionalEnv('KEEPER_BALANCE_CRITICAL_ETH', '0.01'),
+    balanceCheckIntervalMs: parseInt(optionalEnv('BALANCE_CHECK_INTERVAL_MS', '60000')),
+    
+    // Routing - register each pool on the executor adapter with setPoolKey; routes name pools by full key
+    routingPools: process.env.ROUTING_POOLS
+      ? parseRoutingPools(process.env.ROUTING_POOLS)
+      : DEFAULT_ROUTING_POOLS,
+    maxRouteHops: parseInt(optionalEnv('MAX_ROUTE_HOPS', '3')),
+    
+    // Slippage - per-agent/per-rule tolerance, never above the keeper-wide max
+    defaultSlippageBps: parseInt(optionalEnv('DEFAULT_SLIPPAGE_BPS', '50')),
+    maxSlippageBps: parseInt(optionalEnv('MAX_SLIPPAGE_BPS', '300')),
+    slippageOverrides: optionalEnv('SLIPPAGE_BPS', ''),
+    
+    // Persistence - execution history and agent status survive restarts
+    dataDir: optionalEnv('DATA_DIR', './data'),
+    executionStore: optionalEnv('EXECUTION_STORE', 'jsonl') === 'memory' ? 'memory' : 'jsonl',
+    executionHistoryRetentionMs: parseInt(optionalEnv('EXECUTION_HISTORY_RETENTION_MS', '2592000000')), // 30 days
+    evaluationHistoryRetentionMs: parseInt(optionalEnv('EVALUATION_HISTORY_RETENTION_MS', '604800000')), // 7 days
+    
+    // Admin API - bearer token or X-API-Key for operator actions
+    adminApiToken: process.env.ADMIN_API_TOKEN_FILE
+      ? readFileSync(process.env.ADMIN_API_TOKEN_FILE, 'utf8').trim()
+      : process.env.ADMIN_API_TOKEN || undefined,
+    
+    // Owner sessions - SIWE sign-in for /api/owner, disabled unless SIWE_DOMAIN is set
+    siweDomain: process.env.SIWE_DOMAIN || undefined,
+    ownerSessionTtlMs: parseInt(optionalEnv('OWNER_SESSION_TTL_MS', '86400000')),
     
     // Yellow Network - State Channels
     yellowClearNodeUrl: optionalEnv('YELLOW_CLEARNODE_URL', 'wss://clearnet-sandbox.yellow.com/ws'),
@@ -84,6 +351,76 @@ export function loadConfig(): Config {
   };
 }
 
+/**
+ * Configs for every chain the keeper serves: the primary chain from the
+ * environment, then one per CHAINS entry. Service settings are shared; each
+ * extra chain keeps its block cursor under its own data subdirectory.
+ */
+export function loadChainConfigs(): Config[] {
+  const primary = loadConfig();
+  if (!process.env.CHAINS) return [primary];
+
+  const specs = JSON.parse(process.env.CHAINS) as ChainSpec[];
+  const configs = [primary, ...specs.map((spec) => loadChainSpec(primary, spec))];
+
+  const chainIds = configs.map((c) => c.chainId);
+  const duplicate = chainIds.find((id, index) => chainIds.indexOf(id) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Chain ${duplicate} is configured more than once`);
+  }
+  return configs;
+}
+
+/**
+ * Re-read .env over the current environment and rebuild every chain config
+ * Lets a running keeper pick up rotated signer settings on SIGHUP
+ */
+export function reloadChainConfigs(): Config[] {
+  dotenvConfig({ override: true });
+  return loadChainConfigs();
+}
+
+function loadChainSpec(primary: Config, spec: ChainSpec): Config {
+  const network = resolveNetwork(parseChainProfile(spec.profile ?? 'sepolia'), spec.rpcUrl, spec.chainId, spec.deploymentFile);
+  const { chainId, deployment } = network;
+
+  const onSepolia = network.chainProfile === 'sepolia' || spec.sepoliaFork === true;
+
+  const required = (name: string, field: keyof ChainSpec, sepoliaDefault?: Address): Address => {
+    const address = (spec[field] as Address | undefined)
+      ?? deployment?.contracts[name]
+      ?? (onSepolia ? sepoliaDefault : undefined);
+    if (!address) {
+      throw new Error(`Chain ${chainId}: no ${name} address, set ${field} in CHAINS or give a deploymentFile`);
+    }
+    return address;
+  };
+  const wrappedNativeAddress = required('WETH9', 'wrappedNativeAddress', SEPOLIA_TOKENS.WETH);
+  const keeperPrivateKey = spec.keeperPrivateKey
+    ?? (process.env[`KEEPER_PRIVATE_KEY_${chainId}`] as `0x${string}` | undefined);
+
+  return {
+    ...primary,
+    chainProfile: network.chainProfile,
+    rpcUrl: network.rpcUrl,
+    rpcUrls: network.rpcUrls,
+    chainId,
+    strategyAgentAddress: required('StrategyAgent', 'strategyAgentAddress'),
+    executorAdapterAddress: required('YellowExecutorAdapter', 'executorAdapterAddress'),
+    yellFiHookAddress: spec.yellFiHookAddress ?? deployment?.contracts.YellFiHook ?? '0x0000000000000000000000000000000000000000',
+    stateViewAddress: required('StateView', 'stateViewAddress', SEPOLIA_ADDRESSES.stateView),
+    quoterAddress: required('V4Quoter', 'quoterAddress', SEPOLIA_ADDRESSES.quoter),
+    wrappedNativeAddress,
+    routingPools: spec.routingPools
+      ? buildRoutingPools(spec.routingPools)
+      : wrappedNativeAddress === SEPOLIA_TOKENS.WETH ? DEFAULT_ROUTING_POOLS : [],
+    executionSigner: spec.signer
+      ?? (keeperPrivateKey ? { kind: 'private-key', privateKey: keeperPrivateKey } : primary.executionSigner),
+    clearNodeSigner: spec.clearNodeSigner ?? primary.clearNodeSigner,
+    dataDir: join(primary.dataDir, `chain-${chainId}`),
+  };
+}
+
 // Sepolia contract addresses - Official Uniswap V4 deployment
 export const SEPOLIA_ADDRESSES = {
   // Uniswap v4 contracts on Sepolia (Chain ID: 11155111)
@@ -98,3 +435,18 @@ export const SEPOLIA_ADDRESSES = {
   // ENS
   ensRegistry: '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e' as Address,
 } as const;
+
+// Common token addresses on Sepolia
+export const SEPOLIA_TOKENS = {
+  WETH: '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address,
+  USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address,
+  DAI: '0x68194a729C2450ad26072b3D33ADaCbcef39D574' as Address,
+  LINK: '0x779877A7B0D9E8603169DdbD7836e478b4624789' as Address,
+} as const;
+
+// Default routing graph: the 0.3% pools, which is the adapter's default fee tier
+export const DEFAULT_ROUTING_POOLS: PoolKey[] = [
+  buildPoolKey(SEPOLIA_TOKENS.WETH, SEPOLIA_TOKENS.USDC, 3000, 60),
+  buildPoolKey(SEPOLIA_TOKENS.WETH, SEPOLIA_TOKENS.DAI, 3000, 60),
+  buildPoolKey(SEPOLIA_TOKENS.WETH, SEPOLIA_TOKENS.LINK, 3000, 60),
+];
@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import { getAddress, type Address } from 'viem';
+
+/**
+ * Contract addresses from a Foundry broadcast, e.g.
+ * contracts/broadcast/DeploySimple.s.sol/31337/run-latest.json
+ */
+export interface Deployment {
+  chainId: number;
+  contracts: Record<string, Address>; // by contract name, latest deployment wins
+}
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName?: string | null;
+  contractAddress?: string | null;
+}
+
+interface BroadcastFile {
+  chain: number;
+  transactions: BroadcastTransaction[];
+}
+
+export function parseDeployment(json: string): Deployment {
+  const broadcast = JSON.parse(json) as BroadcastFile;
+  if (typeof broadcast.chain !== 'number' || !Array.isArray(broadcast.transactions)) {
+    throw new Error('Not a Foundry broadcast file');
+  }
+
+  const contracts: Record<string, Address> = {};
+  for (const tx of broadcast.transactions) {
+    if ((tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2') && tx.contractName && tx.contractAddress) {
+      contracts[tx.contractName] = getAddress(tx.contractAddress);
+    }
+  }
+
+  return { chainId: broadcast.chain, contracts };
+}
+
+export function loadDeployment(path: string): Deployment {
+  try {
+    return parseDeployment(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load deployment ${path}: ${errorMessage}`);
+  }
+}
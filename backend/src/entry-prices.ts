@@ -0,0 +1,70 @@
+import { existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('entry-prices');
+
+const ENTRY_PRICES_FILE = 'entry-prices.json';
+
+/**
+ * Reference price for an agent's percentage stop loss and take profit
+ * price is currency0 in currency1 (PRICE_PRECISION-scaled raw units, as PriceSource
+ * reports it), so stop loss fires when currency0 loses value against currency1
+ */
+export interface EntryPrice {
+  price: bigint;
+  origin: 'fill' | 'first-seen'; // the agent's last swap, or the first price the keeper read
+  updatedAt: number;
+}
+
+/**
+ * Entry prices per agent for one chain
+ * Persisted to <dataDir>/entry-prices.json unless the execution store is in memory,
+ * so a restart does not re-base percentage rules at the current price
+ */
+export class EntryPriceStore {
+  private prices: Map<string, EntryPrice> = new Map();
+  private path: string | null;
+
+  constructor(config: Config) {
+    this.path = config.executionStore === 'jsonl' ? join(config.dataDir, ENTRY_PRICES_FILE) : null;
+  }
+
+  async init(): Promise<void> {
+    if (!this.path || !existsSync(this.path)) return;
+
+    const stored = JSON.parse(await readFile(this.path, 'utf8')) as Record<string, { price: string; origin: EntryPrice['origin']; updatedAt: number }>;
+    for (const [agentId, entry] of Object.entries(stored)) {
+      this.prices.set(agentId, { ...entry, price: BigInt(entry.price) });
+    }
+    logger.info({ agents: this.prices.size }, 'Entry prices loaded');
+  }
+
+  get(agentId: bigint): EntryPrice | undefined {
+    return this.prices.get(agentId.toString());
+  }
+
+  set(agentId: bigint, price: bigint, origin: EntryPrice['origin']): void {
+    this.prices.set(agentId.toString(), { price, origin, updatedAt: Date.now() });
+    this.persist();
+  }
+
+  private persist(): void {
+    if (!this.path) return;
+
+    const serialized = JSON.stringify(
+      Object.fromEntries(this.prices),
+      (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2
+    );
+    mkdirSync(join(this.path, '..'), { recursive: true });
+    writeFileSync(`${this.path}.tmp`, serialized);
+    renameSync(`${this.path}.tmp`, this.path);
+  }
+}
+
+export function createEntryPriceStore(config: Config): EntryPriceStore {
+  return new EntryPriceStore(config);
+}
@@ -0,0 +1,252 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+import type { EvaluationDetails, EvaluationResult, ReasonCode } from './rule-evaluator.js';
+
+const logger = createChildLogger('evaluation-history');
+
+const EVALUATIONS_FILE = 'evaluations.jsonl';
+
+// Rewrite the log once it holds this many superseded lines
+const COMPACTION_THRESHOLD = 1000;
+
+// Also rewrite at least this often, to drop expired records and save extended runs
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * A run of identical decisions for one rule
+ * Each of the `count` evaluations from firstSeen to lastSeen had the same outcome,
+ * reason code, rule type, threshold and target; a changed decision starts a new record.
+ * The reason and details are those of the first evaluation in the run
+ */
+export interface EvaluationRecord {
+  chainId: number;
+  agentId: string;
+  ruleIndex: number;
+  shouldExecute: boolean;
+  reason: string;
+  code?: ReasonCode;
+  details?: Record<string, unknown>; // EvaluationDetails without the countdowns, bigints as strings
+  firstSeen: number; // ms timestamp
+  lastSeen: number;  // ms timestamp
+  count: number;
+  blockNumber?: string; // block of the first evaluation
+}
+
+export interface EvaluationQuery {
+  chainId: number;
+  agentId: string;
+  ruleIndex?: number;
+  from?: number; // ms timestamp; runs that ended earlier are left out
+  to?: number;   // ms timestamp; runs that started later are left out
+  limit?: number;
+  offset?: number;
+}
+
+export interface EvaluationPage {
+  evaluations: EvaluationRecord[];
+  total: number;
+}
+
+interface OpenRun {
+  record: EvaluationRecord;
+  fingerprint: string;
+  written: number; // count as of the last line written for this run
+}
+
+/**
+ * Decision timeline for every rule the keeper evaluates
+ *
+ * Consecutive identical decisions fold into one record, so a rule that sits on
+ * "Cooldown not elapsed" for a day costs one line. Records are appended to
+ * <dataDir>/evaluations.jsonl when a run starts and when it is superseded, and
+ * replayed last-write-wins by run. An open run's latest extent is written on
+ * compaction and on shutdown; after a crash it keeps the extent last written.
+ * Runs end at a restart, so a decision never spans time the keeper was down.
+ * Kept in memory only when the execution store is.
+ */
+export class EvaluationHistory {
+  private records: EvaluationRecord[] = []; // by firstSeen, oldest first
+  private open: Map<string, OpenRun> = new Map(); // chainId:agentId:ruleIndex -> latest run
+  private path: string | null;
+  private retentionMs: number;
+  private linesWritten = 0;
+  private lastCompaction = Date.now();
+
+  constructor(config: Config) {
+    this.path = config.executionStore === 'jsonl' ? join(config.dataDir, EVALUATIONS_FILE) : null;
+    this.retentionMs = config.evaluationHistoryRetentionMs;
+  }
+
+  async init(): Promise<void> {
+    if (!this.path || !existsSync(this.path)) return;
+
+    const content = await readFile(this.path, 'utf8');
+    const runs: Map<string, EvaluationRecord> = new Map();
+    let dirty = content.length > 0 && !content.endsWith('\n');
+    for (const raw of content.split('\n')) {
+      if (!raw.trim()) continue;
+      this.linesWritten++;
+      try {
+        const record = JSON.parse(raw) as EvaluationRecord;
+        runs.set(`${ruleKey(record.chainId, record.agentId, record.ruleIndex)}:${record.firstSeen}`, record);
+      } catch (error) {
+        // A crash mid-append can leave a truncated final line
+        dirty = true;
+        logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Skipping unreadable evaluation line');
+      }
+    }
+
+    // Loaded runs stay closed: the next evaluation starts a new run
+    this.records = [...runs.values()].sort((a, b) => a.firstSeen - b.firstSeen);
+
+    if (dirty || this.linesWritten > this.records.length + COMPACTION_THRESHOLD) {
+      this.compact();
+    }
+    logger.info({ path: this.path, records: this.records.length }, 'Evaluation history loaded');
+  }
+
+  /**
+   * Add one agent's evaluations, extending each rule's run when its decision is unchanged
+   */
+  record(chainId: number, evaluations: EvaluationResult[], blockNumber?: bigint): void {
+    const now = Date.now();
+
+    for (const evaluation of evaluations) {
+      const agentId = evaluation.agentId.toString();
+      const key = ruleKey(chainId, agentId, evaluation.ruleIndex);
+      const details = compactDetails(evaluation.details);
+      const print = fingerprint(evaluation);
+
+      const run = this.open.get(key);
+      if (run && run.fingerprint === print) {
+        run.record.lastSeen = now;
+        run.record.count++;
+        continue;
+      }
+
+      // Save where the previous run ended before starting the next one
+      if (run && run.written !== run.record.count) {
+        this.write(run.record);
+      }
+
+      const record: EvaluationRecord = {
+        chainId,
+        agentId,
+        ruleIndex: evaluation.ruleIndex,
+        shouldExecute: evaluation.shouldExecute,
+        reason: evaluation.reason,
+        code: evaluation.code,
+        details,
+        firstSeen: now,
+        lastSeen: now,
+        count: 1,
+        blockNumber: blockNumber?.toString(),
+      };
+      this.records.push(record);
+      this.open.set(key, { record, fingerprint: print, written: 1 });
+      this.write(record);
+    }
+
+    if (
+      this.linesWritten > this.records.length + COMPACTION_THRESHOLD ||
+      now - this.lastCompaction >= COMPACTION_INTERVAL_MS
+    ) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Runs overlapping [from, to], newest first
+   */
+  query(query: EvaluationQuery): EvaluationPage {
+    const filtered = this.records.filter((record) =>
+      record.chainId === query.chainId &&
+      record.agentId === query.agentId &&
+      (query.ruleIndex === undefined || record.ruleIndex === query.ruleIndex) &&
+      (query.from === undefined || record.lastSeen >= query.from) &&
+      (query.to === undefined || record.firstSeen <= query.to)
+    ).reverse();
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? filtered.length;
+
+    return {
+      evaluations: filtered.slice(offset, offset + limit),
+      total: filtered.length,
+    };
+  }
+
+  /**
+   * Write open runs that grew since their last line, e.g. on shutdown
+   */
+  flush(): void {
+    for (const run of this.open.values()) {
+      if (run.written !== run.record.count) {
+        this.write(run.record);
+        run.written = run.record.count;
+      }
+    }
+  }
+
+  private write(record: EvaluationRecord): void {
+    this.linesWritten++;
+    if (!this.path) return;
+
+    mkdirSync(join(this.path, '..'), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(record) + '\n');
+  }
+
+  /**
+   * Drop records past retention and rewrite the log with one line per run
+   */
+  private compact(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.records = this.records.filter((record) => record.lastSeen >= cutoff);
+    for (const [key, run] of this.open) {
+      if (run.record.lastSeen < cutoff) this.open.delete(key);
+      else run.written = run.record.count;
+    }
+
+    if (this.path) {
+      mkdirSync(join(this.path, '..'), { recursive: true });
+      writeFileSync(`${this.path}.tmp`, this.records.map((record) => JSON.stringify(record) + '\n').join(''));
+      renameSync(`${this.path}.tmp`, this.path);
+    }
+    this.linesWritten = this.records.length;
+    this.lastCompaction = Date.now();
+  }
+}
+
+function ruleKey(chainId: number, agentId: string, ruleIndex: number): string {
+  return `${chainId}:${agentId}:${ruleIndex}`;
+}
+
+// Prices, timers and signal readings in the reason text change every cycle, so runs compare the code instead
+function fingerprint(evaluation: EvaluationResult): string {
+  const { shouldExecute, code, reason, details } = evaluation;
+  return JSON.stringify([
+    shouldExecute,
+    code ?? reason,
+    details?.ruleType ?? null,
+    details?.threshold?.toString() ?? null,
+    details?.targetValue?.toString() ?? null,
+  ]);
+}
+
+// Countdowns change every cycle without the decision changing, so they are not kept
+function compactDetails(details?: EvaluationDetails): Record<string, unknown> | undefined {
+  if (!details) return undefined;
+
+  const { cooldownRemainingSeconds: _cooldown, signal, ...rest } = details;
+  const stable = {
+    ...rest,
+    signal: signal ? { signalType: signal.signalType, magnitude: signal.magnitude } : signal,
+  };
+  return JSON.parse(JSON.stringify(stable, (_, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+export function createEvaluationHistory(config: Config): EvaluationHistory {
+  return new EvaluationHistory(config);
+}
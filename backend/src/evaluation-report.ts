@@ -0,0 +1,82 @@
+import type { Address } from 'viem';
+import type { AgentSnapshot } from './agent-snapshot.js';
+import type { EvaluationDetails, EvaluationResult } from './rule-evaluator.js';
+import type { QuotePreview } from './executor.js';
+
+/**
+ * One rule's evaluation with the inputs that decided it
+ */
+export interface RuleExplanation {
+  ruleIndex: number;
+  shouldExecute: boolean;
+  reason: string;
+  details: EvaluationDetails;
+  quote: QuotePreview | null; // null when the contract would refuse the rule anyway
+}
+
+/**
+ * Why each of an agent's rules would or would not fire right now
+ * Served on /api/agents/:id/evaluation
+ */
+export interface AgentEvaluationReport {
+  chainId: number;
+  agentId: bigint;
+  agentStatus: number;
+  blockNumber: bigint | null;
+  evaluatedAt: number;
+  balances: {
+    currency0: { token: Address; amount: bigint };
+    currency1: { token: Address; amount: bigint };
+  };
+  rules: RuleExplanation[];
+}
+
+/**
+ * What explaining needs from a chain's keeper: its evaluator and executor
+ */
+export interface ExplainSources {
+  evaluateSnapshot(snapshot: AgentSnapshot): Promise<EvaluationResult[]>;
+  previewQuote(agentId: bigint, ruleIndex: number, snapshot: AgentSnapshot): Promise<QuotePreview>;
+}
+
+/**
+ * Evaluate a snapshot and quote the rules the contract would accept
+ * Nothing is executed; a quote failure is reported on the rule, not thrown
+ */
+export async function explainAgent(
+  chainId: number,
+  snapshot: AgentSnapshot,
+  sources: ExplainSources
+): Promise<AgentEvaluationReport> {
+  const evaluations = await sources.evaluateSnapshot(snapshot);
+
+  const rules: RuleExplanation[] = [];
+  for (const evaluation of evaluations) {
+    const details = evaluation.details ?? {};
+    // Quotes cost provider calls, so skip rules stuck on cooldown or disabled
+    const quote = details.canExecute
+      ? await sources.previewQuote(snapshot.agentId, evaluation.ruleIndex, snapshot)
+      : null;
+
+    rules.push({
+      ruleIndex: evaluation.ruleIndex,
+      shouldExecute: evaluation.shouldExecute,
+      reason: evaluation.reason,
+      details,
+      quote,
+    });
+  }
+
+  return {
+    chainId,
+    agentId: snapshot.agentId,
+    agentStatus: snapshot.agent.status,
+    blockNumber: snapshot.blockNumber ?? null,
+    evaluatedAt: Date.now(),
+    balances: {
+      currency0: { token: snapshot.agent.poolKey.currency0, amount: snapshot.balances.currency0 },
+      currency1: { token: snapshot.agent.poolKey.currency1, amount: snapshot.balances.currency1 },
+    },
+    rules,
+  };
+}
@@ -7,6 +7,8 @@ import {
 import { YellFiHookABI, StrategyAgentABI } from './abis/index.js';
 import { createChildLogger } from './logger.js';
 import { createRobustPublicClient, withRetry } from './rpc-client.js';
+import { computePoolId, type PoolKey } from './pool-id.js';
+import { BlockCursor } from './block-cursor.js';
 import type { Config } from './config.js';
 
 const logger = createChildLogger('event-listener');
@@ -26,8 +28,17 @@ export interface AgentEvent {
   transactionHash: `0x${string}`;
 }
 
-export type SignalHandler = (signal: HookSignal) => Promise<void>;
-export type AgentEventHandler = (event: AgentEvent) => Promise<void>;
+/**
+ * Delivery context passed to handlers
+ * replayed is true for events backfilled from before the listener started
+ */
+export interface EventContext {
+  replayed: boolean;
+  blockNumber: bigint;
+}
+
+export type SignalHandler = (signal: HookSignal, context: EventContext) => Promise<void>;
+export type AgentEventHandler = (event: AgentEvent, context: EventContext) => Promise<void>;
 
 /**
  * Event listener for YellFi contracts
@@ -39,14 +50,20 @@ export class EventListener {
   private signalHandlers: SignalHandler[] = [];
   private agentEventHandlers: AgentEventHandler[] = [];
   private isRunning = false;
+  private isPolling = false;
   private pollInterval: NodeJS.Timeout | null = null;
   private lastProcessedBlock: bigint = 0n;
+  private headBlock: bigint | null = null; // latest chain head seen
+  // Blocks up to here existed before start() and are delivered as replayed
+  private backfillUntilBlock: bigint = 0n;
+  private cursor: BlockCursor;
   private readonly POLL_INTERVAL_MS = 12000; // ~1 block on Sepolia
   private readonly BLOCK_RANGE = 100n; // Max blocks to query at once
 
-  constructor(config: Config) {
+  constructor(config: Config, cursor?: BlockCursor) {
     this.config = config;
     this.client = createRobustPublicClient(config);
+    this.cursor = cursor ?? new BlockCursor(config);
   }
 
   /**
@@ -72,20 +89,37 @@ export class EventListener {
       return;
     }
 
-    this.isRunning = true;
     logger.info('Starting event listener');
 
-    // Get current block as starting point
-    try {
-      const currentBlock = await this.client.getBlockNumber();
-      this.lastProcessedBlock = currentBlock;
-      logger.info({ startBlock: currentBlock.toString() }, 'Event listener initialized');
-    } catch (error) {
-      logger.error({ error }, 'Failed to get current block, starting from 0');
-      this.lastProcessedBlock = 0n;
+    // Resume from the saved cursor, or start at the current safe head
+    const currentBlock = await withRetry(() => this.client.getBlockNumber(), {
+      maxRetries: this.config.maxRetries,
+      retryDelay: this.config.retryDelayMs,
+    });
+    this.headBlock = currentBlock;
+    const safeHead = this.getSafeHead(currentBlock);
+    const savedBlock = this.cursor.load();
+
+    if (savedBlock !== null && savedBlock < safeHead) {
+      this.lastProcessedBlock = savedBlock;
+      this.backfillUntilBlock = safeHead;
+      logger.info({
+        fromBlock: (savedBlock + 1n).toString(),
+        toBlock: safeHead.toString(),
+        blocks: (safeHead - savedBlock).toString(),
+      }, 'Backfilling events missed while stopped');
+    } else {
+      this.lastProcessedBlock = savedBlock ?? safeHead;
+      this.backfillUntilBlock = this.lastProcessedBlock;
+      logger.info({ startBlock: this.lastProcessedBlock.toString() }, 'Event listener initialized');
     }
 
-    // Start polling for events
+    this.isRunning = true;
+
+    // Catch up immediately, then keep polling for events
+    this.pollEvents().catch((error) => {
+      logger.error({ error }, 'Error polling events');
+    });
     this.pollInterval = setInterval(() => {
       this.pollEvents().catch((error) => {
         logger.error({ error }, 'Error polling events');
@@ -97,11 +131,21 @@ export class EventListener {
         hookAddress: this.config.yellFiHookAddress,
         agentAddress: this.config.strategyAgentAddress,
         pollIntervalMs: this.POLL_INTERVAL_MS,
+        reorgSafetyDepth: this.config.reorgSafetyDepth,
       },
       'Event listener started'
     );
   }
 
+  /**
+   * Blocks between the latest head seen and the last block processed, null before start
+   * Includes the reorg safety depth, so a caught-up listener lags by that much
+   */
+  getBlockLag(): bigint | null {
+    if (this.headBlock === null) return null;
+    return this.headBlock > this.lastProcessedBlock ? this.headBlock - this.lastProcessedBlock : 0n;
+  }
+
   /**
    * Stop listening for events
    */
@@ -118,39 +162,69 @@ export class EventListener {
 
   /**
    * Poll for new events
+   * Processes every confirmed block since the cursor in BLOCK_RANGE chunks,
+   * advancing and saving the cursor only after a chunk is fully handled,
+   * so a failed chunk is retried in full (delivery is at-least-once)
    */
   private async pollEvents(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
     try {
-      const currentBlock = await this.client.getBlockNumber();
-      
-      if (currentBlock <= this.lastProcessedBlock) {
-        return; // No new blocks
-      }
+      this.headBlock = await this.client.getBlockNumber();
+      const safeHead = this.getSafeHead(this.headBlock);
 
-      const fromBlock = this.lastProcessedBlock + 1n;
-      const toBlock = currentBlock > fromBlock + this.BLOCK_RANGE 
-        ? fromBlock + this.BLOCK_RANGE 
-        : currentBlock;
+      while (this.isRunning && this.lastProcessedBlock < safeHead) {
+        const fromBlock = this.lastProcessedBlock + 1n;
+        // Never mix replayed and live blocks in one chunk
+        const limit = fromBlock <= this.backfillUntilBlock ? this.backfillUntilBlock : safeHead;
+        const toBlock = limit > fromBlock + this.BLOCK_RANGE
+          ? fromBlock + this.BLOCK_RANGE
+          : limit;
+        const replayed = toBlock <= this.backfillUntilBlock;
 
-      // Fetch hook signals (only if hook address is set)
-      if (this.config.yellFiHookAddress !== '0x0000000000000000000000000000000000000000') {
-        await this.fetchSignalEvents(fromBlock, toBlock);
-      }
+        await this.processRange(fromBlock, toBlock, replayed);
 
-      // Fetch agent events
-      await this.fetchAgentCreatedEvents(fromBlock, toBlock);
-      await this.fetchAgentExecutedEvents(fromBlock, toBlock);
+        this.lastProcessedBlock = toBlock;
+        this.cursor.save(toBlock);
 
-      this.lastProcessedBlock = toBlock;
+        if (replayed && toBlock === this.backfillUntilBlock) {
+          logger.info({ block: toBlock.toString() }, 'Backfill complete');
+        }
+      }
     } catch (error) {
-      logger.error({ error }, 'Error in pollEvents');
+      logger.error({ error, lastProcessedBlock: this.lastProcessedBlock.toString() }, 'Error in pollEvents');
+    } finally {
+      this.isPolling = false;
     }
   }
 
+  /**
+   * Fetch and dispatch all events in a block range
+   */
+  private async processRange(fromBlock: bigint, toBlock: bigint, replayed: boolean): Promise<void> {
+    // Fetch hook signals (only if hook address is set)
+    if (this.config.yellFiHookAddress !== '0x0000000000000000000000000000000000000000') {
+      await this.fetchSignalEvents(fromBlock, toBlock, replayed);
+    }
+
+    // Fetch agent events
+    await this.fetchAgentCreatedEvents(fromBlock, toBlock, replayed);
+    await this.fetchAgentExecutedEvents(fromBlock, toBlock, replayed);
+  }
+
+  /**
+   * Latest block considered safe from reorgs
+   */
+  private getSafeHead(currentBlock: bigint): bigint {
+    const depth = BigInt(this.config.reorgSafetyDepth);
+    return currentBlock > depth ? currentBlock - depth : 0n;
+  }
+
   /**
    * Fetch SignalEmitted events
    */
-  private async fetchSignalEvents(fromBlock: bigint, toBlock: bigint): Promise<void> {
+  private async fetchSignalEvents(fromBlock: bigint, toBlock: bigint, replayed: boolean): Promise<void> {
     try {
       const logs = await this.client.getContractEvents({
         address: this.config.yellFiHookAddress,
@@ -161,17 +235,18 @@ export class EventListener {
       });
 
       if (logs.length > 0) {
-        await this.handleSignalLogs(logs as unknown as Log[]);
+        await this.handleSignalLogs(logs as unknown as Log[], replayed);
       }
     } catch (error) {
-      logger.debug({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching signal events');
+      logger.warn({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching signal events');
+      throw error;
     }
   }
 
   /**
    * Fetch AgentCreated events
    */
-  private async fetchAgentCreatedEvents(fromBlock: bigint, toBlock: bigint): Promise<void> {
+  private async fetchAgentCreatedEvents(fromBlock: bigint, toBlock: bigint, replayed: boolean): Promise<void> {
     try {
       const logs = await this.client.getContractEvents({
         address: this.config.strategyAgentAddress,
@@ -182,17 +257,18 @@ export class EventListener {
       });
 
       if (logs.length > 0) {
-        await this.handleAgentCreatedLogs(logs as unknown as Log[]);
+        await this.handleAgentCreatedLogs(logs as unknown as Log[], replayed);
       }
     } catch (error) {
-      logger.debug({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching agent created events');
+      logger.warn({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching agent created events');
+      throw error;
     }
   }
 
   /**
    * Fetch AgentExecuted events
    */
-  private async fetchAgentExecutedEvents(fromBlock: bigint, toBlock: bigint): Promise<void> {
+  private async fetchAgentExecutedEvents(fromBlock: bigint, toBlock: bigint, replayed: boolean): Promise<void> {
     try {
       const logs = await this.client.getContractEvents({
         address: this.config.strategyAgentAddress,
@@ -203,21 +279,23 @@ export class EventListener {
       });
 
       if (logs.length > 0) {
-        await this.handleAgentExecutedLogs(logs as unknown as Log[]);
+        await this.handleAgentExecutedLogs(logs as unknown as Log[], replayed);
       }
     } catch (error) {
-      logger.debug({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching agent executed events');
+      logger.warn({ error, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() }, 'Error fetching agent executed events');
+      throw error;
     }
   }
 
   /**
-   * Get historical signals for a pool
+   * Get historical signals for a pool, identified by PoolId or PoolKey
    */
   async getHistoricalSignals(
-    poolId: `0x${string}`,
+    pool: `0x${string}` | PoolKey,
     fromBlock: bigint,
     toBlock?: bigint
   ): Promise<HookSignal[]> {
+    const poolId = typeof pool === 'string' ? pool : computePoolId(pool);
     const logs = await this.client.getContractEvents({
       address: this.config.yellFiHookAddress,
       abi: YellFiHookABI,
@@ -235,7 +313,7 @@ export class EventListener {
     }));
   }
 
-  private async handleSignalLogs(logs: Log[]): Promise<void> {
+  private async handleSignalLogs(logs: Log[], replayed: boolean): Promise<void> {
     for (const log of logs) {
       try {
         const args = (log as any).args;
@@ -251,12 +329,14 @@ export class EventListener {
             poolId: signal.poolId,
             signalType: signal.signalType,
             magnitude: signal.magnitude.toString(),
+            replayed,
           },
           'Hook signal received'
         );
 
+        const context: EventContext = { replayed, blockNumber: log.blockNumber! };
         for (const handler of this.signalHandlers) {
-          await handler(signal);
+          await handler(signal, context);
         }
       } catch (error) {
         logger.error({ error, log }, 'Error handling signal log');
@@ -264,7 +344,7 @@ export class EventListener {
     }
   }
 
-  private async handleAgentCreatedLogs(logs: Log[]): Promise<void> {
+  private async handleAgentCreatedLogs(logs: Log[], replayed: boolean): Promise<void> {
     for (const log of logs) {
       try {
         const args = (log as any).args;
@@ -277,12 +357,13 @@ export class EventListener {
         };
 
         logger.info(
-          { agentId: event.agentId.toString(), ensName: args.ensName },
+          { agentId: event.agentId.toString(), ensName: args.ensName, replayed },
           'Agent created'
         );
 
+        const context: EventContext = { replayed, blockNumber: event.blockNumber };
         for (const handler of this.agentEventHandlers) {
-          await handler(event);
+          await handler(event, context);
         }
       } catch (error) {
         logger.error({ error, log }, 'Error handling agent created log');
@@ -290,7 +371,7 @@ export class EventListener {
     }
   }
 
-  private async handleAgentExecutedLogs(logs: Log[]): Promise<void> {
+  private async handleAgentExecutedLogs(logs: Log[], replayed: boolean): Promise<void> {
     for (const log of logs) {
       try {
         const args = (log as any).args;
@@ -311,12 +392,14 @@ export class EventListener {
             agentId: event.agentId.toString(),
             amountIn: args.amountIn.toString(),
             amountOut: args.amountOut.toString(),
+            replayed,
           },
           'Agent executed'
         );
 
+        const context: EventContext = { replayed, blockNumber: event.blockNumber };
         for (const handler of this.agentEventHandlers) {
-          await handler(event);
+          await handler(event, context);
         }
       } catch (error) {
         logger.error({ error, log }, 'Error handling agent executed log');
@@ -325,6 +408,6 @@ export class EventListener {
   }
 }
 
-export function createEventListener(config: Config): EventListener {
-  return new EventListener(config);
+export function createEventListener(config: Config, cursor?: BlockCursor): EventListener {
+  return new EventListener(config, cursor);
 }
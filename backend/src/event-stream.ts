@@ -0,0 +1,138 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createChildLogger } from './logger.js';
+
+const logger = createChildLogger('event-stream');
+
+export type StreamEventType = 'execution' | 'evaluation-cycle' | 'signal' | 'agent-status';
+
+export interface StreamEvent {
+  id: string;
+  type: StreamEventType;
+  chainId: number;
+  data: unknown;
+}
+
+interface StreamClient {
+  res: ServerResponse;
+  chainId?: number;
+}
+
+/**
+ * Server-Sent Events fan-out for /api/stream
+ *
+ * Recent events are kept in a ring buffer so a client reconnecting with
+ * Last-Event-ID gets what it missed. Ids are `<epoch>-<seq>`, with the epoch
+ * fixed per process: an id from before a restart, or one older than the buffer,
+ * cannot be replayed and gets a `resync` event telling the client to refetch.
+ */
+export class EventStream {
+  private epoch = Date.now().toString(36);
+  private seq = 0;
+  private buffer: StreamEvent[] = [];
+  private clients: Set<StreamClient> = new Set();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private bufferSize: number = 500,
+    private heartbeatMs: number = 15000
+  ) {}
+
+  /**
+   * Push an event to connected clients and keep it for replay
+   */
+  publish(type: StreamEventType, chainId: number, data: unknown): StreamEvent {
+    const event: StreamEvent = { id: `${this.epoch}-${++this.seq}`, type, chainId, data };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    for (const client of this.clients) {
+      if (client.chainId === undefined || client.chainId === chainId) {
+        client.res.write(format(event));
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Hold a request open as an event stream, optionally for one chain
+   */
+  subscribe(req: IncomingMessage, res: ServerResponse, chainId?: number): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    // Reconnect delay for the browser's EventSource
+    res.write('retry: 3000\n\n');
+
+    const client: StreamClient = { res, chainId };
+    const lastEventId = req.headers['last-event-id'];
+    if (typeof lastEventId === 'string' && lastEventId) {
+      this.replay(client, lastEventId);
+    }
+
+    this.clients.add(client);
+    this.startHeartbeat();
+    logger.debug({ clients: this.clients.size, chainId, lastEventId }, 'Stream client connected');
+
+    req.on('close', () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0) this.stopHeartbeat();
+      logger.debug({ clients: this.clients.size }, 'Stream client disconnected');
+    });
+  }
+
+  /**
+   * End every open stream, so the HTTP server can close
+   */
+  close(): void {
+    for (const client of this.clients) {
+      client.res.end();
+    }
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  private replay(client: StreamClient, lastEventId: string): void {
+    const index = this.buffer.findIndex((event) => event.id === lastEventId);
+    if (index < 0) {
+      client.res.write(`event: resync\ndata: {}\n\n`);
+      return;
+    }
+
+    for (const event of this.buffer.slice(index + 1)) {
+      if (client.chainId === undefined || client.chainId === event.chainId) {
+        client.res.write(format(event));
+      }
+    }
+  }
+
+  // Comment lines keep proxies from timing out idle streams
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        client.res.write(': ping\n\n');
+      }
+    }, this.heartbeatMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
+
+function format(event: StreamEvent): string {
+  const data = JSON.stringify({ chainId: event.chainId, ...(event.data as object) }, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`;
+}
+
+export function createEventStream(bufferSize?: number, heartbeatMs?: number): EventStream {
+  return new EventStream(bufferSize, heartbeatMs);
+}
@@ -0,0 +1,200 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  InternalRpcError,
+  LimitExceededRpcError,
+  NonceTooLowError,
+  ResourceUnavailableRpcError,
+  TimeoutError,
+  WebSocketRequestError,
+  decodeErrorResult,
+  type Hex,
+} from 'viem';
+import { StrategyAgentABI } from './abis/index.js';
+import { StuckTransactionError } from './tx-manager.js';
+
+export type FailureClass = 'rpc' | 'revert' | 'simulation' | 'slippage' | 'state-channel';
+
+export type FailureCode =
+  // rpc
+  | 'RPC_UNAVAILABLE'
+  | 'NONCE_CONFLICT'
+  // revert
+  | 'COOLDOWN_OR_DISABLED'
+  | 'INSUFFICIENT_AGENT_BALANCE'
+  | 'AGENT_NOT_ACTIVE'
+  | 'NOT_AUTHORIZED'
+  | 'INVALID_RULE'
+  | 'INVALID_ROUTE'
+  | 'EXECUTOR_FAILED'
+  | 'KEEPER_INSUFFICIENT_FUNDS'
+  | 'TX_REVERTED'
+  | 'TX_STUCK'
+  | 'REVERTED'
+  // simulation
+  | 'QUOTE_FAILED'
+  | 'SIMULATION_FAILED'
+  // slippage
+  | 'SLIPPAGE_EXCEEDED'
+  | 'ROUTE_STALE'
+  // state-channel
+  | 'STATE_CHANNEL_FAILED';
+
+/**
+ * Where in the execution pipeline an error was raised
+ * Used to classify errors that carry no more specific signal
+ */
+export type FailureStage = 'quote' | 'simulation' | 'submission' | 'confirmation' | 'state-channel';
+
+export interface ClassifiedFailure {
+  code: FailureCode;
+  failureClass: FailureClass;
+  retryable: boolean;
+  message: string;
+  revertReason?: string; // require() message or custom error name
+}
+
+/**
+ * Thrown when a mined transaction reverted
+ */
+export class TransactionRevertedError extends Error {
+  constructor(readonly hash: Hex) {
+    super(`Transaction ${hash} reverted`);
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+// require() messages from StrategyAgent and the executor adapters
+const REVERT_REASONS: Array<[RegExp, FailureCode]> = [
+  [/Cannot execute: cooldown or disabled/, 'COOLDOWN_OR_DISABLED'],
+  [/Insufficient (agent )?balance/, 'INSUFFICIENT_AGENT_BALANCE'],
+  [/Agent not active|Agent does not exist/, 'AGENT_NOT_ACTIVE'],
+  [/Not keeper or owner|Not authorized|Not agent owner/, 'NOT_AUTHORIZED'],
+  [/Invalid rule index/, 'INVALID_RULE'],
+  [/Invalid route|Route mismatch|Route fee mismatch|Same token|Invalid token(In|Out)/, 'INVALID_ROUTE'],
+  [/Slippage exceeded/, 'SLIPPAGE_EXCEEDED'],
+  [/Executor failed|PoolSwapTest not set/, 'EXECUTOR_FAILED'],
+];
+
+const CODE_CLASSES: Record<FailureCode, FailureClass> = {
+  RPC_UNAVAILABLE: 'rpc',
+  NONCE_CONFLICT: 'rpc',
+  COOLDOWN_OR_DISABLED: 'revert',
+  INSUFFICIENT_AGENT_BALANCE: 'revert',
+  AGENT_NOT_ACTIVE: 'revert',
+  NOT_AUTHORIZED: 'revert',
+  INVALID_RULE: 'revert',
+  INVALID_ROUTE: 'revert',
+  EXECUTOR_FAILED: 'revert',
+  KEEPER_INSUFFICIENT_FUNDS: 'revert',
+  TX_REVERTED: 'revert',
+  TX_STUCK: 'revert',
+  REVERTED: 'revert',
+  QUOTE_FAILED: 'simulation',
+  SIMULATION_FAILED: 'simulation',
+  SLIPPAGE_EXCEEDED: 'slippage',
+  ROUTE_STALE: 'slippage',
+  STATE_CHANNEL_FAILED: 'state-channel',
+};
+
+// Only transient infrastructure problems are worth retrying within one execution;
+// everything else is retried, if at all, by the next evaluation cycle with fresh state
+const RETRYABLE_CODES = new Set<FailureCode>(['RPC_UNAVAILABLE', 'NONCE_CONFLICT']);
+
+/**
+ * Build a classified failure for a known code
+ */
+export function failure(code: FailureCode, message: string, revertReason?: string): ClassifiedFailure {
+  return {
+    code,
+    failureClass: CODE_CLASSES[code],
+    retryable: RETRYABLE_CODES.has(code),
+    message,
+    revertReason,
+  };
+}
+
+/**
+ * Extract a revert reason: a require() message, or a custom error decoded against StrategyAgentABI
+ */
+export function decodeRevertReason(error: unknown): string | null {
+  if (!(error instanceof BaseError)) return null;
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.data?.errorName && reverted.data.errorName !== 'Error') {
+      const args = reverted.data.args?.length ? `(${reverted.data.args.map(String).join(', ')})` : '';
+      return `${reverted.data.errorName}${args}`;
+    }
+    if (reverted.reason) return reverted.reason;
+    if (reverted.raw) {
+      try {
+        const decoded = decodeErrorResult({ abi: StrategyAgentABI, data: reverted.raw });
+        return decoded.errorName === 'Error' ? String(decoded.args?.[0]) : decoded.errorName;
+      } catch {
+        // Not one of ours
+      }
+    }
+  }
+
+  // Gas estimation and raw calls surface "execution reverted: <reason>"
+  const executionReverted = error.walk((e) => e instanceof ExecutionRevertedError);
+  if (executionReverted instanceof ExecutionRevertedError) {
+    const match = /execution reverted:?\s*(.*)/i.exec(executionReverted.details ?? executionReverted.message);
+    if (match?.[1]) return match[1].trim();
+  }
+
+  return null;
+}
+
+/**
+ * Classify an execution error so callers know whether a retry can help
+ */
+export function classifyError(error: unknown, stage: FailureStage): ClassifiedFailure {
+  const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+
+  if (error instanceof StuckTransactionError) return failure('TX_STUCK', error.message);
+  if (error instanceof TransactionRevertedError) return failure('TX_REVERTED', error.message);
+
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof InsufficientFundsError) instanceof InsufficientFundsError) {
+      return failure('KEEPER_INSUFFICIENT_FUNDS', message);
+    }
+    if (error.walk((e) => e instanceof NonceTooLowError) instanceof NonceTooLowError) {
+      return failure('NONCE_CONFLICT', message);
+    }
+
+    const reason = decodeRevertReason(error);
+    if (reason !== null) {
+      const code = REVERT_REASONS.find(([pattern]) => pattern.test(reason))?.[1] ?? 'REVERTED';
+      return failure(code, `Reverted: ${reason}`, reason);
+    }
+
+    const transient = error.walk(
+      (e) =>
+        e instanceof HttpRequestError ||
+        e instanceof TimeoutError ||
+        e instanceof WebSocketRequestError ||
+        e instanceof LimitExceededRpcError ||
+        e instanceof InternalRpcError ||
+        e instanceof ResourceUnavailableRpcError
+    );
+    if (transient) return failure('RPC_UNAVAILABLE', message);
+  } else if (error instanceof Error && /fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up/i.test(error.message)) {
+    return failure('RPC_UNAVAILABLE', message);
+  }
+
+  switch (stage) {
+    case 'quote':
+      return failure('QUOTE_FAILED', message);
+    case 'state-channel':
+      return failure('STATE_CHANNEL_FAILED', message);
+    case 'simulation':
+      return failure('SIMULATION_FAILED', message);
+    default:
+      return failure('REVERTED', message);
+  }
+}
@@ -0,0 +1,159 @@
+import { type Hash } from 'viem';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('execution-guard');
+
+/**
+ * Returns true while a transaction is still waiting to be mined
+ */
+export type PendingTransactionCheck = (hash: Hash) => Promise<boolean>;
+
+export interface ExecutionLease {
+  key: string;
+  agentId: bigint;
+  ruleIndex: number;
+  acquiredAt: number;
+}
+
+export interface ExecutionOutcome {
+  success: boolean;
+  pendingTransactionHash?: Hash; // submitted but unconfirmed, may still land
+}
+
+/**
+ * Why a rule could not be locked: another caller holds its lease, a transaction
+ * it submitted may still land, or it succeeded within the dedup window
+ */
+export interface ExecutionBlock {
+  reason: 'in-flight' | 'pending-transaction' | 'dedup-window';
+  detail: string;
+}
+
+export type AcquireResult =
+  | { lease: ExecutionLease; blocked?: undefined }
+  | { lease?: undefined; blocked: ExecutionBlock };
+
+interface CompletedExecution {
+  completedAt: number;
+  pendingTransactionHash?: Hash;
+}
+
+/**
+ * Prevents the same agent rule from executing twice
+ *
+ * The poll loop and the signal handler can evaluate an agent at the same time,
+ * and lastExecuted only moves once the transaction is mined. A rule is locked
+ * while it executes, then held for a dedup window after success, and for as
+ * long as a transaction it submitted is still pending.
+ */
+export class ExecutionGuard {
+  private inFlight: Map<string, ExecutionLease> = new Map();
+  private completed: Map<string, CompletedExecution> = new Map();
+  private dedupWindowMs: number;
+  private isPending: PendingTransactionCheck;
+
+  constructor(config: Config, isPending: PendingTransactionCheck) {
+    this.dedupWindowMs = config.executionDedupWindowMs;
+    this.isPending = isPending;
+  }
+
+  /**
+   * Lock a rule for execution, or say what blocks it (also logged)
+   */
+  async tryAcquire(agentId: bigint, ruleIndex: number): Promise<AcquireResult> {
+    const key = `${agentId}:${ruleIndex}`;
+    // Re-check in flight after the pending transaction lookup; another caller may have taken it meanwhile
+    const blocked = (await this.blockedBy(key)) ?? this.leaseHeld(key);
+    if (blocked) {
+      logger.info(
+        { agentId: agentId.toString(), ruleIndex, reason: blocked.reason, detail: blocked.detail },
+        'Duplicate execution prevented'
+      );
+      return { blocked };
+    }
+
+    const lease = { key, agentId, ruleIndex, acquiredAt: Date.now() };
+    this.inFlight.set(key, lease);
+    return { lease };
+  }
+
+  /**
+   * Unlock a rule, remembering successful and possibly-pending executions
+   */
+  release(lease: ExecutionLease, outcome: ExecutionOutcome): void {
+    if (this.inFlight.get(lease.key) !== lease) return;
+    this.inFlight.delete(lease.key);
+
+    if (outcome.success || outcome.pendingTransactionHash) {
+      this.completed.set(lease.key, {
+        completedAt: Date.now(),
+        pendingTransactionHash: outcome.pendingTransactionHash,
+      });
+    }
+    this.prune();
+  }
+
+  /**
+   * Rules currently executing
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  private leaseHeld(key: string): ExecutionBlock | null {
+    return this.inFlight.has(key) ? { reason: 'in-flight', detail: 'Rule is already executing' } : null;
+  }
+
+  private async blockedBy(key: string): Promise<ExecutionBlock | null> {
+    const held = this.leaseHeld(key);
+    if (held) return held;
+
+    const completed = this.completed.get(key);
+    if (!completed) return null;
+
+    if (completed.pendingTransactionHash) {
+      try {
+        if (await this.isPending(completed.pendingTransactionHash)) {
+          return {
+            reason: 'pending-transaction',
+            detail: `Rule's transaction ${completed.pendingTransactionHash} is still pending`,
+          };
+        }
+      } catch (error) {
+        // Unknown state; stay safe until the next check
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn({ key, error: errorMessage }, 'Pending transaction check failed');
+        return {
+          reason: 'pending-transaction',
+          detail: `Rule's transaction ${completed.pendingTransactionHash} may still be pending`,
+        };
+      }
+      // Settled one way or the other; on-chain state now reflects it
+      this.completed.delete(key);
+      return null;
+    }
+
+    const remainingMs = completed.completedAt + this.dedupWindowMs - Date.now();
+    if (remainingMs > 0) {
+      return {
+        reason: 'dedup-window',
+        detail: `Rule executed recently, retry in ${Math.ceil(remainingMs / 1000)}s`,
+      };
+    }
+    return null;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, completed] of this.completed) {
+      if (!completed.pendingTransactionHash && now - completed.completedAt >= this.dedupWindowMs) {
+        this.completed.delete(key);
+      }
+    }
+  }
+}
+
+export function createExecutionGuard(config: Config, isPending: PendingTransactionCheck): ExecutionGuard {
+  return new ExecutionGuard(config, isPending);
+}
@@ -0,0 +1,384 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+import type { AgentStatus, ExecutionRecord } from './api-server.js';
+
+const logger = createChildLogger('execution-store');
+
+// Bump when the on-disk record shape changes and add a migration below
+export const STORE_SCHEMA_VERSION = 2;
+
+const EXECUTIONS_FILE = 'executions.jsonl';
+const AGENT_STATUS_FILE = 'agent-status.jsonl';
+
+// Rewrite the agent status log once it holds this many superseded lines
+const STATUS_COMPACTION_THRESHOLD = 1000;
+
+// Rewrite the executions log once this many of its lines have expired
+const EXECUTION_COMPACTION_THRESHOLD = 1000;
+
+// Also rewrite it at least this often while any line has expired
+const EXECUTION_COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ExecutionQuery {
+  chainId?: number;
+  agentId?: string;
+  success?: boolean;
+  failureCode?: string;
+  simulated?: boolean;
+  from?: number; // ms timestamp, inclusive
+  to?: number;   // ms timestamp, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface ExecutionPage {
+  executions: ExecutionRecord[];
+  total: number;
+}
+
+/**
+ * Execution counts by outcome and mode, kept up to date as records are added and expire
+ * Dry-run records count only in `simulated`
+ */
+export interface ExecutionStats {
+  total: number;
+  successful: number;
+  failed: number;
+  skipped: number;
+  simulated: number;
+  stateChannel: number;
+  onChain: number;
+}
+
+/**
+ * Storage for execution history and agent status
+ */
+export interface ExecutionStore {
+  init(): Promise<void>;
+  appendExecution(record: ExecutionRecord): void;
+  queryExecutions(query: ExecutionQuery): ExecutionPage;
+  getAllExecutions(): ExecutionRecord[];
+  countExecutions(chainId?: number, agentId?: string): number;
+  getStats(chainId?: number): ExecutionStats;
+  saveAgentStatus(status: AgentStatus): void;
+  getAgentStatus(chainId: number, agentId: string): AgentStatus | undefined;
+  getAgentStatuses(): AgentStatus[];
+}
+
+// Serialized forms: bigints become strings, every line carries its schema version
+type StoredLine = Record<string, unknown> & { v?: number };
+
+/**
+ * What migrations need to know about records written before they carried it
+ */
+export interface MigrationContext {
+  chainId: number; // the single chain served before multi-chain support
+}
+
+/**
+ * Upgrades a stored record from version `from` to `from + 1`
+ * Version 0 is the unversioned shape of the old in-memory records
+ */
+const MIGRATIONS: Record<number, (line: StoredLine, context: MigrationContext) => StoredLine> = {
+  0: (line) => ({ ...line, v: 1 }),
+  1: (line, context) => ({ ...line, chainId: line.chainId ?? context.chainId, v: 2 }),
+};
+
+export function migrateLine(line: StoredLine, context: MigrationContext): StoredLine {
+  let migrated = line;
+  let version = migrated.v ?? 0;
+  while (version < STORE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from store schema version ${version}`);
+    }
+    migrated = migrate(migrated, context);
+    version = migrated.v ?? version + 1;
+  }
+  return migrated;
+}
+
+function serialize(record: ExecutionRecord | AgentStatus): string {
+  return JSON.stringify({ ...record, agentId: record.agentId.toString(), v: STORE_SCHEMA_VERSION });
+}
+
+function deserialize<T extends { agentId: bigint }>(line: StoredLine): T {
+  const { v: _version, ...rest } = line;
+  return { ...rest, agentId: BigInt(rest.agentId as string) } as unknown as T;
+}
+
+function statusKey(chainId: number, agentId: bigint | string): string {
+  return `${chainId}:${agentId}`;
+}
+
+function emptyStats(): ExecutionStats {
+  return { total: 0, successful: 0, failed: 0, skipped: 0, simulated: 0, stateChannel: 0, onChain: 0 };
+}
+
+function matchesQuery(record: ExecutionRecord, query: ExecutionQuery): boolean {
+  if (query.chainId !== undefined && record.chainId !== query.chainId) return false;
+  if (query.agentId !== undefined && record.agentId.toString() !== query.agentId) return false;
+  if (query.success !== undefined && record.success !== query.success) return false;
+  if (query.failureCode !== undefined && record.failureCode !== query.failureCode) return false;
+  if (query.simulated !== undefined && Boolean(record.simulated) !== query.simulated) return false;
+  if (query.from !== undefined && record.timestamp < query.from) return false;
+  if (query.to !== undefined && record.timestamp > query.to) return false;
+  return true;
+}
+
+/**
+ * In-memory store; history is lost on restart
+ * Executions older than retentionMs are dropped as new ones arrive
+ */
+export class MemoryExecutionStore implements ExecutionStore {
+  protected executions: ExecutionRecord[] = []; // newest first
+  protected agentStatuses: Map<string, AgentStatus> = new Map();
+  private retentionMs: number;
+  private stats: Map<number, ExecutionStats> = new Map(); // by chainId
+  private counts: Map<string, number> = new Map(); // chainId:agentId -> executions
+
+  constructor(retentionMs: number = Infinity) {
+    this.retentionMs = retentionMs;
+  }
+
+  async init(): Promise<void> {}
+
+  appendExecution(record: ExecutionRecord): void {
+    this.executions.unshift(record);
+    this.tally(record, 1);
+    this.expire();
+  }
+
+  queryExecutions(query: ExecutionQuery): ExecutionPage {
+    const filtered = this.executions.filter((e) => matchesQuery(e, query));
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? filtered.length;
+
+    return {
+      executions: filtered.slice(offset, offset + limit),
+      total: filtered.length,
+    };
+  }
+
+  getAllExecutions(): ExecutionRecord[] {
+    return this.executions;
+  }
+
+  countExecutions(chainId?: number, agentId?: string): number {
+    if (chainId !== undefined && agentId !== undefined) {
+      return this.counts.get(statusKey(chainId, agentId)) ?? 0;
+    }
+    return this.executions.filter((e) => matchesQuery(e, { chainId, agentId })).length;
+  }
+
+  getStats(chainId?: number): ExecutionStats {
+    const total = emptyStats();
+    for (const [id, stats] of this.stats) {
+      if (chainId !== undefined && id !== chainId) continue;
+      for (const field of Object.keys(total) as Array<keyof ExecutionStats>) {
+        total[field] += stats[field];
+      }
+    }
+    return total;
+  }
+
+  saveAgentStatus(status: AgentStatus): void {
+    this.agentStatuses.set(statusKey(status.chainId, status.agentId), status);
+  }
+
+  getAgentStatus(chainId: number, agentId: string): AgentStatus | undefined {
+    return this.agentStatuses.get(statusKey(chainId, agentId));
+  }
+
+  getAgentStatuses(): AgentStatus[] {
+    return Array.from(this.agentStatuses.values());
+  }
+
+  /**
+   * Drop executions past retention, oldest first
+   * Returns how many were dropped
+   */
+  protected expire(): number {
+    const cutoff = Date.now() - this.retentionMs;
+    let expired = 0;
+    while (this.executions.length > 0 && this.executions[this.executions.length - 1].timestamp < cutoff) {
+      this.tally(this.executions.pop()!, -1);
+      expired++;
+    }
+    return expired;
+  }
+
+  /**
+   * Add a record to the running counts, or take it out with sign -1
+   */
+  protected tally(record: ExecutionRecord, sign: 1 | -1): void {
+    let stats = this.stats.get(record.chainId);
+    if (!stats) {
+      stats = emptyStats();
+      this.stats.set(record.chainId, stats);
+    }
+
+    if (record.simulated) {
+      stats.simulated += sign;
+    } else {
+      stats.total += sign;
+      if (record.success) stats.successful += sign;
+      else if (record.skipped) stats.skipped += sign;
+      else stats.failed += sign;
+      if (record.executionMode === 'state-channel') stats.stateChannel += sign;
+      else stats.onChain += sign;
+    }
+
+    const key = statusKey(record.chainId, record.agentId);
+    this.counts.set(key, (this.counts.get(key) ?? 0) + sign);
+  }
+}
+
+/**
+ * Append-only JSONL store
+ *
+ * Executions are appended to executions.jsonl; agent statuses are appended to
+ * agent-status.jsonl with last-write-wins replay. Both are loaded into memory on
+ * init, and lines from older schema versions are migrated as they are read.
+ * Executions past retention are dropped on load, and the log is rewritten
+ * without them once enough have expired.
+ */
+export class JsonlExecutionStore extends MemoryExecutionStore {
+  private dataDir: string;
+  private migrationContext: MigrationContext;
+  private statusLinesWritten = 0;
+  private expiredLines = 0; // still in executions.jsonl, no longer in memory
+  private lastCompaction = Date.now();
+
+  constructor(dataDir: string, migrationContext: MigrationContext, retentionMs?: number) {
+    super(retentionMs);
+    this.dataDir = dataDir;
+    this.migrationContext = migrationContext;
+  }
+
+  async init(): Promise<void> {
+    mkdirSync(this.dataDir, { recursive: true });
+
+    const { lines: executionLines, dirty: executionsDirty } = await this.readLines(EXECUTIONS_FILE);
+    const executions = executionLines.map((line) => deserialize<ExecutionRecord>(line));
+    // File is oldest first, memory is newest first
+    this.executions = executions.reverse();
+    for (const execution of this.executions) {
+      this.tally(execution, 1);
+    }
+    const expired = super.expire();
+
+    const { lines: statusLines, dirty: statusDirty } = await this.readLines(AGENT_STATUS_FILE);
+    for (const line of statusLines) {
+      const status = deserialize<AgentStatus>(line);
+      this.agentStatuses.set(statusKey(status.chainId, status.agentId), status);
+    }
+    this.statusLinesWritten = statusLines.length;
+
+    if (executionsDirty || expired > 0) {
+      this.rewriteExecutions();
+    }
+    if (statusDirty || this.statusLinesWritten > this.agentStatuses.size + STATUS_COMPACTION_THRESHOLD) {
+      this.compactAgentStatuses();
+    }
+    if (executionsDirty || statusDirty) {
+      logger.info({ schemaVersion: STORE_SCHEMA_VERSION }, 'Execution store rewritten at current schema');
+    }
+
+    logger.info(
+      {
+        dataDir: this.dataDir,
+        executions: this.executions.length,
+        agents: this.agentStatuses.size,
+      },
+      'Execution store loaded'
+    );
+  }
+
+  appendExecution(record: ExecutionRecord): void {
+    // Append first: expiring in super may rewrite the log from memory
+    appendFileSync(join(this.dataDir, EXECUTIONS_FILE), serialize(record) + '\n');
+    super.appendExecution(record);
+  }
+
+  saveAgentStatus(status: AgentStatus): void {
+    super.saveAgentStatus(status);
+    appendFileSync(join(this.dataDir, AGENT_STATUS_FILE), serialize(status) + '\n');
+    this.statusLinesWritten++;
+
+    if (this.statusLinesWritten > this.agentStatuses.size + STATUS_COMPACTION_THRESHOLD) {
+      this.compactAgentStatuses();
+    }
+  }
+
+  /**
+   * Read and migrate a log file
+   * dirty is set when the file must be rewritten: it held older schema
+   * versions or unreadable lines that later appends would corrupt further
+   */
+  private async readLines(file: string): Promise<{ lines: StoredLine[]; dirty: boolean }> {
+    const path = join(this.dataDir, file);
+    if (!existsSync(path)) return { lines: [], dirty: false };
+
+    const content = await readFile(path, 'utf8');
+    const lines: StoredLine[] = [];
+    let dirty = content.length > 0 && !content.endsWith('\n');
+    for (const raw of content.split('\n')) {
+      if (!raw.trim()) continue;
+      try {
+        const parsed = JSON.parse(raw) as StoredLine;
+        if (parsed.v !== STORE_SCHEMA_VERSION) dirty = true;
+        lines.push(migrateLine(parsed, this.migrationContext));
+      } catch (error) {
+        // A crash mid-append can leave a truncated final line
+        dirty = true;
+        logger.warn({ file, error: error instanceof Error ? error.message : String(error) }, 'Skipping unreadable line');
+      }
+    }
+    return { lines, dirty };
+  }
+
+  protected expire(): number {
+    const expired = super.expire();
+    this.expiredLines += expired;
+    if (
+      this.expiredLines >= EXECUTION_COMPACTION_THRESHOLD ||
+      (this.expiredLines > 0 && Date.now() - this.lastCompaction >= EXECUTION_COMPACTION_INTERVAL_MS)
+    ) {
+      this.rewriteExecutions();
+    }
+    return expired;
+  }
+
+  private rewriteExecutions(): void {
+    const lines = [...this.executions].reverse().map((e) => serialize(e) + '\n');
+    this.atomicWrite(EXECUTIONS_FILE, lines.join(''));
+    this.expiredLines = 0;
+    this.lastCompaction = Date.now();
+  }
+
+  private compactAgentStatuses(): void {
+    const lines = this.getAgentStatuses().map((s) => serialize(s) + '\n');
+    this.atomicWrite(AGENT_STATUS_FILE, lines.join(''));
+    this.statusLinesWritten = lines.length;
+  }
+
+  private atomicWrite(file: string, content: string): void {
+    const path = join(this.dataDir, file);
+    writeFileSync(`${path}.tmp`, content);
+    renameSync(`${path}.tmp`, path);
+  }
+}
+
+/**
+ * Create the execution store selected by config
+ */
+export function createExecutionStore(config: Config): ExecutionStore {
+  if (config.executionStore === 'memory') {
+    return new MemoryExecutionStore(config.executionHistoryRetentionMs);
+  }
+  return new JsonlExecutionStore(config.dataDir, { chainId: config.chainId }, config.executionHistoryRetentionMs);
+}
@@ -1,18 +1,46 @@
 import {
   createWalletClient,
   http,
+  parseEventLogs,
   type Address,
+  type LocalAccount,
   type PublicClient,
-  type WalletClient,
+  type TransactionReceipt,
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { sepolia } from 'viem/chains';
 import { StrategyAgentABI } from './abis/index.js';
 import { createChildLogger } from './logger.js';
 import { createRobustPublicClient } from './rpc-client.js';
+import { resolveChain } from './chains.js';
 import { YellowSDK, createYellowSDK, type YellowQuote } from './yellow-sdk.js';
 import type { Config } from './config.js';
 import type { EvaluationResult, AgentConfig } from './rule-evaluator.js';
+import type { AgentSnapshot } from './agent-snapshot.js';
+import { createPriceSource, swapPrice, type PriceSource } from './price-oracle.js';
+import { createQuoteProvider } from './quote-provider.js';
+import { StuckTransactionError, TransactionManager } from './tx-manager.js';
+import { GasPolicy, createGasPolicy, type GasAssessment } from './gas-policy.js';
+import {
+  AmbiguousDirectionError,
+  parseSizingOverrides,
+  planSwap,
+  resolveSizingPolicy,
+  staticBalanceReader,
+  type SizingMode,
+  type SizingPolicy,
+  type SwapPlan,
+} from './swap-sizing.js';
+import { parseSlippageOverrides, resolveSlippageBps, type SlippageSettings } from './slippage.js';
+import { preferredSizing, preferredSlippageBps, type OwnerPreferencesReader } from './owner-preferences.js';
+import { describeSigner, loadSigner } from './signer.js';
+import {
+  TransactionRevertedError,
+  classifyError,
+  failure,
+  type ClassifiedFailure,
+  type FailureClass,
+  type FailureCode,
+  type FailureStage,
+} from './execution-errors.js';
 
 const logger = createChildLogger('executor');
 
@@ -25,6 +53,45 @@ export interface ExecutionResult {
   error?: string;
   gasUsed?: bigint;
   executionMode: 'state-channel' | 'on-chain';
+  amountIn?: bigint;
+  quotedAmountOut?: bigint;
+  minAmountOut?: bigint;
+  slippageBps?: number;
+  amountOut?: bigint; // received, from the receipt's AgentExecuted event
+  fillPrice?: bigint; // currency0 in currency1 at the received amounts, see swapPrice; confirmed on-chain swaps only
+  skipped?: boolean; // Not attempted; error holds the reason
+  pendingTransactionHash?: `0x${string}`; // Unconfirmed after every fee bump, may still land
+  estimatedGas?: bigint;
+  estimatedGasCost?: bigint;
+  failureCode?: FailureCode;
+  failureClass?: FailureClass;
+  simulated?: boolean; // Dry run; nothing was sent, success means the simulation passed
+}
+
+/**
+ * Outcome of quoting a rule without executing it
+ */
+export interface QuotePreview {
+  ok: boolean;
+  error?: string; // why no quote, when ok is false
+  sizingMode?: SizingMode;
+  tokenIn?: Address;
+  tokenOut?: Address;
+  amountIn?: bigint;
+  quotedAmountOut?: bigint;
+  minAmountOut?: bigint;
+  slippageBps?: number;
+  hops?: number;
+  source?: string;
+}
+
+/**
+ * The execution key and the nonce pipeline bound to it
+ * Replaced as a whole on rotation so an attempt never mixes two keys
+ */
+interface ExecutionSigning {
+  account: LocalAccount;
+  txManager: TransactionManager;
 }
 
 /**
@@ -32,29 +99,44 @@ export interface ExecutionResult {
  */
 export class Executor {
   private publicClient: PublicClient;
-  private walletClient: WalletClient;
   private yellowSDK: YellowSDK;
   private config: Config;
-  private account: ReturnType<typeof privateKeyToAccount>;
+  private priceSource: PriceSource;
+  private sizingOverrides: Record<string, SizingPolicy>;
+  private slippage: SlippageSettings;
+  private preferences: OwnerPreferencesReader | null = null;
+  private gasPolicy: GasPolicy;
+  private signing: ExecutionSigning;
+  private draining: TransactionManager[] = []; // rotated-out keys with transactions still pending
   private isYellowConnected = false;
+  private onChainPaused = false; // keeper balance below critical, see BalanceMonitor
+  private lastGasUsed: bigint | null = null;
 
   constructor(config: Config) {
     this.config = config;
-    this.account = privateKeyToAccount(config.keeperPrivateKey);
+    const account = loadSigner(config.executionSigner);
 
     // Use robust public client with fallback RPCs
     this.publicClient = createRobustPublicClient(config);
+    this.priceSource = createPriceSource(config, this.publicClient);
+    this.sizingOverrides = parseSizingOverrides(config.swapSizingOverrides);
+    this.slippage = {
+      defaultBps: config.defaultSlippageBps,
+      maxBps: config.maxSlippageBps,
+      overrides: parseSlippageOverrides(config.slippageOverrides),
+    };
 
-    this.walletClient = createWalletClient({
-      account: this.account,
-      chain: sepolia,
-      transport: http(config.rpcUrl),
-    });
+    this.gasPolicy = createGasPolicy(config);
+    this.signing = this.bindSigner(account);
 
     // Initialize Yellow SDK with state channel support
     this.yellowSDK = createYellowSDK({
-      privateKey: config.keeperPrivateKey,
+      account: config.clearNodeSigner === config.executionSigner ? account : loadSigner(config.clearNodeSigner),
       useSandbox: true, // Use sandbox for Sepolia testnet
+      chainId: config.chainId,
+      quoteProvider: createQuoteProvider(config, this.publicClient),
+      routingPools: config.routingPools,
+      maxRouteHops: config.maxRouteHops,
     });
   }
 
@@ -62,6 +144,11 @@ export class Executor {
    * Initialize Yellow Network connection
    */
   async initializeYellowNetwork(): Promise<void> {
+    if (this.config.dryRun) {
+      logger.info('Dry run, not connecting to Yellow Network');
+      return;
+    }
+
     try {
       await this.yellowSDK.connect();
       this.isYellowConnected = true;
@@ -75,64 +162,58 @@ export class Executor {
   /**
    * Execute a rule that has been evaluated as ready
    * Attempts state channel execution first, falls back to on-chain
+   * Agent config and balances come from the snapshot the rule was evaluated on
+   * In dry run the on-chain path stops after simulation and the result is marked simulated
    */
   async execute(
     evaluation: EvaluationResult,
-    agent: AgentConfig
+    snapshot: AgentSnapshot
+  ): Promise<ExecutionResult> {
+    const result = await this.executeRule(evaluation, snapshot);
+    return this.config.dryRun ? { ...result, simulated: true } : result;
+  }
+
+  private async executeRule(
+    evaluation: EvaluationResult,
+    snapshot: AgentSnapshot
   ): Promise<ExecutionResult> {
     const { agentId, ruleIndex } = evaluation;
+    const { agent } = snapshot;
 
     logger.info(
       { agentId: agentId.toString(), ruleIndex, reason: evaluation.reason },
       'Executing rule'
     );
 
+    let stage: FailureStage = 'quote';
     try {
-      // Determine which token to swap from based on agent's deposited token
-      // For TIME_WEIGHTED (DCA), we swap from the deposited token to the other token
-      // The agent deposits one token and gradually swaps to the other
-      let tokenIn = agent.poolKey.currency0;
-      let tokenOut = agent.poolKey.currency1;
-      
-      // Check agent balances to determine swap direction
-      // If agent has currency1 (e.g., WETH), swap from currency1 to currency0
-      // This is a simplified check - in production, query actual balances
-      const balance0 = await this.getAgentBalance(agentId, agent.poolKey.currency0);
-      const balance1 = await this.getAgentBalance(agentId, agent.poolKey.currency1);
-      
-      logger.info({
-        agentId: agentId.toString(),
-        currency0: agent.poolKey.currency0,
-        balance0: balance0.toString(),
-        currency1: agent.poolKey.currency1,
-        balance1: balance1.toString(),
-      }, 'Agent token balances');
-      
-      // Swap from the token with balance
-      if (balance1 > balance0) {
-        tokenIn = agent.poolKey.currency1;
-        tokenOut = agent.poolKey.currency0;
-      }
-      
-      const swapAmount = (tokenIn === agent.poolKey.currency0 ? balance0 : balance1) / 10n; // Execute 10% of position
-      
-      if (swapAmount === 0n) {
+      const quoted = await this.quoteRule(agentId, ruleIndex, snapshot);
+      if (!quoted) {
         return {
           agentId,
           ruleIndex,
           success: false,
           error: 'No balance to swap',
           executionMode: 'on-chain',
+          ...failureFields(failure('INSUFFICIENT_AGENT_BALANCE', 'No balance to swap')),
         };
       }
 
-      // Get quote from Yellow SDK
-      const quote = await this.yellowSDK.getQuote(
-        tokenIn,
-        tokenOut,
-        swapAmount,
-        50 // 0.5% slippage
-      );
+      const { quote, slippageBps } = quoted;
+      const amounts = {
+        amountIn: quote.amountIn,
+        quotedAmountOut: quote.amountOut,
+        minAmountOut: quote.minAmountOut,
+        slippageBps,
+      };
+
+      logger.info({
+        agentId: agentId.toString(),
+        ruleIndex,
+        quotedAmountOut: quote.amountOut.toString(),
+        minAmountOut: quote.minAmountOut.toString(),
+        slippageBps,
+      }, 'Min amount out set');
 
       // Validate route is still valid
       const isValid = await this.yellowSDK.validateRoute(quote);
@@ -143,6 +224,8 @@ export class Executor {
           success: false,
           error: 'Route no longer valid',
           executionMode: 'state-channel',
+          ...amounts,
+          ...failureFields(failure('ROUTE_STALE', 'Route no longer valid')),
         };
       }
 
@@ -155,32 +238,88 @@ export class Executor {
             agent
           );
           if (stateChannelResult.success) {
-            return stateChannelResult;
+            return { ...stateChannelResult, ...amounts };
           }
         } catch (error) {
-          logger.warn({ error }, 'State channel execution failed, falling back to on-chain');
+          const classified = classifyError(error, 'state-channel');
+          logger.warn(
+            { agentId: agentId.toString(), failureCode: classified.code, error: classified.message },
+            'State channel execution failed, falling back to on-chain'
+          );
         }
       }
 
-      // Fallback to on-chain execution
-      const minAmountOut = (quote.amountOut * 995n) / 1000n; // 0.5% slippage
-      const executionData = this.yellowSDK.buildExecutionData(
-        agentId,
-        quote,
-        minAmountOut
-      );
+      // Fallback to on-chain execution, unless the keeper cannot afford gas
+      // Dry runs send nothing, so they keep simulating
+      if (this.onChainPaused && !this.config.dryRun) {
+        const reason = 'On-chain execution paused: keeper balance below critical threshold';
+        logger.warn({ agentId: agentId.toString(), ruleIndex }, reason);
+        return {
+          agentId,
+          ruleIndex,
+          success: false,
+          skipped: true,
+          error: reason,
+          executionMode: 'on-chain',
+          ...amounts,
+          ...failureFields(failure('KEEPER_INSUFFICIENT_FUNDS', reason)),
+        };
+      }
+
+      const executionData = this.yellowSDK.buildExecutionData(agentId, quote);
+
+      // Skip executions that are over budget or cost more gas than they are worth
+      // Gas estimation runs the call, so deterministic reverts surface here
+      stage = 'simulation';
+      const gas = await this.assessGas(agentId, BigInt(ruleIndex), executionData, quote);
+      const gasFields = { estimatedGas: gas.gasLimit, estimatedGasCost: gas.estimatedCost };
+      if (!gas.allowed) {
+        logger.warn(
+          { agentId: agentId.toString(), ruleIndex, reason: gas.reason },
+          'Execution skipped by gas policy'
+        );
+        return {
+          agentId,
+          ruleIndex,
+          success: false,
+          skipped: true,
+          error: gas.reason,
+          executionMode: 'on-chain',
+          ...amounts,
+          ...gasFields,
+        };
+      }
 
       const result = await this.executeWithRetry(
         agentId,
         BigInt(ruleIndex),
-        executionData
+        executionData,
+        gas.gasLimit
       );
 
-      return { ...result, executionMode: 'on-chain' };
+      // Entry prices follow what the swap actually filled at, not the quote
+      const fillPrice = result.amountOut !== undefined
+        ? swapPrice(agent.poolKey, quote.tokenIn, quote.amountIn, result.amountOut) ?? undefined
+        : undefined;
+
+      return { ...result, executionMode: 'on-chain', ...amounts, ...gasFields, fillPrice };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      // Not a failure: the agent needs a direction before this rule can swap
+      if (error instanceof AmbiguousDirectionError) {
+        logger.warn({ agentId: agentId.toString(), ruleIndex, reason: error.message }, 'Execution skipped');
+        return {
+          agentId,
+          ruleIndex,
+          success: false,
+          skipped: true,
+          error: error.message,
+          executionMode: 'on-chain',
+        };
+      }
+
+      const classified = classifyError(error, stage);
       logger.error(
-        { error, agentId: agentId.toString(), ruleIndex },
+        { error, agentId: agentId.toString(), ruleIndex, stage, failureCode: classified.code },
         'Execution failed'
       );
 
@@ -188,9 +327,94 @@ export class Executor {
         agentId,
         ruleIndex,
         success: false,
-        error: errorMessage,
+        error: classified.message,
         executionMode: 'on-chain',
+        ...failureFields(classified),
+      };
+    }
+  }
+
+  /**
+   * Size a rule's swap from the snapshot balances and quote it
+   * Returns null when the agent has nothing to swap
+   */
+  private async quoteRule(
+    agentId: bigint,
+    ruleIndex: number,
+    snapshot: AgentSnapshot
+  ): Promise<{ plan: SwapPlan; slippageBps: number; quote: YellowQuote } | null> {
+    const { agent } = snapshot;
+    const rule = snapshot.rules[ruleIndex];
+    const preferences = this.preferences?.get(this.config.chainId, agentId);
+    const policy = preferredSizing(preferences, ruleIndex)
+      ?? resolveSizingPolicy(this.sizingOverrides, agentId, ruleIndex, rule);
+
+    logger.info({
+      agentId: agentId.toString(),
+      currency0: agent.poolKey.currency0,
+      balance0: snapshot.balances.currency0.toString(),
+      currency1: agent.poolKey.currency1,
+      balance1: snapshot.balances.currency1.toString(),
+      sizingMode: policy.mode,
+      direction: policy.direction,
+    }, 'Agent token balances');
+
+    // Rebalance sizing values both sides at the current pool price
+    const price = policy.mode === 'rebalance'
+      ? (await this.priceSource.getPrice(agent.poolKey)).price
+      : undefined;
+
+    const plan = await planSwap(
+      { agentId, rule, poolKey: agent.poolKey, price },
+      policy,
+      staticBalanceReader(agent.poolKey, snapshot.balances)
+    );
+
+    if (!plan) return null;
+
+    const { tokenIn, amountIn: swapAmount } = plan;
+    logger.info({
+      agentId: agentId.toString(),
+      ruleIndex,
+      mode: plan.mode,
+      direction: plan.direction,
+      tokenIn,
+      amountIn: swapAmount.toString(),
+    }, 'Swap sized');
+
+    // Get quote from Yellow SDK; minAmountOut is derived from it at the rule's slippage
+    const slippageBps = resolveSlippageBps(
+      this.slippage, agentId, ruleIndex, rule, preferredSlippageBps(preferences, ruleIndex)
+    );
+    const quote = await this.yellowSDK.getQuote(agent.poolKey, tokenIn, swapAmount, slippageBps);
+    return { plan, slippageBps, quote };
+  }
+
+  /**
+   * Quote a rule the way execution would, without executing it
+   * Backs the per-rule quote outcome on /api/agents/:id/evaluation
+   */
+  async previewQuote(agentId: bigint, ruleIndex: number, snapshot: AgentSnapshot): Promise<QuotePreview> {
+    try {
+      const quoted = await this.quoteRule(agentId, ruleIndex, snapshot);
+      if (!quoted) return { ok: false, error: 'No balance to swap' };
+
+      const { plan, slippageBps, quote } = quoted;
+      return {
+        ok: true,
+        sizingMode: plan.mode,
+        tokenIn: quote.tokenIn,
+        tokenOut: quote.tokenOut,
+        amountIn: quote.amountIn,
+        quotedAmountOut: quote.amountOut,
+        minAmountOut: quote.minAmountOut,
+        slippageBps,
+        hops: quote.route.length,
+        source: quote.source,
       };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { ok: false, error: errorMessage };
     }
   }
 
@@ -204,11 +428,12 @@ export class Executor {
   ): Promise<ExecutionResult> {
     logger.info({ agentId: agentId.toString() }, 'Attempting state channel execution');
 
-    // Create app session for this execution
+    // Create app session for this execution; the keeper participates with its ClearNode key
+    const keeper = this.yellowSDK.address;
     const session = await this.yellowSDK.createAppSession(
-      [this.account.address, agent.owner],
+      [keeper, agent.owner],
       [
-        { participant: this.account.address, asset: 'ETH', amount: quote.amountIn.toString() },
+        { participant: keeper, asset: 'ETH', amount: quote.amountIn.toString() },
         { participant: agent.owner, asset: 'ETH', amount: '0' },
       ]
     );
@@ -217,7 +442,7 @@ export class Executor {
     const result = await this.yellowSDK.executeSwap(
       session.sessionId,
       quote,
-      this.account.address,
+      keeper,
       agent.owner
     );
 
@@ -240,13 +465,16 @@ export class Executor {
 
   /**
    * Execute with retry logic (on-chain fallback)
+   * Only transient RPC failures are retried; reverts would fail the same way again
    */
   private async executeWithRetry(
     agentId: bigint,
     ruleIndex: bigint,
-    executionData: `0x${string}`
+    executionData: `0x${string}`,
+    gasLimit: bigint
   ): Promise<Omit<ExecutionResult, 'executionMode'>> {
     let lastError: Error | null = null;
+    let lastFailure: ClassifiedFailure | null = null;
 
     // Log execution payload for debugging
     logger.info({
@@ -255,10 +483,13 @@ export class Executor {
       executionDataLength: executionData.length,
       executionDataPreview: executionData.slice(0, 130) + '...',
       strategyAgent: this.config.strategyAgentAddress,
-      keeper: this.account.address,
+      keeper: this.signing.account.address,
     }, 'Execution payload prepared');
 
     for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      let stage: FailureStage = 'simulation';
+      // Each attempt runs on one key, even if the signer rotates mid-execution
+      const { account, txManager } = this.signing;
       try {
         logger.info(
           { agentId: agentId.toString(), ruleIndex: Number(ruleIndex), attempt },
@@ -272,18 +503,28 @@ export class Executor {
           abi: StrategyAgentABI,
           functionName: 'execute',
           args: [agentId, ruleIndex, executionData],
-          account: this.account,
+          account,
+          gas: gasLimit,
         });
+        if (this.config.dryRun) {
+          logger.info(
+            { agentId: agentId.toString(), ruleIndex: Number(ruleIndex), gasLimit: gasLimit.toString() },
+            'Dry run: simulation passed, not sending'
+          );
+          return { agentId, ruleIndex: Number(ruleIndex), success: true };
+        }
         logger.info({ agentId: agentId.toString() }, 'Simulation passed, executing...');
 
-        // Execute transaction
-        const hash = await this.walletClient.writeContract(request);
-
-        // Wait for confirmation
-        const receipt = await this.publicClient.waitForTransactionReceipt({
-          hash,
-          confirmations: 1,
-        });
+        // Submit at a locally allocated nonce; stuck transactions are fee-bumped in place
+        stage = 'submission';
+        const { nonce } = await txManager.submit(request);
+        stage = 'confirmation';
+        const receipt = await txManager.waitForReceipt(nonce);
+        const hash = receipt.transactionHash;
+        if (receipt.status === 'reverted') {
+          throw new TransactionRevertedError(hash);
+        }
+        this.lastGasUsed = receipt.gasUsed;
 
         logger.info(
           {
@@ -301,19 +542,28 @@ export class Executor {
           success: true,
           transactionHash: hash,
           gasUsed: receipt.gasUsed,
+          amountOut: this.receivedAmount(receipt, agentId),
         };
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
+        lastFailure = classifyError(error, stage);
         logger.warn(
           {
-            error: lastError.message,
+            error: lastFailure.message,
             agentId: agentId.toString(),
             ruleIndex: Number(ruleIndex),
             attempt,
+            stage,
+            failureCode: lastFailure.code,
+            retryable: lastFailure.retryable,
           },
           'On-chain execution attempt failed'
         );
 
+        // Deterministic failures would fail again; a stuck transaction may still land,
+        // and resubmitting it could execute the rule twice
+        if (!lastFailure.retryable) break;
+
         if (attempt < this.config.maxRetries) {
           await this.delay(this.config.retryDelayMs * attempt);
         }
@@ -324,10 +574,116 @@ export class Executor {
       agentId,
       ruleIndex: Number(ruleIndex),
       success: false,
-      error: lastError?.message || 'Max retries exceeded',
+      error: lastFailure?.message || 'Max retries exceeded',
+      pendingTransactionHash: lastError instanceof StuckTransactionError
+        ? lastError.hashes[lastError.hashes.length - 1]
+        : undefined,
+      ...(lastFailure ? failureFields(lastFailure) : {}),
     };
   }
 
+  /**
+   * Amount the agent received, from the StrategyAgent's AgentExecuted event in the receipt
+   */
+  private receivedAmount(receipt: TransactionReceipt, agentId: bigint): bigint | undefined {
+    const executed = parseEventLogs({ abi: StrategyAgentABI, eventName: 'AgentExecuted', logs: receipt.logs })
+      .find((log) =>
+        log.address.toLowerCase() === this.config.strategyAgentAddress.toLowerCase() &&
+        log.args.agentId === agentId
+      );
+    if (!executed) {
+      logger.warn({ agentId: agentId.toString(), hash: receipt.transactionHash }, 'No AgentExecuted event in receipt');
+    }
+    return executed?.args.amountOut;
+  }
+
+  /**
+   * Estimate gas and fees for an on-chain execution and check them against the gas policy
+   */
+  private async assessGas(
+    agentId: bigint,
+    ruleIndex: bigint,
+    executionData: `0x${string}`,
+    quote: YellowQuote
+  ): Promise<GasAssessment> {
+    const [estimatedGas, fees, notionalInNative] = await Promise.all([
+      this.estimateGas(agentId, ruleIndex, executionData),
+      this.publicClient.estimateFeesPerGas(),
+      this.notionalInNative(quote),
+    ]);
+
+    const assessment = this.gasPolicy.assess(
+      estimatedGas,
+      { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas },
+      notionalInNative
+    );
+
+    logger.info({
+      agentId: agentId.toString(),
+      estimatedGas: estimatedGas.toString(),
+      gasLimit: assessment.gasLimit.toString(),
+      maxFeePerGas: assessment.fees.maxFeePerGas.toString(),
+      estimatedCost: assessment.estimatedCost.toString(),
+      notionalInNative: notionalInNative?.toString(),
+    }, 'Gas assessed');
+
+    return assessment;
+  }
+
+  /**
+   * Value a quoted swap in the native token, via the quote itself when either side is native
+   */
+  private async notionalInNative(quote: YellowQuote): Promise<bigint | null> {
+    if (this.gasPolicy.isNativeValued(quote.tokenIn)) return quote.amountIn;
+    if (this.gasPolicy.isNativeValued(quote.tokenOut)) return quote.amountOut;
+
+    try {
+      return await this.yellowSDK.quoteAmount(quote.tokenIn, this.config.wrappedNativeAddress, quote.amountIn);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ tokenIn: quote.tokenIn, error: errorMessage }, 'Failed to value swap in native token');
+      return null;
+    }
+  }
+
+  /**
+   * Whether a keeper transaction is still waiting to be mined
+   * False once mined, or if the node no longer knows it
+   */
+  async isTransactionPending(hash: `0x${string}`): Promise<boolean> {
+    try {
+      await this.publicClient.getTransactionReceipt({ hash });
+      return false;
+    } catch {
+      // No receipt yet
+    }
+    try {
+      await this.publicClient.getTransaction({ hash });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Realign keeper nonces with the chain (startup, and each cycle to catch dropped transactions)
+   */
+  async reconcileNonces(): Promise<void> {
+    if (this.config.dryRun) return;
+
+    try {
+      await this.signing.txManager.reconcile();
+      // A rotated-out key is reconciled until its last transaction is mined
+      for (const txManager of this.draining) {
+        await txManager.reconcile();
+      }
+      this.draining = this.draining.filter((txManager) => txManager.getPendingCount() > 0);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ error: errorMessage }, 'Nonce reconciliation failed');
+    }
+  }
+
   /**
    * Estimate gas for execution
    */
@@ -341,7 +697,7 @@ export class Executor {
       abi: StrategyAgentABI,
       functionName: 'execute',
       args: [agentId, ruleIndex, executionData],
-      account: this.account,
+      account: this.signing.account,
     });
 
     return gas;
@@ -351,14 +707,120 @@ export class Executor {
    * Get keeper address
    */
   getKeeperAddress(): Address {
-    return this.account.address;
+    return this.signing.account.address;
+  }
+
+  /**
+   * Whether the ClearNode WebSocket is currently open
+   */
+  isClearNodeConnected(): boolean {
+    return this.yellowSDK.connected;
+  }
+
+  /**
+   * Reconnect to ClearNode, returning whether state channel execution is available again
+   */
+  async reconnectClearNode(): Promise<boolean> {
+    if (this.config.dryRun) {
+      return false;
+    }
+
+    try {
+      await this.yellowSDK.reconnect();
+      this.isYellowConnected = true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ error: errorMessage }, 'ClearNode reconnect failed, staying on on-chain fallback');
+      this.isYellowConnected = false;
+    }
+    return this.isYellowConnected;
+  }
+
+  /**
+   * Size and slip swaps by agent owners' preferences where they set them
+   */
+  usePreferences(preferences: OwnerPreferencesReader): void {
+    this.preferences = preferences;
+  }
+
+  /**
+   * Get the address that signs ClearNode messages
+   */
+  getClearNodeAddress(): Address {
+    return this.yellowSDK.address;
+  }
+
+  /**
+   * Switch to new execution and ClearNode keys without stopping
+   * A new execution key must already be a StrategyAgent keeper. Attempts that started on
+   * the old key finish on it, and its pending transactions are still fee-bumped and
+   * reconciled until they are mined.
+   */
+  async rotateSigners(next: Pick<Config, 'executionSigner' | 'clearNodeSigner'>): Promise<void> {
+    const executionAccount = loadSigner(next.executionSigner);
+    const clearNodeAccount = next.clearNodeSigner === next.executionSigner
+      ? executionAccount
+      : loadSigner(next.clearNodeSigner);
+
+    const previous = this.signing.account.address;
+    if (executionAccount.address !== previous) {
+      const authorized = await this.publicClient.readContract({
+        address: this.config.strategyAgentAddress,
+        abi: StrategyAgentABI,
+        functionName: 'keepers',
+        args: [executionAccount.address],
+      });
+      if (!authorized) {
+        throw new Error(`${executionAccount.address} is not a StrategyAgent keeper, keeping ${previous}`);
+      }
+
+      this.draining.push(this.signing.txManager);
+      this.signing = this.bindSigner(executionAccount);
+      await this.reconcileNonces();
+      logger.info(
+        { previous, keeper: executionAccount.address, signer: describeSigner(next.executionSigner) },
+        'Execution key rotated'
+      );
+    }
+
+    if (clearNodeAccount.address !== this.yellowSDK.address) {
+      const previousClearNode = this.yellowSDK.address;
+      this.yellowSDK.useAccount(clearNodeAccount);
+      logger.info(
+        { previous: previousClearNode, signer: clearNodeAccount.address, source: describeSigner(next.clearNodeSigner) },
+        'ClearNode key rotated'
+      );
+    }
   }
 
   /**
    * Get keeper balance
    */
   async getKeeperBalance(): Promise<bigint> {
-    return this.publicClient.getBalance({ address: this.account.address });
+    return this.publicClient.getBalance({ address: this.signing.account.address });
+  }
+
+  /**
+   * Worst-case cost of one on-chain execution at current fees
+   * Uses the gas of the last confirmed execution, or the per-execution budget before the first
+   */
+  async estimateExecutionCost(): Promise<bigint> {
+    const fees = await this.publicClient.estimateFeesPerGas();
+    const { maxFeePerGas } = this.gasPolicy.capFees({
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+    return (this.lastGasUsed ?? BigInt(this.config.maxGasPerExecution)) * maxFeePerGas;
+  }
+
+  /**
+   * Stop or resume on-chain execution; state channel execution is unaffected
+   */
+  setOnChainPaused(paused: boolean): void {
+    if (paused !== this.onChainPaused) {
+      logger.warn({ paused }, paused ? 'On-chain execution paused' : 'On-chain execution resumed');
+    }
+    this.onChainPaused = paused;
   }
 
   /**
@@ -379,11 +841,27 @@ export class Executor {
     }
   }
 
+  private bindSigner(account: LocalAccount): ExecutionSigning {
+    const walletClient = createWalletClient({
+      account,
+      chain: resolveChain(this.config),
+      transport: http(this.config.rpcUrl),
+    });
+    return {
+      account,
+      txManager: new TransactionManager(this.config, this.publicClient, walletClient, account, this.gasPolicy),
+    };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
 
+function failureFields(failure: ClassifiedFailure): Pick<ExecutionResult, 'failureCode' | 'failureClass'> {
+  return { failureCode: failure.code, failureClass: failure.failureClass };
+}
+
 export function createExecutor(config: Config): Executor {
   return new Executor(config);
 }
@@ -0,0 +1,130 @@
+import { formatGwei, parseGwei, type Address } from 'viem';
+import { createChildLogger } from './logger.js';
+import { isNativeCurrency } from './pool-id.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('gas-policy');
+
+const BASIS_POINTS = 10000n;
+const GAS_LIMIT_BUFFER_BPS = 12000n; // 20% headroom over the estimate
+
+export interface FeeSettings {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface GasAssessment {
+  allowed: boolean;
+  reason?: string;
+  gasLimit: bigint; // estimate plus headroom, capped at the per-execution budget
+  fees: FeeSettings;
+  estimatedCost: bigint; // worst case, in wei: estimated gas at maxFeePerGas
+  notionalInNative: bigint | null;
+}
+
+/**
+ * EIP-1559 fee ceilings, per-execution gas budgets and a cost-to-notional check
+ * for keeper transactions
+ * An execution is skipped while the network's fee is above the ceiling, since a
+ * transaction capped below the base fee would only sit in the mempool
+ */
+export class GasPolicy {
+  private maxFeePerGas: bigint;
+  private maxPriorityFeePerGas: bigint;
+  private maxGasPerExecution: bigint;
+  private maxGasCostBps: bigint;
+  private wrappedNative: Address;
+
+  constructor(config: Config) {
+    this.maxFeePerGas = parseGwei(config.maxFeePerGasGwei);
+    this.maxPriorityFeePerGas = parseGwei(config.maxPriorityFeePerGasGwei);
+    this.maxGasPerExecution = BigInt(config.maxGasPerExecution);
+    this.maxGasCostBps = BigInt(config.maxGasCostBps);
+    this.wrappedNative = config.wrappedNativeAddress;
+  }
+
+  /**
+   * Clamp estimated fees to the configured ceilings
+   */
+  capFees(fees: FeeSettings): FeeSettings {
+    const maxFeePerGas = min(fees.maxFeePerGas, this.maxFeePerGas);
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: min(min(fees.maxPriorityFeePerGas, this.maxPriorityFeePerGas), maxFeePerGas),
+    };
+  }
+
+  /**
+   * Whether a token is valued 1:1 with the native gas token
+   */
+  isNativeValued(token: Address): boolean {
+    return isNativeCurrency(token) || token.toLowerCase() === this.wrappedNative.toLowerCase();
+  }
+
+  /**
+   * Decide whether an execution is worth its gas
+   * notionalInNative is the swap's value in wei, or null if it could not be priced
+   */
+  assess(estimatedGas: bigint, estimatedFees: FeeSettings, notionalInNative: bigint | null): GasAssessment {
+    const fees = this.capFees(estimatedFees);
+    const buffered = (estimatedGas * GAS_LIMIT_BUFFER_BPS) / BASIS_POINTS;
+    const gasLimit = min(buffered, this.maxGasPerExecution);
+    const estimatedCost = estimatedGas * fees.maxFeePerGas;
+    const base = { gasLimit, fees, estimatedCost, notionalInNative };
+
+    if (estimatedGas > this.maxGasPerExecution) {
+      return {
+        ...base,
+        allowed: false,
+        reason: `Estimated gas ${estimatedGas} exceeds per-execution budget ${this.maxGasPerExecution}`,
+      };
+    }
+
+    if (estimatedFees.maxFeePerGas > this.maxFeePerGas) {
+      logger.info(
+        {
+          maxFeePerGas: estimatedFees.maxFeePerGas.toString(),
+          ceiling: this.maxFeePerGas.toString(),
+        },
+        'Network fee above ceiling'
+      );
+      return {
+        ...base,
+        allowed: false,
+        reason: `Network fee above ceiling: max fee ${formatGwei(estimatedFees.maxFeePerGas)} gwei exceeds ${formatGwei(this.maxFeePerGas)} gwei`,
+      };
+    }
+
+    if (notionalInNative === null) {
+      return { ...base, allowed: false, reason: 'Swap notional could not be valued in the native token' };
+    }
+
+    const maxCost = (notionalInNative * this.maxGasCostBps) / BASIS_POINTS;
+    if (estimatedCost > maxCost) {
+      logger.info(
+        {
+          estimatedGas: estimatedGas.toString(),
+          estimatedCost: estimatedCost.toString(),
+          notionalInNative: notionalInNative.toString(),
+          maxGasCostBps: Number(this.maxGasCostBps),
+        },
+        'Execution not worth its gas'
+      );
+      return {
+        ...base,
+        allowed: false,
+        reason: `Gas cost ${estimatedCost} wei exceeds ${this.maxGasCostBps} bps of notional ${notionalInNative} wei`,
+      };
+    }
+
+    return { ...base, allowed: true };
+  }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+export function createGasPolicy(config: Config): GasPolicy {
+  return new GasPolicy(config);
+}
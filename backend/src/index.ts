@@ -1,13 +1,44 @@
-import { loadConfig } from './config.js';
+import { loadChainConfigs, reloadChainConfigs, type Config } from './config.js';
 import { createEventListener } from './event-listener.js';
 import { createRuleEvaluator } from './rule-evaluator.js';
 import { createExecutor } from './executor.js';
-import { createApiServer, type ApiServer } from './api-server.js';
+import { createSignalRouter } from './signal-router.js';
+import { createApiServer, type AgentExplainer, type ApiServer } from './api-server.js';
+import type { AgentSnapshot } from './agent-snapshot.js';
+import type { EvaluationResult } from './rule-evaluator.js';
+import type { ExecutionResult } from './executor.js';
+import { ApiRequestError } from './api-errors.js';
+import type { AdminControls } from './admin.js';
+import type { OwnerServices } from './owner-auth.js';
+import { notifyWebhooks } from './owner-preferences.js';
+import { explainAgent } from './evaluation-report.js';
+import { createExecutionGuard, type ExecutionBlock, type ExecutionGuard } from './execution-guard.js';
+import { createBalanceMonitor, type BalanceMonitor } from './balance-monitor.js';
+import { metrics, registry } from './metrics.js';
 import { logger } from './logger.js';
 
 // Global API server reference for recording executions
 let apiServer: ApiServer;
 
+/**
+ * One chain's keeper components
+ * Each chain has its own listener, evaluator, executor and keeper key, and polls independently
+ */
+interface ChainKeeper {
+  config: Config;
+  eventListener: ReturnType<typeof createEventListener>;
+  ruleEvaluator: ReturnType<typeof createRuleEvaluator>;
+  executor: ReturnType<typeof createExecutor>;
+  signalRouter: ReturnType<typeof createSignalRouter>;
+  // Shared by the poll loop and the signal handler so a rule never executes twice
+  executionGuard: ExecutionGuard;
+  balanceMonitor: BalanceMonitor;
+  pollInterval?: ReturnType<typeof setInterval>;
+  // Operator controls from /api/admin, in memory until restart
+  evaluationPaused: boolean;
+  skippedAgents: Set<bigint>;
+}
+
 /**
  * YellFi Automation Service
  * 
@@ -21,53 +52,165 @@ let apiServer: ApiServer;
 async function main() {
   logger.info('Starting YellFi Automation Service');
 
-  // Load configuration
-  const config = loadConfig();
-  logger.info(
-    {
-      chainId: config.chainId,
-      strategyAgent: config.strategyAgentAddress,
-      hook: config.yellFiHookAddress,
-      pollInterval: config.pollIntervalMs,
-      yellowSandbox: config.yellowUseSandbox,
-    },
-    'Configuration loaded'
-  );
+  // Load configuration: the primary chain plus any CHAINS entries
+  const configs = loadChainConfigs();
+  const [config] = configs;
+  for (const chainConfig of configs) {
+    logger.info(
+      {
+        chainProfile: chainConfig.chainProfile,
+        chainId: chainConfig.chainId,
+        strategyAgent: chainConfig.strategyAgentAddress,
+        hook: chainConfig.yellFiHookAddress,
+        pollInterval: chainConfig.pollIntervalMs,
+        yellowSandbox: chainConfig.yellowUseSandbox,
+        dryRun: chainConfig.dryRun,
+      },
+      'Configuration loaded'
+    );
+  }
 
   // Initialize API server
   const apiPort = parseInt(process.env.API_PORT || '3001');
-  apiServer = createApiServer(config, apiPort);
+  apiServer = createApiServer(config, apiPort, undefined, configs);
   await apiServer.start();
 
+  const keepers: ChainKeeper[] = [];
+  for (const chainConfig of configs) {
+    keepers.push(await startChainKeeper(chainConfig));
+  }
+  apiServer.setAdminControls(createAdminControls(keepers));
+  apiServer.setOwnerServices(createOwnerServices(keepers));
+  apiServer.setAgentExplainer(createAgentExplainer(keepers));
+
+  // Graceful shutdown
+  const shutdown = async () => {
+    logger.info('Shutting down...');
+    for (const keeper of keepers) {
+      clearInterval(keeper.pollInterval);
+      keeper.balanceMonitor.stop();
+      keeper.eventListener.stop();
+    }
+    // Writes out open evaluation runs
+    await apiServer.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // Key rotation without a restart: update .env or the keystore, then send SIGHUP
+  process.on('SIGHUP', async () => {
+    logger.info('Reloading keeper signers...');
+    try {
+      const reloaded = reloadChainConfigs();
+      for (const keeper of keepers) {
+        const next = reloaded.find(c => c.chainId === keeper.config.chainId);
+        if (!next) continue;
+        try {
+          await keeper.executor.rotateSigners(next);
+          await keeper.balanceMonitor.check();
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.error({ chainId: keeper.config.chainId, error: errorMessage }, 'Signer rotation failed, keeping current keys');
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error({ error: errorMessage }, 'Failed to reload configuration, keeping current keys');
+    }
+  });
+
+  logger.info({ chains: configs.map(c => c.chainId) }, 'YellFi Automation Service running');
+}
+
+/**
+ * Create one chain's components, wire its event handlers and start its poll loop
+ */
+async function startChainKeeper(config: Config): Promise<ChainKeeper> {
+  const chainId = config.chainId;
+
   // Initialize components
   const eventListener = createEventListener(config);
   const ruleEvaluator = createRuleEvaluator(config);
   const executor = createExecutor(config);
+  const signalRouter = createSignalRouter(config, ruleEvaluator);
+  const executionGuard = createExecutionGuard(config, (hash) => executor.isTransactionPending(hash));
+  const balanceMonitor = createBalanceMonitor(config, executor);
+  await ruleEvaluator.init();
+  ruleEvaluator.usePreferences(apiServer.getOwnerPreferences());
+  executor.usePreferences(apiServer.getOwnerPreferences());
+  const keeper: ChainKeeper = {
+    config,
+    eventListener,
+    ruleEvaluator,
+    executor,
+    signalRouter,
+    executionGuard,
+    balanceMonitor,
+    evaluationPaused: false,
+    skippedAgents: new Set(),
+  };
 
   // Initialize Yellow Network state channel connection (non-blocking)
-  logger.info('Initializing Yellow Network state channels...');
+  logger.info({ chainId }, 'Initializing Yellow Network state channels...');
   try {
     await executor.initializeYellowNetwork();
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.warn({ error: errorMessage }, 'Yellow Network initialization failed, using on-chain fallback only');
+    logger.warn({ chainId, error: errorMessage }, 'Yellow Network initialization failed, using on-chain fallback only');
   }
 
+  // Track the keeper's gas; below the critical level on-chain execution pauses
+  balanceMonitor.onLevelChange((state) => executor.setOnChainPaused(state.onChainPaused));
+  await balanceMonitor.start();
+  apiServer.trackKeeperBalance(chainId, balanceMonitor);
+
+  // Gauges for state the components own, read on each /metrics scrape
+  registry.collect(() => {
+    const labels = { chain_id: chainId };
+    metrics.clearNodeConnected.set(labels, executor.isClearNodeConnected() ? 1 : 0);
+    const lag = eventListener.getBlockLag();
+    if (lag !== null) metrics.blockLag.set(labels, Number(lag));
+    const balance = balanceMonitor.getState();
+    if (balance) {
+      metrics.keeperBalance.set(labels, Number(balance.balance) / 1e18);
+      metrics.onChainPaused.set(labels, balance.onChainPaused ? 1 : 0);
+      if (balance.executionsRemaining !== null) metrics.executionsRemaining.set(labels, balance.executionsRemaining);
+    }
+  });
+
   // Log keeper info
-  const keeperAddress = executor.getKeeperAddress();
-  const keeperBalance = await executor.getKeeperBalance();
+  const balance = balanceMonitor.getState();
   logger.info(
     {
-      keeper: keeperAddress,
-      balance: `${Number(keeperBalance) / 1e18} ETH`,
+      chainId,
+      keeper: executor.getKeeperAddress(),
+      clearNodeSigner: executor.getClearNodeAddress(),
+      balance: balance ? `${Number(balance.balance) / 1e18} ETH` : undefined,
+      executionsRemaining: balance?.executionsRemaining,
     },
     'Keeper initialized'
   );
 
+  // Pick up nonces from before a restart, including transactions still pending
+  await executor.reconcileNonces();
+
   // Handle hook signals
-  eventListener.onSignal(async (signal) => {
+  eventListener.onSignal(async (signal, context) => {
+    // Replayed signals are history; rules read the latest on-chain signal,
+    // which the poll loop evaluates once the keeper is running
+    if (context.replayed) {
+      logger.debug(
+        { chainId, poolId: signal.poolId, block: context.blockNumber.toString() },
+        'Skipping replayed hook signal'
+      );
+      return;
+    }
+
     logger.info(
       {
+        chainId,
         poolId: signal.poolId,
         signalType: signal.signalType,
         magnitude: signal.magnitude.toString(),
@@ -75,154 +218,502 @@ async function main() {
       'Processing hook signal'
     );
 
-    // Evaluate all agents when signal received
-    await evaluateAndExecuteAgents(ruleEvaluator, executor);
+    // Evaluate only the agents trading the signalled pool
+    const agentIds = await signalRouter.getAgentsForPool(signal.poolId);
+    apiServer.publishEvent('signal', chainId, {
+      poolId: signal.poolId,
+      signalType: signal.signalType,
+      magnitude: signal.magnitude.toString(),
+      blockNumber: context.blockNumber.toString(),
+      agentIds: agentIds.map((id) => id.toString()),
+    });
+    if (agentIds.length === 0) {
+      logger.debug({ chainId, poolId: signal.poolId }, 'No agents on signalled pool');
+      return;
+    }
+    await evaluateAndExecuteAgents(keeper, agentIds);
   });
 
   // Handle agent events
-  eventListener.onAgentEvent(async (event) => {
+  eventListener.onAgentEvent(async (event, context) => {
     logger.info(
       {
+        chainId,
         agentId: event.agentId.toString(),
         eventType: event.eventType,
         txHash: event.transactionHash,
+        replayed: context.replayed,
       },
       'Agent event received'
     );
+
+    if (event.eventType === 'created') {
+      await signalRouter.indexAgent(event.agentId);
+    }
   });
 
+  // Index existing agents by pool before signals start arriving
+  try {
+    await signalRouter.warmup();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn({ chainId, error: errorMessage }, 'Signal router warmup failed, relying on hook subscribers');
+  }
+
   // Start event listener
   await eventListener.start();
 
-  // Periodic evaluation loop
-  const pollInterval = setInterval(async () => {
-    await evaluateAndExecuteAgents(ruleEvaluator, executor);
-  }, config.pollIntervalMs);
-
-  // Graceful shutdown
-  const shutdown = async () => {
-    logger.info('Shutting down...');
-    clearInterval(pollInterval);
-    eventListener.stop();
-    process.exit(0);
-  };
+  // Periodic evaluation loop (time- and price-based rules)
+  // A slow cycle must not overlap the next tick
+  let cycleRunning = false;
+  keeper.pollInterval = setInterval(async () => {
+    if (cycleRunning) {
+      logger.warn({ chainId }, 'Previous evaluation cycle still running, skipping tick');
+      return;
+    }
 
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
+    cycleRunning = true;
+    try {
+      await executor.reconcileNonces();
+      await evaluateAndExecuteAgents(keeper);
+    } finally {
+      cycleRunning = false;
+    }
+  }, config.pollIntervalMs);
 
-  logger.info('YellFi Automation Service running');
+  return keeper;
 }
 
 /**
- * Evaluate all agents and execute ready rules
+ * Evaluate agents and execute ready rules
+ * Evaluates every agent unless a subset is given (e.g. agents on a signalled pool)
  */
-async function evaluateAndExecuteAgents(
-  ruleEvaluator: ReturnType<typeof createRuleEvaluator>,
-  executor: ReturnType<typeof createExecutor>
-) {
+async function evaluateAndExecuteAgents(keeper: ChainKeeper, agentIds?: bigint[]) {
+  const { config, ruleEvaluator } = keeper;
+  if (keeper.evaluationPaused) {
+    logger.debug({ chainId: config.chainId }, 'Evaluation paused by operator, skipping cycle');
+    return;
+  }
+
+  const labels = { chain_id: config.chainId };
+  const cycleStart = performance.now();
   try {
     const totalAgents = await ruleEvaluator.getTotalAgents();
-    logger.info({ totalAgents: totalAgents.toString() }, '=== Starting evaluation cycle ===');
-
-    let readyRulesCount = 0;
-    let executedCount = 0;
-    let failedCount = 0;
-
-    for (let i = 1n; i <= totalAgents; i++) {
-      logger.info({ agentId: i.toString() }, 'Evaluating agent');
-      const evaluations = await ruleEvaluator.evaluateAgent(i);
-
-      logger.info({
-        agentId: i.toString(),
-        evaluationsCount: evaluations.length,
-        readyToExecute: evaluations.filter(e => e.shouldExecute).length,
-      }, 'Agent evaluation complete');
-
-      for (const evaluation of evaluations) {
-        if (evaluation.shouldExecute) {
-          readyRulesCount++;
-          logger.info(
-            {
-              agentId: evaluation.agentId.toString(),
-              ruleIndex: evaluation.ruleIndex,
-              reason: evaluation.reason,
-            },
-            '>>> Rule ready for execution <<<'
-          );
-
-          const agent = await ruleEvaluator.getAgent(evaluation.agentId);
-          const rules = await ruleEvaluator.getRules(evaluation.agentId);
-          const rule = rules[evaluation.ruleIndex];
-
-          logger.info({
-            agentId: evaluation.agentId.toString(),
-            ruleIndex: evaluation.ruleIndex,
-            agentDeposit: agent.depositedAmount.toString(),
-            ruleType: rule.ruleType,
-          }, 'Executing rule...');
-
-          const result = await executor.execute(evaluation, agent);
-
-          // Record execution in API server
-          apiServer.recordExecution({
-            agentId: result.agentId,
-            ruleIndex: result.ruleIndex,
-            success: result.success,
-            transactionHash: result.transactionHash,
-            executionId: result.executionId,
-            error: result.error,
-            executionMode: result.executionMode,
-            ruleType: rule ? Number(rule.ruleType) : undefined,
-            threshold: rule ? Number(rule.threshold) : undefined,
-          });
-
-          // Update agent status
-          apiServer.updateAgentStatus(evaluation.agentId, {
-            lastEvaluation: Date.now(),
-            totalExecutions: (apiServer as any).executions?.filter(
-              (e: any) => e.agentId.toString() === evaluation.agentId.toString()
-            ).length || 0,
-          });
-
-          if (result.success) {
-            executedCount++;
-            logger.info(
-              {
-                agentId: result.agentId.toString(),
-                ruleIndex: result.ruleIndex,
-                txHash: result.transactionHash,
-                executionId: result.executionId,
-                mode: result.executionMode,
-              },
-              `✅ Execution completed via ${result.executionMode}`
-            );
-          } else {
-            failedCount++;
-            logger.error(
-              {
-                agentId: result.agentId.toString(),
-                ruleIndex: result.ruleIndex,
-                error: result.error,
-                mode: result.executionMode,
-              },
-              '❌ Execution failed'
-            );
-          }
-        }
-      }
-    }
+    const targets = (agentIds ?? Array.from({ length: Number(totalAgents) }, (_, index) => BigInt(index + 1)))
+      .filter((agentId) => !keeper.skippedAgents.has(agentId));
+    logger.info({
+      chainId: config.chainId,
+      totalAgents: totalAgents.toString(),
+      agentsToEvaluate: targets.length,
+    }, '=== Starting evaluation cycle ===');
+
+    // One batched state read per page of agents, shared by evaluation and execution
+    const snapshots = await ruleEvaluator.loadSnapshots(targets);
+
+    // Agents execute in parallel, each agent's rules in order
+    const outcomes = await mapWithConcurrency(snapshots, config.maxConcurrentExecutions, (snapshot) =>
+      evaluateAndExecuteAgent(keeper, snapshot)
+    );
+    const readyRulesCount = outcomes.reduce((sum, o) => sum + o.ready, 0);
+    const executedCount = outcomes.reduce((sum, o) => sum + o.executed, 0);
+    const failedCount = outcomes.reduce((sum, o) => sum + o.failed, 0);
+    const skippedCount = outcomes.reduce((sum, o) => sum + o.skipped, 0);
+    const deduplicatedCount = outcomes.reduce((sum, o) => sum + o.deduplicated, 0);
+    const simulatedCount = outcomes.reduce((sum, o) => sum + o.simulated, 0);
+
+    metrics.agentsEvaluated.inc(labels, targets.length);
+    metrics.rulesReady.inc(labels, readyRulesCount);
+
+    apiServer.publishEvent('evaluation-cycle', config.chainId, {
+      trigger: agentIds ? 'signal' : 'poll',
+      agentsEvaluated: targets.length,
+      readyRulesCount,
+      executedCount,
+      failedCount,
+      skippedCount,
+      deduplicatedCount,
+      simulatedCount,
+      durationMs: Math.round(performance.now() - cycleStart),
+    });
 
     logger.info({
+      chainId: config.chainId,
       totalAgents: totalAgents.toString(),
+      agentsEvaluated: targets.length,
       readyRulesCount,
       executedCount,
       failedCount,
+      skippedCount,
+      deduplicatedCount,
+      simulatedCount,
     }, '=== Evaluation cycle complete ===');
   } catch (error) {
-    logger.error({ error }, 'Error in evaluation loop');
+    logger.error({ chainId: config.chainId, error }, 'Error in evaluation loop');
+  } finally {
+    metrics.cycleDuration.observe(
+      { ...labels, trigger: agentIds ? 'signal' : 'poll' },
+      (performance.now() - cycleStart) / 1000
+    );
   }
 }
 
+/**
+ * Evaluate one agent's snapshot and execute its ready rules in order
+ */
+async function evaluateAndExecuteAgent(
+  keeper: ChainKeeper,
+  snapshot: AgentSnapshot
+): Promise<{ ready: number; executed: number; failed: number; skipped: number; deduplicated: number; simulated: number }> {
+  const { config, ruleEvaluator, executor, executionGuard } = keeper;
+  const chainId = config.chainId;
+  const outcome = { ready: 0, executed: 0, failed: 0, skipped: 0, deduplicated: 0, simulated: 0 };
+
+  const i = snapshot.agentId;
+  logger.info({ chainId, agentId: i.toString() }, 'Evaluating agent');
+  const evaluations = await ruleEvaluator.evaluateSnapshot(snapshot);
+  apiServer.recordEvaluations(chainId, evaluations, snapshot.blockNumber);
+
+  logger.info({
+    chainId,
+    agentId: i.toString(),
+    evaluationsCount: evaluations.length,
+    readyToExecute: evaluations.filter(e => e.shouldExecute).length,
+  }, 'Agent evaluation complete');
+
+  for (const evaluation of evaluations) {
+    if (evaluation.shouldExecute) {
+      outcome.ready++;
+      logger.info(
+        {
+          agentId: evaluation.agentId.toString(),
+          ruleIndex: evaluation.ruleIndex,
+          reason: evaluation.reason,
+        },
+        '>>> Rule ready for execution <<<'
+      );
+
+      const { result } = await executeRule(keeper, evaluation, snapshot);
+      if (!result) {
+        outcome.deduplicated++;
+        continue;
+      }
+
+      if (result.success && result.simulated) {
+        // Dry run: nothing moved on-chain, so the snapshot is still current
+        outcome.simulated++;
+        logger.info(
+          {
+            agentId: result.agentId.toString(),
+            ruleIndex: result.ruleIndex,
+            minAmountOut: result.minAmountOut?.toString(),
+            estimatedGas: result.estimatedGas?.toString(),
+          },
+          '🧪 Execution simulated (dry run)'
+        );
+      } else if (result.success) {
+        outcome.executed++;
+
+        // Balances moved; refresh before executing this agent's next ready rule
+        const [refreshed] = await ruleEvaluator.loadSnapshots([snapshot.agentId]);
+        if (refreshed) snapshot = refreshed;
+
+        logger.info(
+          {
+            agentId: result.agentId.toString(),
+            ruleIndex: result.ruleIndex,
+            txHash: result.transactionHash,
+            executionId: result.executionId,
+            mode: result.executionMode,
+          },
+          `✅ Execution completed via ${result.executionMode}`
+        );
+      } else if (result.skipped) {
+        outcome.skipped++;
+        logger.warn(
+          {
+            agentId: result.agentId.toString(),
+            ruleIndex: result.ruleIndex,
+            reason: result.error,
+          },
+          '⏭️ Execution skipped'
+        );
+      } else {
+        outcome.failed++;
+        logger.error(
+          {
+            agentId: result.agentId.toString(),
+            ruleIndex: result.ruleIndex,
+            error: result.error,
+            mode: result.executionMode,
+          },
+          '❌ Execution failed'
+        );
+      }
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Execute one rule and record the result
+ * Returns what blocked it instead when the guard holds the rule
+ */
+async function executeRule(
+  keeper: ChainKeeper,
+  evaluation: EvaluationResult,
+  snapshot: AgentSnapshot
+): Promise<{ result: ExecutionResult; blocked?: undefined } | { result?: undefined; blocked: ExecutionBlock }> {
+  const { config, executor, executionGuard } = keeper;
+  const chainId = config.chainId;
+
+  // The other trigger may already be executing this rule, or it just executed
+  const { lease, blocked } = await executionGuard.tryAcquire(evaluation.agentId, evaluation.ruleIndex);
+  if (!lease) {
+    return { blocked };
+  }
+
+  const rule = snapshot.rules[evaluation.ruleIndex];
+
+  logger.info({
+    agentId: evaluation.agentId.toString(),
+    ruleIndex: evaluation.ruleIndex,
+    agentDeposit: snapshot.agent.depositedAmount.toString(),
+    ruleType: rule.ruleType,
+  }, 'Executing rule...');
+
+  let result: Awaited<ReturnType<typeof executor.execute>> | undefined;
+  try {
+    result = await executor.execute(evaluation, snapshot);
+  } finally {
+    executionGuard.release(lease, {
+      success: result?.success ?? false,
+      pendingTransactionHash: result?.pendingTransactionHash,
+    });
+  }
+
+  // Record execution in API server
+  apiServer.recordExecution({
+    chainId,
+    agentId: result.agentId,
+    ruleIndex: result.ruleIndex,
+    success: result.success,
+    transactionHash: result.transactionHash,
+    executionId: result.executionId,
+    error: result.error,
+    executionMode: result.executionMode,
+    ruleType: rule ? Number(rule.ruleType) : undefined,
+    threshold: rule ? Number(rule.threshold) : undefined,
+    amountIn: result.amountIn?.toString(),
+    quotedAmountOut: result.quotedAmountOut?.toString(),
+    minAmountOut: result.minAmountOut?.toString(),
+    amountOut: result.amountOut?.toString(),
+    slippageBps: result.slippageBps,
+    skipped: result.skipped,
+    estimatedGas: result.estimatedGas?.toString(),
+    estimatedGasCost: result.estimatedGasCost?.toString(),
+    failureCode: result.failureCode,
+    failureClass: result.failureClass,
+    simulated: result.simulated,
+  });
+
+  // Percentage stop loss and take profit measure from the agent's latest confirmed on-chain fill
+  if (result.success && result.executionMode === 'on-chain' && result.transactionHash && !result.simulated && result.fillPrice) {
+    keeper.ruleEvaluator.setEntryPrice(result.agentId, result.fillPrice);
+  }
+
+  // Update agent status
+  apiServer.updateAgentStatus(chainId, evaluation.agentId, {
+    lastEvaluation: Date.now(),
+    totalExecutions: apiServer.countExecutions(chainId, evaluation.agentId),
+  });
+
+  // Owner webhooks, in the background so a slow endpoint never holds up execution
+  void notifyWebhooks(apiServer.getOwnerPreferences().get(chainId, evaluation.agentId), {
+    chainId,
+    agentId: result.agentId,
+    ruleIndex: result.ruleIndex,
+    success: result.success,
+    skipped: result.skipped ?? false,
+    simulated: result.simulated ?? false,
+    executionMode: result.executionMode,
+    transactionHash: result.transactionHash,
+    error: result.error,
+    failureCode: result.failureCode,
+    timestamp: Date.now(),
+  });
+
+  const outcomeLabel = result.success
+    ? (result.simulated ? 'simulated' : 'success')
+    : (result.skipped ? 'skipped' : 'failed');
+  metrics.executions.inc({ chain_id: chainId, mode: result.executionMode, outcome: outcomeLabel });
+
+  return { result };
+}
+
+/**
+ * Operator actions for /api/admin, applied to the keeper for the requested chain
+ */
+function createAdminControls(keepers: ChainKeeper[]): AdminControls {
+  const keeperFor = (chainId: number) => findKeeper(keepers, chainId);
+  const selected = (chainId: number | undefined): ChainKeeper[] =>
+    chainId === undefined ? keepers : [keeperFor(chainId)];
+
+  const loadSnapshot = async (keeper: ChainKeeper, agentId: bigint): Promise<AgentSnapshot> => {
+    const [snapshot] = await keeper.ruleEvaluator.loadSnapshots([agentId]);
+    if (!snapshot) throw new ApiRequestError(`Agent ${agentId} not found`, 404);
+    return snapshot;
+  };
+
+  return {
+    // Runs even while the loop is paused or the agent is skipped
+    async evaluateAgent(chainId, agentId) {
+      const keeper = keeperFor(chainId);
+      return evaluateAndExecuteAgent(keeper, await loadSnapshot(keeper, agentId));
+    },
+
+    // Executes without waiting for the rule's condition; the contract still enforces cooldowns
+    async triggerRule(chainId, agentId, ruleIndex) {
+      const keeper = keeperFor(chainId);
+      const snapshot = await loadSnapshot(keeper, agentId);
+      if (!snapshot.rules[ruleIndex]) {
+        throw new ApiRequestError(`Agent ${agentId} has no rule ${ruleIndex}`, 404);
+      }
+
+      const { result, blocked } = await executeRule(
+        keeper,
+        { agentId, ruleIndex, shouldExecute: true, reason: 'Triggered by operator' },
+        snapshot
+      );
+      if (blocked) {
+        // Held by a running or still-pending execution, or just executed and worth retrying later
+        throw new ApiRequestError(blocked.detail, blocked.reason === 'dedup-window' ? 429 : 409);
+      }
+
+      return {
+        success: result.success,
+        skipped: result.skipped ?? false,
+        simulated: result.simulated ?? false,
+        executionMode: result.executionMode,
+        transactionHash: result.transactionHash,
+        executionId: result.executionId,
+        error: result.error,
+        failureCode: result.failureCode,
+      };
+    },
+
+    setEvaluationPaused(chainId, paused) {
+      return selected(chainId).map((keeper) => {
+        keeper.evaluationPaused = paused;
+        return keeper.config.chainId;
+      });
+    },
+
+    setAgentSkipped(chainId, agentId, skipped) {
+      const keeper = keeperFor(chainId);
+      if (skipped) keeper.skippedAgents.add(agentId);
+      else keeper.skippedAgents.delete(agentId);
+    },
+
+    async reconnectClearNode(chainId) {
+      const chains = [];
+      for (const keeper of selected(chainId)) {
+        chains.push({
+          chainId: keeper.config.chainId,
+          connected: await keeper.executor.reconnectClearNode(),
+        });
+      }
+      return { chains };
+    },
+
+    getState() {
+      return {
+        chains: keepers.map((keeper) => ({
+          chainId: keeper.config.chainId,
+          evaluationPaused: keeper.evaluationPaused,
+          skippedAgents: [...keeper.skippedAgents].map((id) => id.toString()),
+          clearNodeConnected: keeper.executor.isClearNodeConnected(),
+          onChainPaused: keeper.balanceMonitor.getState()?.onChainPaused ?? false,
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * Agent ownership and diagnostics for /api/owner
+ */
+function createOwnerServices(keepers: ChainKeeper[]): OwnerServices {
+  return {
+    async getAgentOwner(chainId, agentId) {
+      const agent = await findKeeper(keepers, chainId).ruleEvaluator.getAgent(agentId);
+      return /^0x0{40}$/.test(agent.owner) ? null : agent.owner;
+    },
+
+    async getDiagnostics(chainId, agentId) {
+      const keeper = findKeeper(keepers, chainId);
+      const [snapshot] = await keeper.ruleEvaluator.loadSnapshots([agentId]);
+      const evaluations = snapshot ? await keeper.ruleEvaluator.evaluateSnapshot(snapshot) : [];
+
+      return {
+        keeper: {
+          evaluationPaused: keeper.evaluationPaused,
+          agentSkipped: keeper.skippedAgents.has(agentId),
+          clearNodeConnected: keeper.executor.isClearNodeConnected(),
+          onChainPaused: keeper.balanceMonitor.getState()?.onChainPaused ?? false,
+          dryRun: keeper.config.dryRun,
+        },
+        rules: evaluations.map((evaluation) => ({
+          ruleIndex: evaluation.ruleIndex,
+          shouldExecute: evaluation.shouldExecute,
+          reason: evaluation.reason,
+          details: evaluation.details,
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * On-demand rule explanations for /api/agents/:id/evaluation
+ */
+function createAgentExplainer(keepers: ChainKeeper[]): AgentExplainer {
+  return async (chainId, agentId) => {
+    const keeper = findKeeper(keepers, chainId);
+    const [snapshot] = await keeper.ruleEvaluator.loadSnapshots([agentId]);
+    if (!snapshot || /^0x0{40}$/.test(snapshot.agent.owner)) return null;
+
+    return explainAgent(chainId, snapshot, {
+      evaluateSnapshot: (s) => keeper.ruleEvaluator.evaluateSnapshot(s),
+      previewQuote: (id, ruleIndex, s) => keeper.executor.previewQuote(id, ruleIndex, s),
+    });
+  };
+}
+
+function findKeeper(keepers: ChainKeeper[], chainId: number): ChainKeeper {
+  const keeper = keepers.find((k) => k.config.chainId === chainId);
+  if (!keeper) throw new ApiRequestError(`Chain ${chainId} is not served`, 404);
+  return keeper;
+}
+
+/**
+ * Map items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
 // Run
 main().catch((error) => {
   const errorMessage = error instanceof Error ? error.message : String(error);
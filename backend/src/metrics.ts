@@ -0,0 +1,166 @@
+/**
+ * Minimal Prometheus metrics for the keeper, rendered in the text exposition format
+ * on /metrics. Counters and histograms are updated where things happen; gauges for
+ * state owned elsewhere (ClearNode, block cursor, keeper balance) are set by
+ * collectors that run on each scrape.
+ */
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string[];
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabel(String(labels[name]))}"`)
+    .join(',');
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : value > 0 ? '+Inf' : '-Inf'}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(readonly name: string, private help: string) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'gauge'),
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(readonly name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index >= 0) series.buckets[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const [key, series] of this.series) {
+      const prefix = key ? `${key},` : '';
+      let cumulative = 0;
+      this.bounds.forEach((bound, index) => {
+        cumulative += series.buckets[index];
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${series.count}`);
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run a callback before each render, to set gauges from current state
+   */
+  collect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+const SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const metrics = {
+  cycleDuration: registry.histogram(
+    'yellfi_evaluation_cycle_duration_seconds',
+    'Duration of evaluation cycles, by chain and trigger (poll or signal)',
+    SECONDS_BUCKETS
+  ),
+  agentsEvaluated: registry.counter('yellfi_agents_evaluated_total', 'Agents evaluated'),
+  rulesReady: registry.counter('yellfi_rules_ready_total', 'Rules found ready to execute'),
+  executions: registry.counter('yellfi_executions_total', 'Executions by mode and outcome'),
+  rpcRequests: registry.counter('yellfi_rpc_requests_total', 'RPC requests by endpoint, method and status'),
+  rpcLatency: registry.histogram('yellfi_rpc_request_duration_seconds', 'RPC request latency by endpoint', SECONDS_BUCKETS),
+  clearNodeConnected: registry.gauge('yellfi_clearnode_connected', 'Whether the ClearNode WebSocket is connected (1) or not (0)'),
+  blockLag: registry.gauge('yellfi_event_block_lag', 'Blocks between the chain head and the last block processed for events'),
+  keeperBalance: registry.gauge('yellfi_keeper_balance_eth', 'Keeper native balance'),
+  executionsRemaining: registry.gauge('yellfi_keeper_executions_remaining', 'On-chain executions the keeper balance still covers'),
+  onChainPaused: registry.gauge('yellfi_keeper_onchain_paused', 'Whether on-chain execution is paused for low balance (1) or not (0)'),
+};
@@ -0,0 +1,195 @@
+import { randomBytes } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { verifyMessage, type Address, type Hex, type PublicClient } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { createChildLogger } from './logger.js';
+import { ApiRequestError } from './api-errors.js';
+import { createRobustPublicClient } from './rpc-client.js';
+import type { Config } from './config.js';
+
+const logger = createChildLogger('owner-auth');
+
+// A nonce must come back signed within this window, and only once
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const MAX_PENDING_NONCES_PER_CLIENT = 10;
+
+/**
+ * What owner endpoints need from the keepers
+ */
+export interface OwnerServices {
+  getAgentOwner(chainId: number, agentId: bigint): Promise<Address | null>; // null when the agent does not exist
+  getDiagnostics(chainId: number, agentId: bigint): Promise<Record<string, unknown>>;
+}
+
+export interface OwnerSession {
+  address: Address;
+  chainId: number; // the chain the SIWE message was signed for
+  expiresAt: number;
+}
+
+interface PendingNonce {
+  expiresAt: number;
+  client: string;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions for agent owners
+ *
+ * The client asks for a nonce, signs a SIWE message carrying it and trades the
+ * signature for a bearer token. Messages must name SIWE_DOMAIN and a URI on it;
+ * without SIWE_DOMAIN sign-in is disabled. Sessions live in memory, so owners
+ * sign in again after a keeper restart. Smart contract wallets are verified
+ * through the chain (ERC-1271/6492); plain keys are checked locally.
+ */
+export class OwnerAuth {
+  private nonces: Map<string, PendingNonce> = new Map();
+  private pendingByClient: Map<string, number> = new Map(); // client address -> unexpired nonces
+  private sessions: Map<string, OwnerSession> = new Map();
+  private clients: Map<number, PublicClient> = new Map();
+  private chains: Config[];
+  private domain?: string;
+  private sessionTtlMs: number;
+
+  constructor(config: Config, chains: Config[] = [config]) {
+    this.chains = chains;
+    this.domain = config.siweDomain;
+    this.sessionTtlMs = config.ownerSessionTtlMs;
+  }
+
+  /**
+   * Sign-in needs SIWE_DOMAIN, or any site could relay signatures for its own visitors
+   */
+  get enabled(): boolean {
+    return !!this.domain;
+  }
+
+  /**
+   * Issue a nonce to a client, identified by its remote address
+   */
+  issueNonce(client: string): string {
+    this.prune();
+    if ((this.pendingByClient.get(client) ?? 0) >= MAX_PENDING_NONCES_PER_CLIENT) {
+      throw new ApiRequestError('Too many pending sign-ins, try again shortly', 429);
+    }
+
+    const nonce = generateSiweNonce();
+    this.nonces.set(nonce, { expiresAt: Date.now() + NONCE_TTL_MS, client });
+    this.pendingByClient.set(client, (this.pendingByClient.get(client) ?? 0) + 1);
+    return nonce;
+  }
+
+  /**
+   * Check a signed SIWE message and open a session
+   * Returns the bearer token with the session
+   */
+  async signIn(message: string, signature: Hex): Promise<OwnerSession & { token: string }> {
+    if (!this.domain) {
+      throw new ApiRequestError('Owner sign-in is disabled, SIWE_DOMAIN is not set', 503);
+    }
+
+    const parsed = parseSiweMessage(message);
+    const pending = parsed.nonce ? this.nonces.get(parsed.nonce) : undefined;
+    if (!parsed.nonce || !pending || pending.expiresAt < Date.now()) {
+      throw new ApiRequestError('Unknown or expired nonce', 401);
+    }
+    this.forgetNonce(parsed.nonce, pending);
+
+    const chain = this.chains.find((c) => c.chainId === parsed.chainId);
+    if (!chain) {
+      throw new ApiRequestError(`Chain ${parsed.chainId} is not served`, 400);
+    }
+
+    // Fields first (domain, nonce, validity window), then the signature
+    if (
+      !parsed.address ||
+      !isUriOnDomain(parsed.uri, this.domain) ||
+      !validateSiweMessage({ message: parsed, nonce: parsed.nonce, domain: this.domain })
+    ) {
+      throw new ApiRequestError('Invalid SIWE message', 401);
+    }
+    const verified =
+      (await verifyMessage({ address: parsed.address, message, signature }).catch(() => false)) ||
+      (await this.client(chain).verifySiweMessage({ message, signature }).catch(() => false));
+    if (!verified) {
+      throw new ApiRequestError('Invalid signature', 401);
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = Math.min(
+      Date.now() + this.sessionTtlMs,
+      parsed.expirationTime?.getTime() ?? Number.MAX_SAFE_INTEGER
+    );
+    const session: OwnerSession = { address: parsed.address, chainId: chain.chainId, expiresAt };
+    this.sessions.set(token, session);
+
+    logger.info({ address: session.address, chainId: session.chainId }, 'Owner signed in');
+    return { ...session, token };
+  }
+
+  /**
+   * Session for the request's bearer token, or null
+   */
+  authenticate(req: IncomingMessage): OwnerSession | null {
+    const token = bearerToken(req);
+    const session = token ? this.sessions.get(token) : undefined;
+    if (!session) return null;
+
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(token!);
+      return null;
+    }
+    return session;
+  }
+
+  signOut(req: IncomingMessage): void {
+    const token = bearerToken(req);
+    if (token) this.sessions.delete(token);
+  }
+
+  private client(chain: Config): PublicClient {
+    let client = this.clients.get(chain.chainId);
+    if (!client) {
+      client = createRobustPublicClient(chain);
+      this.clients.set(chain.chainId, client);
+    }
+    return client;
+  }
+
+  private forgetNonce(nonce: string, pending: PendingNonce): void {
+    this.nonces.delete(nonce);
+    const count = (this.pendingByClient.get(pending.client) ?? 1) - 1;
+    if (count > 0) this.pendingByClient.set(pending.client, count);
+    else this.pendingByClient.delete(pending.client);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [nonce, pending] of this.nonces) {
+      if (pending.expiresAt < now) this.forgetNonce(nonce, pending);
+    }
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt < now) this.sessions.delete(token);
+    }
+  }
+}
+
+// The URI must be served from the signing domain, over https except on localhost
+function isUriOnDomain(uri: string | undefined, domain: string): boolean {
+  if (!uri) return false;
+  try {
+    const url = new URL(uri);
+    const local = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    return url.host === domain && (url.protocol === 'https:' || (local && url.protocol === 'http:'));
+  } catch {
+    return false;
+  }
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+}
+
+export function createOwnerAuth(config: Config, chains?: Config[]): OwnerAuth {
+  return new OwnerAuth(config, chains);
+}
@@ -0,0 +1,309 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { request } from 'https';
+import { BlockList, isIP } from 'net';
+import { join } from 'path';
+import type { Address } from 'viem';
+import { createChildLogger } from './logger.js';
+import { ApiRequestError } from './api-errors.js';
+import type { Config } from './config.js';
+import type { SizingMode, SizingPolicy, SwapDirection } from './swap-sizing.js';
+
+const logger = createChildLogger('owner-preferences');
+
+const PREFERENCES_FILE = 'owner-preferences.json';
+
+// Owners point these at their own endpoints, so keep the keeper's outbound calls bounded
+const MAX_WEBHOOKS = 3;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Webhooks may not reach the keeper's own network: loopback, private, link-local,
+// carrier-grade NAT, multicast and reserved ranges
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+const SIZING_MODES: SizingMode[] = ['fixed', 'percent', 'rebalance', 'exit'];
+const DIRECTIONS: SwapDirection[] = ['zeroForOne', 'oneForZero'];
+
+/**
+ * Off-chain settings an agent's owner keeps with the keeper
+ * sizing and slippageBps are keyed by rule index, or "*" for every rule, and take
+ * precedence over the keeper's SWAP_SIZING and SLIPPAGE_BPS; slippage is still
+ * capped at MAX_SLIPPAGE_BPS
+ */
+export interface OwnerPreferences {
+  chainId: number;
+  agentId: string;
+  sizing: Record<string, SizingPolicy>;
+  slippageBps: Record<string, number>;
+  pausedRules: number[]; // rules the keeper leaves unevaluated, without an on-chain update
+  webhooks: string[]; // https URLs that receive each execution result
+  updatedBy: Address;
+  updatedAt: number;
+}
+
+/**
+ * Read side used by the evaluator and executor
+ */
+export interface OwnerPreferencesReader {
+  get(chainId: number, agentId: bigint): OwnerPreferences | undefined;
+}
+
+/**
+ * Owner preferences keyed by chain and agent
+ * Persisted to <dataDir>/owner-preferences.json unless the execution store is in memory
+ */
+export class OwnerPreferencesStore implements OwnerPreferencesReader {
+  private preferences: Map<string, OwnerPreferences> = new Map();
+  private path: string | null;
+
+  constructor(config: Config) {
+    this.path = config.executionStore === 'jsonl' ? join(config.dataDir, PREFERENCES_FILE) : null;
+  }
+
+  async init(): Promise<void> {
+    if (!this.path || !existsSync(this.path)) return;
+
+    const stored = JSON.parse(await readFile(this.path, 'utf8')) as OwnerPreferences[];
+    for (const preferences of stored) {
+      this.preferences.set(key(preferences.chainId, preferences.agentId), revive(preferences));
+    }
+    logger.info({ agents: this.preferences.size }, 'Owner preferences loaded');
+  }
+
+  get(chainId: number, agentId: bigint): OwnerPreferences | undefined {
+    return this.preferences.get(key(chainId, agentId));
+  }
+
+  set(preferences: OwnerPreferences): void {
+    this.preferences.set(key(preferences.chainId, preferences.agentId), preferences);
+    this.persist();
+  }
+
+  private persist(): void {
+    if (!this.path) return;
+
+    const serialized = JSON.stringify(
+      [...this.preferences.values()],
+      (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2
+    );
+    mkdirSync(join(this.path, '..'), { recursive: true });
+    writeFileSync(`${this.path}.tmp`, serialized);
+    renameSync(`${this.path}.tmp`, this.path);
+  }
+}
+
+function key(chainId: number, agentId: bigint | string): string {
+  return `${chainId}:${agentId}`;
+}
+
+// Fixed sizing amounts are stored as decimal strings
+function revive(preferences: OwnerPreferences): OwnerPreferences {
+  const sizing: Record<string, SizingPolicy> = {};
+  for (const [rule, policy] of Object.entries(preferences.sizing ?? {})) {
+    sizing[rule] = { ...policy, amount: policy.amount !== undefined ? BigInt(policy.amount) : undefined };
+  }
+  return { ...preferences, sizing };
+}
+
+/**
+ * Sizing policy the owner chose for a rule, if any
+ */
+export function preferredSizing(preferences: OwnerPreferences | undefined, ruleIndex: number): SizingPolicy | undefined {
+  return preferences?.sizing[ruleIndex.toString()] ?? preferences?.sizing['*'];
+}
+
+/**
+ * Slippage tolerance the owner chose for a rule, if any
+ */
+export function preferredSlippageBps(preferences: OwnerPreferences | undefined, ruleIndex: number): number | undefined {
+  return preferences?.slippageBps[ruleIndex.toString()] ?? preferences?.slippageBps['*'];
+}
+
+/**
+ * Validate a preferences body from PUT /api/owner/agents/:id/preferences
+ * Fields left out are cleared
+ */
+export function parseOwnerPreferences(
+  body: Record<string, unknown>,
+  maxSlippageBps: number
+): Pick<OwnerPreferences, 'sizing' | 'slippageBps' | 'pausedRules' | 'webhooks'> {
+  const ruleKey = (value: string) => value === '*' || /^\d+$/.test(value);
+
+  const sizing: Record<string, SizingPolicy> = {};
+  for (const [rule, raw] of Object.entries(asObject(body.sizing, 'sizing'))) {
+    const policy = asObject(raw, `sizing.${rule}`);
+    const mode = policy.mode as SizingMode;
+    const direction = policy.direction as SwapDirection | undefined;
+    if (!ruleKey(rule)) throw new ApiRequestError(`sizing key ${rule} must be a rule index or "*"`);
+    if (!SIZING_MODES.includes(mode)) throw new ApiRequestError(`sizing.${rule}.mode must be one of ${SIZING_MODES.join(', ')}`);
+    if (direction !== undefined && !DIRECTIONS.includes(direction)) throw new ApiRequestError(`sizing.${rule}.direction must be zeroForOne or oneForZero`);
+
+    const entry: SizingPolicy = direction ? { mode, direction } : { mode };
+    if (mode === 'fixed') {
+      if (typeof policy.amount !== 'string' || !/^\d+$/.test(policy.amount) || BigInt(policy.amount) === 0n) {
+        throw new ApiRequestError(`sizing.${rule}.amount must be a positive integer string in token units`);
+      }
+      entry.amount = BigInt(policy.amount);
+    }
+    if (mode === 'percent') {
+      entry.bps = bps(policy.bps, `sizing.${rule}.bps`, 1, 10000);
+    }
+    if (mode === 'rebalance') {
+      entry.targetWeightBps = bps(policy.targetWeightBps, `sizing.${rule}.targetWeightBps`, 0, 10000);
+    }
+    sizing[rule] = entry;
+  }
+
+  const slippageBps: Record<string, number> = {};
+  for (const [rule, value] of Object.entries(asObject(body.slippageBps, 'slippageBps'))) {
+    if (!ruleKey(rule)) throw new ApiRequestError(`slippageBps key ${rule} must be a rule index or "*"`);
+    slippageBps[rule] = bps(value, `slippageBps.${rule}`, 0, maxSlippageBps);
+  }
+
+  const pausedRules = asArray(body.pausedRules, 'pausedRules').map((value) => {
+    if (!Number.isInteger(value) || (value as number) < 0) {
+      throw new ApiRequestError('pausedRules must be rule indexes');
+    }
+    return value as number;
+  });
+
+  const webhooks = asArray(body.webhooks, 'webhooks').map((value) => {
+    if (typeof value !== 'string' || !isHttpsUrl(value)) {
+      throw new ApiRequestError('webhooks must be https URLs');
+    }
+    if (!isPublicHost(new URL(value).hostname)) {
+      throw new ApiRequestError('webhooks must point at public hosts');
+    }
+    return value;
+  });
+  if (webhooks.length > MAX_WEBHOOKS) {
+    throw new ApiRequestError(`At most ${MAX_WEBHOOKS} webhooks`);
+  }
+
+  return { sizing, slippageBps, pausedRules, webhooks };
+}
+
+function asObject(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new ApiRequestError(`${field} must be an object`);
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, field: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new ApiRequestError(`${field} must be an array`);
+  return value;
+}
+
+function bps(value: unknown, field: string, min: number, max: number): number {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new ApiRequestError(`${field} must be an integer from ${min} to ${max}`);
+  }
+  return value as number;
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is the IPv4 address underneath
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Names are checked again when they resolve; literals and localhost can be refused up front
+function isPublicHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) return isPublicAddress(host);
+  return host !== 'localhost' && !host.endsWith('.localhost');
+}
+
+// DNS lookup for webhook requests that fails on non-public addresses, so the
+// address checked is the one connected to
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, options, (error, address: string | LookupAddress[], family?: number) => {
+    if (error) return callback(error, address, family);
+
+    const addresses = typeof address === 'string' ? [address] : address.map((entry) => entry.address);
+    const blocked = addresses.find((candidate) => !isPublicAddress(candidate));
+    if (blocked) {
+      return callback(new Error(`Webhook host ${hostname} resolves to non-public address ${blocked}`), address, family);
+    }
+    callback(null, address, family);
+  });
+}
+
+function postWebhook(url: string, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup as typeof lookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (res) => {
+      // Redirects are not followed; they could point anywhere
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POST an execution result to the owner's webhooks
+ * Best effort: failures are logged and never affect execution. Only public
+ * addresses are contacted, whatever the URL's host resolves to.
+ */
+export async function notifyWebhooks(preferences: OwnerPreferences | undefined, payload: Record<string, unknown>): Promise<void> {
+  if (!preferences?.webhooks.length) return;
+
+  const body = JSON.stringify(payload, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+  await Promise.all(preferences.webhooks.map(async (url) => {
+    try {
+      if (!isPublicHost(new URL(url).hostname)) {
+        throw new Error('Webhook host is not public');
+      }
+      const status = await postWebhook(url, body);
+      if (status < 200 || status >= 300) {
+        logger.warn({ agentId: preferences.agentId, status }, 'Owner webhook rejected notification');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ agentId: preferences.agentId, error: errorMessage }, 'Owner webhook failed');
+    }
+  }));
+}
+
+export function createOwnerPreferencesStore(config: Config): OwnerPreferencesStore {
+  return new OwnerPreferencesStore(config);
+}
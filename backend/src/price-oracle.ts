@@ -0,0 +1,269 @@
+import {
+  decodeAbiParameters,
+  type Address,
+  type PublicClient,
+} from 'viem';
+import { StateViewABI, YellFiHookABI } from './abis/index.js';
+import { createChildLogger } from './logger.js';
+import { computePoolId, type PoolKey } from './pool-id.js';
+import { SEPOLIA_ADDRESSES, type Config } from './config.js';
+
+const logger = createChildLogger('price-oracle');
+
+// Prices are fixed-point: amount of currency1 (raw units) per 1 raw unit of currency0, scaled by 1e18
+export const PRICE_PRECISION = 10n ** 18n;
+
+const Q192 = 2n ** 192n;
+const BASIS_POINTS = 10000n;
+const SIGNAL_HISTORY_DEPTH = 50n;
+const MAX_LOCAL_OBSERVATIONS = 256;
+
+// YellFiHook SignalType.PRICE_IMPACT
+const PRICE_IMPACT_SIGNAL = 0;
+
+export interface PriceQuote {
+  price: bigint;
+  timestamp: number; // unix seconds
+  source: string;
+}
+
+export interface PriceObservation {
+  price: bigint;
+  timestamp: number; // unix seconds
+}
+
+/**
+ * Source of the current price for a v4 pool
+ */
+export interface PriceSource {
+  readonly name: string;
+  getPrice(poolKey: PoolKey): Promise<PriceQuote>;
+}
+
+/**
+ * Convert a v4 sqrtPriceX96 into a PRICE_PRECISION-scaled price of currency0 in currency1
+ */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): bigint {
+  return (sqrtPriceX96 * sqrtPriceX96 * PRICE_PRECISION) / Q192;
+}
+
+/**
+ * Signed change from reference to current price, in basis points
+ */
+export function priceChangeBps(reference: bigint, current: bigint): bigint {
+  if (reference === 0n) return 0n;
+  return ((current - reference) * BASIS_POINTS) / reference;
+}
+
+/**
+ * Price of currency0 in currency1 implied by a swap, scaled like PriceSource prices
+ */
+export function swapPrice(poolKey: PoolKey, tokenIn: Address, amountIn: bigint, amountOut: bigint): bigint | null {
+  if (amountIn === 0n || amountOut === 0n) return null;
+  return tokenIn.toLowerCase() === poolKey.currency0.toLowerCase()
+    ? (amountOut * PRICE_PRECISION) / amountIn
+    : (amountIn * PRICE_PRECISION) / amountOut;
+}
+
+/**
+ * Time-weighted average of observations over [now - windowSeconds, now]
+ * Each observation holds until the next one; an observation taken before the
+ * window start counts from the window start. Returns null if nothing is known.
+ */
+export function computeTwap(
+  observations: PriceObservation[],
+  windowSeconds: number,
+  now: number
+): bigint | null {
+  const sorted = observations
+    .filter((o) => o.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) return null;
+
+  const windowStart = now - windowSeconds;
+
+  // Drop everything superseded before the window opened
+  let firstIndex = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].timestamp <= windowStart) firstIndex = i;
+  }
+  const relevant = sorted.slice(firstIndex);
+
+  let weightedSum = 0n;
+  let totalWeight = 0n;
+  for (let i = 0; i < relevant.length; i++) {
+    const start = Math.max(relevant[i].timestamp, windowStart);
+    const end = i + 1 < relevant.length ? relevant[i + 1].timestamp : now;
+    const weight = BigInt(Math.max(end - start, 0));
+    weightedSum += relevant[i].price * weight;
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0n) return relevant[relevant.length - 1].price;
+  return weightedSum / totalWeight;
+}
+
+/**
+ * Spot price from the Uniswap v4 StateView slot0
+ */
+export class StateViewPriceSource implements PriceSource {
+  readonly name = 'stateview';
+  private client: PublicClient;
+  private stateViewAddress: Address;
+
+  constructor(client: PublicClient, stateViewAddress: Address = SEPOLIA_ADDRESSES.stateView) {
+    this.client = client;
+    this.stateViewAddress = stateViewAddress;
+  }
+
+  async getPrice(poolKey: PoolKey): Promise<PriceQuote> {
+    const poolId = computePoolId(poolKey);
+    const [sqrtPriceX96] = await this.client.readContract({
+      address: this.stateViewAddress,
+      abi: StateViewABI,
+      functionName: 'getSlot0',
+      args: [poolId],
+    });
+
+    if (sqrtPriceX96 === 0n) {
+      throw new Error(`Pool ${poolId} is not initialized`);
+    }
+
+    return {
+      price: sqrtPriceX96ToPrice(sqrtPriceX96),
+      timestamp: Math.floor(Date.now() / 1000),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * TWAP built from YellFiHook signal history plus locally sampled spot prices
+ *
+ * PRICE_IMPACT signals contribute an observation when their additionalData
+ * carries an abi-encoded sqrtPriceX96. Every call also samples the spot source,
+ * so the average converges once the keeper has been running for a window.
+ */
+export class TwapPriceSource implements PriceSource {
+  readonly name = 'twap';
+  private client: PublicClient;
+  private hookAddress: Address;
+  private spot: PriceSource;
+  private windowSeconds: number;
+  private localObservations: Map<string, PriceObservation[]> = new Map();
+
+  constructor(
+    client: PublicClient,
+    hookAddress: Address,
+    spot: PriceSource,
+    windowSeconds: number
+  ) {
+    this.client = client;
+    this.hookAddress = hookAddress;
+    this.spot = spot;
+    this.windowSeconds = windowSeconds;
+  }
+
+  async getPrice(poolKey: PoolKey): Promise<PriceQuote> {
+    const poolId = computePoolId(poolKey);
+    const spotQuote = await this.spot.getPrice(poolKey);
+    this.recordObservation(poolId, { price: spotQuote.price, timestamp: spotQuote.timestamp });
+
+    const signalObservations = await this.getSignalObservations(poolId);
+    const observations = [...signalObservations, ...(this.localObservations.get(poolId) || [])];
+    const twap = computeTwap(observations, this.windowSeconds, spotQuote.timestamp);
+
+    return {
+      price: twap ?? spotQuote.price,
+      timestamp: spotQuote.timestamp,
+      source: this.name,
+    };
+  }
+
+  private recordObservation(poolId: string, observation: PriceObservation): void {
+    const windowStart = observation.timestamp - this.windowSeconds;
+    const existing = this.localObservations.get(poolId) || [];
+
+    // Keep the newest observation older than the window: it anchors the window start
+    let anchorIndex = 0;
+    for (let i = 0; i < existing.length; i++) {
+      if (existing[i].timestamp <= windowStart) anchorIndex = i;
+    }
+    const kept = existing.slice(anchorIndex);
+    kept.push(observation);
+
+    this.localObservations.set(poolId, kept.slice(-MAX_LOCAL_OBSERVATIONS));
+  }
+
+  private async getSignalObservations(poolId: `0x${string}`): Promise<PriceObservation[]> {
+    if (this.hookAddress === '0x0000000000000000000000000000000000000000') return [];
+
+    try {
+      const history = await this.client.readContract({
+        address: this.hookAddress,
+        abi: YellFiHookABI,
+        functionName: 'getSignalHistory',
+        args: [poolId, SIGNAL_HISTORY_DEPTH],
+      });
+
+      const observations: PriceObservation[] = [];
+      for (const signal of history) {
+        if (signal.signalType !== PRICE_IMPACT_SIGNAL) continue;
+        if (signal.additionalData.length !== 66) continue; // 0x + one 32-byte word
+
+        const [sqrtPriceX96] = decodeAbiParameters([{ type: 'uint160' }], signal.additionalData);
+        observations.push({
+          price: sqrtPriceX96ToPrice(sqrtPriceX96),
+          timestamp: Number(signal.timestamp),
+        });
+      }
+      return observations;
+    } catch (error) {
+      logger.debug({ error, poolId }, 'Failed to read signal history, using local observations only');
+      return [];
+    }
+  }
+}
+
+/**
+ * Fixed price feed for tests and local runs
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'static';
+  private prices: Map<string, bigint> = new Map();
+  private defaultPrice?: bigint;
+
+  constructor(defaultPrice?: bigint) {
+    this.defaultPrice = defaultPrice;
+  }
+
+  setPrice(poolKey: PoolKey, price: bigint): void {
+    this.prices.set(computePoolId(poolKey), price);
+  }
+
+  async getPrice(poolKey: PoolKey): Promise<PriceQuote> {
+    const price = this.prices.get(computePoolId(poolKey)) ?? this.defaultPrice;
+    if (price === undefined) {
+      throw new Error('No static price configured for pool');
+    }
+
+    return {
+      price,
+      timestamp: Math.floor(Date.now() / 1000),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * Create the price source selected by config
+ */
+export function createPriceSource(config: Config, client: PublicClient): PriceSource {
+  const spot = new StateViewPriceSource(client, config.stateViewAddress);
+
+  if (config.priceSource === 'twap') {
+    return new TwapPriceSource(client, config.yellFiHookAddress, spot, config.twapWindowSeconds);
+  }
+
+  return spot;
+}
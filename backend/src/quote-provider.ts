@@ -0,0 +1,86 @@
+import { type Address, type PublicClient } from 'viem';
+import { V4QuoterABI } from './abis/index.js';
+import { createChildLogger } from './logger.js';
+import { computePoolId, DYNAMIC_FEE_FLAG, type PoolKey } from './pool-id.js';
+import { SEPOLIA_ADDRESSES, type Config } from './config.js';
+
+const logger = createChildLogger('quote-provider');
+
+const FEE_DENOMINATOR = 1_000_000n; // v4 fees are in hundredths of a bip
+const MAX_UINT128 = 2n ** 128n - 1n;
+
+export interface ExactInputQuote {
+  amountOut: bigint;
+  gasEstimate: bigint;
+  source: string;
+}
+
+/**
+ * Quotes exact-input swaps on a single v4 pool
+ */
+export interface QuoteProvider {
+  readonly name: string;
+  quoteExactInput(poolKey: PoolKey, zeroForOne: boolean, amountIn: bigint): Promise<ExactInputQuote>;
+}
+
+/**
+ * Quotes from the Uniswap v4 Quoter
+ * The Quoter reverts internally to return results, so it is called via eth_call
+ */
+export class V4QuoterProvider implements QuoteProvider {
+  readonly name = 'v4-quoter';
+  private client: PublicClient;
+  private quoterAddress: Address;
+
+  constructor(client: PublicClient, quoterAddress: Address = SEPOLIA_ADDRESSES.quoter) {
+    this.client = client;
+    this.quoterAddress = quoterAddress;
+  }
+
+  async quoteExactInput(poolKey: PoolKey, zeroForOne: boolean, amountIn: bigint): Promise<ExactInputQuote> {
+    if (amountIn <= 0n || amountIn > MAX_UINT128) {
+      throw new Error(`Quote amount ${amountIn} out of range`);
+    }
+
+    try {
+      const { result } = await this.client.simulateContract({
+        address: this.quoterAddress,
+        abi: V4QuoterABI,
+        functionName: 'quoteExactInputSingle',
+        args: [{ poolKey, zeroForOne, exactAmount: amountIn, hookData: '0x' }],
+      });
+      const [amountOut, gasEstimate] = result;
+
+      return { amountOut, gasEstimate, source: this.name };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        { poolId: computePoolId(poolKey), zeroForOne, amountIn: amountIn.toString(), error: errorMessage },
+        'Quoter call failed'
+      );
+      throw error;
+    }
+  }
+}
+
+/**
+ * Simulated quotes at a 1:1 price less the pool fee, for tests and local runs
+ */
+export class SimulatedQuoteProvider implements QuoteProvider {
+  readonly name = 'simulated';
+
+  async quoteExactInput(poolKey: PoolKey, _zeroForOne: boolean, amountIn: bigint): Promise<ExactInputQuote> {
+    // Dynamic fee pools have no static fee to simulate
+    const fee = poolKey.fee === DYNAMIC_FEE_FLAG ? 0n : BigInt(poolKey.fee);
+    const amountOut = amountIn - (amountIn * fee) / FEE_DENOMINATOR;
+
+    return { amountOut, gasEstimate: 150000n, source: this.name };
+  }
+}
+
+/**
+ * Create the quote provider for live execution
+ */
+export function createQuoteProvider(config: Config, client: PublicClient): QuoteProvider {
+  return new V4QuoterProvider(client, config.quoterAddress);
+}
@@ -0,0 +1,184 @@
+import { encodeAbiParameters, parseAbiParameters, type Address } from 'viem';
+import { createChildLogger } from './logger.js';
+import { computePoolId, type PoolKey } from './pool-id.js';
+import type { QuoteProvider } from './quote-provider.js';
+
+const logger = createChildLogger('router');
+
+export const DEFAULT_MAX_HOPS = 3;
+
+export interface RouteHop {
+  poolKey: PoolKey;
+  tokenIn: Address;
+  tokenOut: Address;
+  zeroForOne: boolean;
+}
+
+export interface QuotedRoute {
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  source: string;
+}
+
+/**
+ * Finds the best exact-input route through a graph of v4 pools
+ *
+ * Every pool in the graph is an edge between its two currencies. Paths never
+ * revisit a token, and every candidate is quoted hop by hop so the winner is
+ * chosen by real output rather than by fee tier.
+ */
+export class Router {
+  private quoteProvider: QuoteProvider;
+  private pools: PoolKey[];
+  private maxHops: number;
+
+  constructor(quoteProvider: QuoteProvider, pools: PoolKey[] = [], maxHops = DEFAULT_MAX_HOPS) {
+    this.quoteProvider = quoteProvider;
+    this.pools = pools;
+    this.maxHops = maxHops;
+  }
+
+  /**
+   * Enumerate paths of 1..maxHops pools from tokenIn to tokenOut, shortest first
+   * extraPools (e.g. the agent's own pool) are added to the configured graph
+   */
+  findPaths(tokenIn: Address, tokenOut: Address, extraPools: PoolKey[] = []): RouteHop[][] {
+    const pools = dedupePools([...extraPools, ...this.pools]);
+    const paths: RouteHop[][] = [];
+
+    const walk = (token: Address, visited: Set<string>, hops: RouteHop[]) => {
+      if (hops.length > 0 && sameToken(token, tokenOut)) {
+        paths.push(hops);
+        return;
+      }
+      if (hops.length === this.maxHops) return;
+
+      for (const poolKey of pools) {
+        const hop = hopFrom(poolKey, token);
+        if (!hop || visited.has(hop.tokenOut.toLowerCase())) continue;
+
+        visited.add(hop.tokenOut.toLowerCase());
+        walk(hop.tokenOut, visited, [...hops, hop]);
+        visited.delete(hop.tokenOut.toLowerCase());
+      }
+    };
+
+    walk(tokenIn, new Set([tokenIn.toLowerCase()]), []);
+    return paths.sort((a, b) => a.length - b.length);
+  }
+
+  /**
+   * Quote a path hop by hop, feeding each hop's output into the next
+   */
+  async quotePath(hops: RouteHop[], amountIn: bigint): Promise<QuotedRoute> {
+    if (hops.length === 0) {
+      throw new Error('Route has no hops');
+    }
+
+    let amount = amountIn;
+    let gasEstimate = 0n;
+    let source = this.quoteProvider.name;
+    for (const hop of hops) {
+      const quote = await this.quoteProvider.quoteExactInput(hop.poolKey, hop.zeroForOne, amount);
+      amount = quote.amountOut;
+      gasEstimate += quote.gasEstimate;
+      source = quote.source;
+      if (amount === 0n) break;
+    }
+
+    return { hops, amountIn, amountOut: amount, gasEstimate, source };
+  }
+
+  /**
+   * Quote every candidate path and return the one with the highest output
+   * Ties go to the shorter path; throws if no path can be quoted
+   */
+  async findBestRoute(
+    tokenIn: Address,
+    tokenOut: Address,
+    amountIn: bigint,
+    extraPools: PoolKey[] = []
+  ): Promise<QuotedRoute> {
+    const paths = this.findPaths(tokenIn, tokenOut, extraPools);
+    if (paths.length === 0) {
+      throw new Error(`No route from ${tokenIn} to ${tokenOut}`);
+    }
+
+    const results = await Promise.allSettled(paths.map((hops) => this.quotePath(hops, amountIn)));
+
+    let best: QuotedRoute | null = null;
+    let lastError: unknown = null;
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        lastError = result.reason;
+        continue;
+      }
+      if (!best || result.value.amountOut > best.amountOut) {
+        best = result.value;
+      }
+    }
+
+    if (!best || best.amountOut === 0n) {
+      const errorMessage = lastError instanceof Error ? lastError.message : 'no output on any path';
+      throw new Error(`No quotable route from ${tokenIn} to ${tokenOut}: ${errorMessage}`);
+    }
+
+    logger.info(
+      {
+        tokenIn,
+        tokenOut,
+        candidates: paths.length,
+        hops: best.hops.length,
+        path: [tokenIn, ...best.hops.map((hop) => hop.tokenOut)],
+        amountOut: best.amountOut.toString(),
+      },
+      'Route selected'
+    );
+
+    return best;
+  }
+}
+
+/**
+ * Encode a route as the adapter's routeData: (address[] path, uint24[] fees, int24[] tickSpacings, address[] hooks)
+ * Each hop carries its pool's full key, so the adapter swaps on exactly the pool quoted
+ */
+export function encodeRouteData(hops: RouteHop[]): `0x${string}` {
+  const path = hops.length > 0 ? [hops[0].tokenIn, ...hops.map((hop) => hop.tokenOut)] : [];
+
+  return encodeAbiParameters(
+    parseAbiParameters('address[] path, uint24[] fees, int24[] tickSpacings, address[] hooks'),
+    [
+      path,
+      hops.map((hop) => hop.poolKey.fee),
+      hops.map((hop) => hop.poolKey.tickSpacing),
+      hops.map((hop) => hop.poolKey.hooks),
+    ]
+  );
+}
+
+function hopFrom(poolKey: PoolKey, token: Address): RouteHop | null {
+  if (sameToken(token, poolKey.currency0)) {
+    return { poolKey, tokenIn: poolKey.currency0, tokenOut: poolKey.currency1, zeroForOne: true };
+  }
+  if (sameToken(token, poolKey.currency1)) {
+    return { poolKey, tokenIn: poolKey.currency1, tokenOut: poolKey.currency0, zeroForOne: false };
+  }
+  return null;
+}
+
+function dedupePools(pools: PoolKey[]): PoolKey[] {
+  const seen = new Set<string>();
+  return pools.filter((poolKey) => {
+    const poolId = computePoolId(poolKey);
+    if (seen.has(poolId)) return false;
+    seen.add(poolId);
+    return true;
+  });
+}
+
+function sameToken(a: Address, b: Address): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
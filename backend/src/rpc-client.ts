@@ -1,6 +1,7 @@
-import { createPublicClient, http, fallback, type PublicClient } from 'viem';
-import { sepolia } from 'viem/chains';
+import { createPublicClient, http, fallback, type PublicClient, type Transport } from 'viem';
 import { createChildLogger } from './logger.js';
+import { metrics } from './metrics.js';
+import { resolveChain } from './chains.js';
 import type { Config } from './config.js';
 
 const logger = createChildLogger('rpc-client');
@@ -10,8 +11,8 @@ const logger = createChildLogger('rpc-client');
  */
 export function createRobustPublicClient(config: Config): PublicClient {
   // Create transports for each RPC URL with retry logic
-  const transports = config.rpcUrls.map((url, index) => {
-    return http(url, {
+  const transports = config.rpcUrls.map((url) => {
+    return instrument(url, http(url, {
       retryCount: 3,
       retryDelay: 1000,
       timeout: 30000,
@@ -23,13 +24,13 @@ export function createRobustPublicClient(config: Config): PublicClient {
           logger.warn({ url, status: response.status }, 'RPC response error, will try fallback');
         }
       },
-    });
+    }));
   });
 
   logger.info({ rpcCount: config.rpcUrls.length }, 'Initializing RPC client with fallback support');
 
   return createPublicClient({
-    chain: sepolia,
+    chain: resolveChain(config),
     transport: fallback(transports, {
       rank: true, // Automatically rank RPCs by latency
       retryCount: 3,
@@ -38,6 +39,33 @@ export function createRobustPublicClient(config: Config): PublicClient {
   });
 }
 
+/**
+ * Count and time every request sent through a transport
+ * Endpoints are labelled by origin so API keys in URL paths stay out of metrics
+ */
+function instrument(url: string, transport: Transport): Transport {
+  const endpoint = new URL(url).origin;
+
+  return (params) => {
+    const base = transport(params);
+    const request = (async (args, options) => {
+      const start = performance.now();
+      try {
+        const result = await base.request(args, options);
+        metrics.rpcRequests.inc({ endpoint, method: args.method, status: 'ok' });
+        return result;
+      } catch (error) {
+        metrics.rpcRequests.inc({ endpoint, method: args.method, status: 'error' });
+        throw error;
+      } finally {
+        metrics.rpcLatency.observe({ endpoint }, (performance.now() - start) / 1000);
+      }
+    }) as typeof base.request;
+
+    return { ...base, request };
+  };
+}
+
 /**
  * Utility to execute RPC calls with retry and fallback
  */
@@ -79,7 +107,6 @@ export async function checkRpcHealth(rpcUrls: string[]): Promise<{ url: string;
       const start = Date.now();
       try {
         const client = createPublicClient({
-          chain: sepolia,
           transport: http(url, { timeout: 5000 }),
         });
         await client.getBlockNumber();
@@ -4,10 +4,20 @@ import {
   formatEther,
 } from 'viem';
 import { StrategyAgentABI, YellFiHookABI } from './abis/index.js';
+import { createEntryPriceStore, type EntryPriceStore } from './entry-prices.js';
 import { createChildLogger } from './logger.js';
 import { createRobustPublicClient } from './rpc-client.js';
+import { type PoolKey } from './pool-id.js';
+import { AgentSnapshotLoader, type AgentSnapshot } from './agent-snapshot.js';
+import {
+  createPriceSource,
+  priceChangeBps,
+  type PriceQuote,
+  type PriceSource,
+} from './price-oracle.js';
 import type { Config } from './config.js';
 import type { HookSignal } from './event-listener.js';
+import type { OwnerPreferencesReader } from './owner-preferences.js';
 
 const logger = createChildLogger('rule-evaluator');
 
@@ -58,25 +68,59 @@ export interface Rule {
 export interface AgentConfig {
   owner: Address;
   ensName: string;
-  poolKey: {
-    currency0: Address;
-    currency1: Address;
-    fee: number;
-    tickSpacing: number;
-    hooks: Address;
-  };
+  poolKey: PoolKey;
   status: number;
   depositedAmount: bigint;
   createdAt: bigint;
   lastActivity: bigint;
 }
 
+/**
+ * Why a rule did or did not fire, without the live values quoted in the reason
+ */
+export type ReasonCode =
+  | 'AGENT_INACTIVE'
+  | 'RULE_DISABLED'
+  | 'PAUSED_BY_OWNER'
+  | 'COOLDOWN'
+  | 'UNKNOWN_RULE_TYPE'
+  | 'NO_SIGNAL'
+  | 'SIGNAL_MISMATCH'
+  | 'PRICE_UNAVAILABLE'
+  | 'TRIGGERED'
+  | 'NOT_TRIGGERED';
+
 export interface EvaluationResult {
   agentId: bigint;
   ruleIndex: number;
   shouldExecute: boolean;
   reason: string;
+  code?: ReasonCode; // stays the same while prices and timers move
   signal?: HookSignal;
+  details?: EvaluationDetails;
+}
+
+/**
+ * The inputs behind an evaluation's reason, for /api/agents/:id/evaluation
+ */
+export interface EvaluationDetails {
+  ruleType?: string;
+  enabled?: boolean;
+  threshold?: bigint;
+  targetValue?: bigint;
+  canExecute?: boolean; // the contract's cooldown and enabled check
+  cooldownRemainingSeconds?: number; // 0 once elapsed
+  signal?: {
+    signalType: number;
+    magnitude: bigint;
+    ageSeconds: number;
+  } | null; // null when the pool has no signal yet
+  price?: {
+    current: bigint;
+    entry: bigint;
+    changeBps: number;
+    source: string;
+  };
 }
 
 /**
@@ -85,23 +129,57 @@ export interface EvaluationResult {
 export class RuleEvaluator {
   private client: PublicClient;
   private config: Config;
+  private priceSource: PriceSource;
+  private snapshotLoader: AgentSnapshotLoader;
+  private entryPrices: EntryPriceStore;
+  private preferences: OwnerPreferencesReader | null = null;
 
-  constructor(config: Config) {
+  constructor(config: Config, priceSource?: PriceSource) {
     this.config = config;
     this.client = createRobustPublicClient(config);
+    this.priceSource = priceSource ?? createPriceSource(config, this.client);
+    this.snapshotLoader = new AgentSnapshotLoader(config, this.client);
+    this.entryPrices = createEntryPriceStore(config);
+  }
+
+  /**
+   * Load entry prices saved before a restart
+   */
+  async init(): Promise<void> {
+    await this.entryPrices.init();
+  }
+
+  /**
+   * Leave rules their owners paused off-chain unevaluated
+   */
+  usePreferences(preferences: OwnerPreferencesReader): void {
+    this.preferences = preferences;
+  }
+
+  /**
+   * Load batched state snapshots for agents
+   */
+  async loadSnapshots(agentIds: bigint[]): Promise<AgentSnapshot[]> {
+    return this.snapshotLoader.load(agentIds);
   }
 
   /**
    * Evaluate all rules for an agent
    */
   async evaluateAgent(agentId: bigint): Promise<EvaluationResult[]> {
+    const [snapshot] = await this.snapshotLoader.loadPage([agentId]);
+    if (!snapshot) return [];
+    return this.evaluateSnapshot(snapshot);
+  }
+
+  /**
+   * Evaluate all rules for an agent from a loaded snapshot
+   */
+  async evaluateSnapshot(snapshot: AgentSnapshot): Promise<EvaluationResult[]> {
     const results: EvaluationResult[] = [];
+    const { agentId, agent, rules, poolId, latestSignal } = snapshot;
 
     try {
-      const [agent, rules] = await Promise.all([
-        this.getAgent(agentId),
-        this.getRules(agentId),
-      ]);
 
       logger.info({
         agentId: agentId.toString(),
@@ -117,13 +195,16 @@ export class RuleEvaluator {
           agentId: agentId.toString(),
           status: AgentStatusNames[agent.status] || agent.status,
         }, 'Agent not active, skipping');
-        return results;
+        return rules.map((rule, i) => ({
+          agentId,
+          ruleIndex: i,
+          shouldExecute: false,
+          reason: `Agent ${AgentStatusNames[agent.status] || agent.status}`,
+          code: 'AGENT_INACTIVE',
+          details: describeRule(rule, snapshot.canExecute[i], latestSignal),
+        }));
       }
 
-      // Get latest signal for the pool
-      const poolId = this.computePoolId(agent.poolKey);
-      const latestSignal = await this.getLatestSignal(poolId);
-
       logger.debug({
         agentId: agentId.toString(),
         poolId,
@@ -144,12 +225,27 @@ export class RuleEvaluator {
           lastExecuted: rule.lastExecuted === 0n ? 'Never' : new Date(Number(rule.lastExecuted) * 1000).toISOString(),
         }, 'Checking rule');
 
+        const details = describeRule(rule, snapshot.canExecute[i], latestSignal);
+
         if (!rule.enabled) {
           logger.debug({ agentId: agentId.toString(), ruleIndex: i }, 'Rule disabled, skipping');
+          results.push({ agentId, ruleIndex: i, shouldExecute: false, reason: 'Rule disabled', code: 'RULE_DISABLED', details });
+          continue;
+        }
+
+        if (this.preferences?.get(this.config.chainId, agentId)?.pausedRules.includes(i)) {
+          results.push({
+            agentId,
+            ruleIndex: i,
+            shouldExecute: false,
+            reason: 'Paused by owner',
+            code: 'PAUSED_BY_OWNER',
+            details,
+          });
           continue;
         }
 
-        const canExecute = await this.canExecuteRule(agentId, BigInt(i));
+        const canExecute = snapshot.canExecute[i];
         logger.info({
           agentId: agentId.toString(),
           ruleIndex: i,
@@ -162,6 +258,8 @@ export class RuleEvaluator {
             ruleIndex: i,
             shouldExecute: false,
             reason: 'Cooldown not elapsed',
+            code: 'COOLDOWN',
+            details,
           });
           continue;
         }
@@ -182,7 +280,7 @@ export class RuleEvaluator {
           reason: evaluation.reason,
         }, 'Rule evaluation result');
 
-        results.push(evaluation);
+        results.push({ ...evaluation, details: { ...details, ...evaluation.details } });
       }
     } catch (error) {
       logger.error({ error, agentId: agentId.toString() }, 'Error evaluating agent');
@@ -215,10 +313,10 @@ export class RuleEvaluator {
         return this.evaluateTimeWeighted(baseResult, rule);
 
       case RuleType.STOP_LOSS:
-        return this.evaluateStopLoss(baseResult, rule, signal);
+        return this.evaluateStopLoss(baseResult, rule, agent);
 
       case RuleType.TAKE_PROFIT:
-        return this.evaluateTakeProfit(baseResult, rule, signal);
+        return this.evaluateTakeProfit(baseResult, rule, agent);
 
       case RuleType.CUSTOM_HOOK_SIGNAL:
         return this.evaluateHookSignal(baseResult, rule, signal);
@@ -228,6 +326,7 @@ export class RuleEvaluator {
           ...baseResult,
           shouldExecute: false,
           reason: 'Unknown rule type',
+          code: 'UNKNOWN_RULE_TYPE',
         };
     }
   }
@@ -238,7 +337,7 @@ export class RuleEvaluator {
     signal: HookSignal | null
   ): EvaluationResult {
     if (!signal) {
-      return { ...baseResult, shouldExecute: false, reason: 'No signal available' };
+      return { ...baseResult, shouldExecute: false, reason: 'No signal available', code: 'NO_SIGNAL' };
     }
 
     // Check if price impact exceeds threshold
@@ -247,13 +346,14 @@ export class RuleEvaluator {
       return {
         ...baseResult,
         shouldExecute,
+        code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
         reason: shouldExecute
           ? `Price impact ${signal.magnitude} >= threshold ${rule.threshold}`
           : `Price impact ${signal.magnitude} < threshold ${rule.threshold}`,
       };
     }
 
-    return { ...baseResult, shouldExecute: false, reason: 'No price impact signal' };
+    return { ...baseResult, shouldExecute: false, reason: 'No price impact signal', code: 'SIGNAL_MISMATCH' };
   }
 
   private evaluateTimeWeighted(
@@ -280,48 +380,100 @@ export class RuleEvaluator {
     return {
       ...baseResult,
       shouldExecute,
+      code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
       reason: shouldExecute
         ? `Time interval ${timeSinceLastExecution}s >= cooldown ${rule.cooldown}s - READY`
         : `Time interval ${timeSinceLastExecution}s < cooldown ${rule.cooldown}s - waiting ${rule.cooldown - timeSinceLastExecution}s`,
     };
   }
 
-  private evaluateStopLoss(
+  /**
+   * Stop loss: targetValue > 0 is a price floor, otherwise threshold is the
+   * maximum drawdown from entry price in basis points
+   */
+  private async evaluateStopLoss(
     baseResult: Omit<EvaluationResult, 'shouldExecute' | 'reason'>,
     rule: Rule,
-    signal: HookSignal | null
-  ): EvaluationResult {
-    if (!signal) {
-      return { ...baseResult, shouldExecute: false, reason: 'No signal available' };
+    agent: AgentConfig
+  ): Promise<EvaluationResult> {
+    const prices = await this.getPositionPrices(baseResult.agentId, agent);
+    if (!prices) {
+      return { ...baseResult, shouldExecute: false, reason: 'Price unavailable', code: 'PRICE_UNAVAILABLE' };
     }
 
-    // Trigger stop loss on significant negative price movement
-    if (signal.signalType === SignalType.PRICE_IMPACT && signal.magnitude >= rule.threshold) {
+    const { current, entryPrice } = prices;
+    const changeBps = priceChangeBps(entryPrice, current.price);
+    const details = {
+      price: { current: current.price, entry: entryPrice, changeBps: Number(changeBps), source: current.source },
+    };
+
+    if (rule.targetValue > 0n) {
+      const shouldExecute = current.price <= rule.targetValue;
       return {
         ...baseResult,
-        shouldExecute: true,
-        reason: `Stop loss triggered: magnitude ${signal.magnitude} >= threshold ${rule.threshold}`,
+        shouldExecute,
+        details,
+        code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
+        reason: shouldExecute
+          ? `Stop loss triggered: price ${current.price} <= target ${rule.targetValue}`
+          : `Price ${current.price} above stop ${rule.targetValue}`,
       };
     }
 
-    return { ...baseResult, shouldExecute: false, reason: 'Stop loss not triggered' };
+    const shouldExecute = -changeBps >= rule.threshold;
+    return {
+      ...baseResult,
+      shouldExecute,
+      details,
+      code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
+      reason: shouldExecute
+        ? `Stop loss triggered: price moved ${changeBps}bps from entry ${entryPrice}, limit -${rule.threshold}bps`
+        : `Price moved ${changeBps}bps from entry ${entryPrice}, limit -${rule.threshold}bps`,
+    };
   }
 
-  private evaluateTakeProfit(
+  /**
+   * Take profit: targetValue > 0 is a price target, otherwise threshold is the
+   * required gain over entry price in basis points
+   */
+  private async evaluateTakeProfit(
     baseResult: Omit<EvaluationResult, 'shouldExecute' | 'reason'>,
     rule: Rule,
-    signal: HookSignal | null
-  ): EvaluationResult {
-    // Take profit logic would check if position value exceeds target
-    // Simplified: trigger on any significant positive movement
-    if (!signal) {
-      return { ...baseResult, shouldExecute: false, reason: 'No signal available' };
+    agent: AgentConfig
+  ): Promise<EvaluationResult> {
+    const prices = await this.getPositionPrices(baseResult.agentId, agent);
+    if (!prices) {
+      return { ...baseResult, shouldExecute: false, reason: 'Price unavailable', code: 'PRICE_UNAVAILABLE' };
     }
 
+    const { current, entryPrice } = prices;
+    const changeBps = priceChangeBps(entryPrice, current.price);
+    const details = {
+      price: { current: current.price, entry: entryPrice, changeBps: Number(changeBps), source: current.source },
+    };
+
+    if (rule.targetValue > 0n) {
+      const shouldExecute = current.price >= rule.targetValue;
+      return {
+        ...baseResult,
+        shouldExecute,
+        details,
+        code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
+        reason: shouldExecute
+          ? `Take profit triggered: price ${current.price} >= target ${rule.targetValue}`
+          : `Price ${current.price} below target ${rule.targetValue}`,
+      };
+    }
+
+    const shouldExecute = changeBps >= rule.threshold;
     return {
       ...baseResult,
-      shouldExecute: false,
-      reason: 'Take profit evaluation requires price oracle',
+      shouldExecute,
+      details,
+      code: shouldExecute ? 'TRIGGERED' : 'NOT_TRIGGERED',
+      reason: shouldExecute
+        ? `Take profit triggered: price moved +${changeBps}bps from entry ${entryPrice}, target +${rule.threshold}bps`
+        : `Price moved ${changeBps}bps from entry ${entryPrice}, target +${rule.threshold}bps`,
     };
   }
 
@@ -331,7 +483,7 @@ export class RuleEvaluator {
     signal: HookSignal | null
   ): EvaluationResult {
     if (!signal) {
-      return { ...baseResult, shouldExecute: false, reason: 'No signal available' };
+      return { ...baseResult, shouldExecute: false, reason: 'No signal available', code: 'NO_SIGNAL' };
     }
 
     // Check if signal type matches and magnitude exceeds threshold
@@ -340,6 +492,7 @@ export class RuleEvaluator {
       return {
         ...baseResult,
         shouldExecute: true,
+        code: 'TRIGGERED',
         reason: `Hook signal ${signal.signalType} with magnitude ${signal.magnitude} triggered`,
       };
     }
@@ -347,10 +500,49 @@ export class RuleEvaluator {
     return {
       ...baseResult,
       shouldExecute: false,
+      code: 'SIGNAL_MISMATCH',
       reason: `Signal type ${signal.signalType} != target ${targetSignalType} or magnitude too low`,
     };
   }
 
+  /**
+   * Current pool price and the agent's entry price
+   * The entry is the price of the agent's last fill; until it has one, the first
+   * price the keeper read for it
+   */
+  private async getPositionPrices(
+    agentId: bigint,
+    agent: AgentConfig
+  ): Promise<{ current: PriceQuote; entryPrice: bigint } | null> {
+    try {
+      const current = await this.priceSource.getPrice(agent.poolKey);
+      let entry = this.entryPrices.get(agentId);
+      if (!entry) {
+        this.entryPrices.set(agentId, current.price, 'first-seen');
+        entry = this.entryPrices.get(agentId)!;
+        logger.info({
+          agentId: agentId.toString(),
+          entryPrice: current.price.toString(),
+          source: current.source,
+        }, 'Entry price recorded');
+      }
+
+      return { current, entryPrice: entry.price };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ agentId: agentId.toString(), error: errorMessage }, 'Failed to read pool price');
+      return null;
+    }
+  }
+
+  /**
+   * Re-base an agent's percentage rules at the price of a fill
+   */
+  setEntryPrice(agentId: bigint, price: bigint): void {
+    this.entryPrices.set(agentId, price, 'fill');
+    logger.info({ agentId: agentId.toString(), entryPrice: price.toString() }, 'Entry price set from fill');
+  }
+
   /**
    * Get agent configuration from contract
    */
@@ -431,17 +623,28 @@ export class RuleEvaluator {
 
     return result as bigint;
   }
+}
 
-  /**
-   * Compute pool ID from pool key
-   */
-  private computePoolId(poolKey: AgentConfig['poolKey']): `0x${string}` {
-    // Simplified pool ID computation
-    // In production, use proper keccak256 of packed pool key
-    return `0x${'0'.repeat(64)}` as `0x${string}`;
-  }
+/**
+ * Rule inputs shared by every rule type: cooldown and the pool's latest signal
+ */
+function describeRule(rule: Rule, canExecute: boolean, signal: HookSignal | null): EvaluationDetails {
+  const now = Math.floor(Date.now() / 1000);
+  const nextExecution = Number(rule.lastExecuted + rule.cooldown);
+
+  return {
+    ruleType: RuleTypeNames[rule.ruleType] || `Unknown(${rule.ruleType})`,
+    enabled: rule.enabled,
+    threshold: rule.threshold,
+    targetValue: rule.targetValue,
+    canExecute,
+    cooldownRemainingSeconds: Math.max(nextExecution - now, 0),
+    signal: signal
+      ? { signalType: signal.signalType, magnitude: signal.magnitude, ageSeconds: Math.max(now - Number(signal.timestamp), 0) }
+      : null,
+  };
 }
 
-export function createRuleEvaluator(config: Config): RuleEvaluator {
-  return new RuleEvaluator(config);
+export function createRuleEvaluator(config: Config, priceSource?: PriceSource): RuleEvaluator {
+  return new RuleEvaluator(config, priceSource);
 }
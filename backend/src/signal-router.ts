@@ -0,0 +1,133 @@
+import { type PublicClient } from 'viem';
+import { YellFiHookABI } from './abis/index.js';
+import { createChildLogger } from './logger.js';
+import { computePoolId } from './pool-id.js';
+import { createRobustPublicClient } from './rpc-client.js';
+import type { Config } from './config.js';
+import type { AgentConfig } from './rule-evaluator.js';
+
+const logger = createChildLogger('signal-router');
+
+// How long hook subscriber lists are reused before re-reading
+const SUBSCRIBER_CACHE_TTL_MS = 60_000;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Reads agent configuration; implemented by RuleEvaluator
+ */
+export interface AgentReader {
+  getAgent(agentId: bigint): Promise<AgentConfig>;
+  getTotalAgents(): Promise<bigint>;
+}
+
+/**
+ * Maps hook signals to the agents trading the signalled pool
+ *
+ * Combines YellFiHook.getPoolSubscribers with a local poolId -> agents index
+ * built from existing agents at startup and AgentCreated events afterwards.
+ */
+export class SignalRouter {
+  private client: PublicClient;
+  private config: Config;
+  private agents: AgentReader;
+  private poolAgents: Map<string, Set<bigint>> = new Map();
+  private agentPools: Map<bigint, string> = new Map();
+  private subscriberCache: Map<string, { agentIds: bigint[]; fetchedAt: number }> = new Map();
+
+  constructor(config: Config, agents: AgentReader, client?: PublicClient) {
+    this.config = config;
+    this.agents = agents;
+    this.client = client ?? createRobustPublicClient(config);
+  }
+
+  /**
+   * Index every existing agent by pool
+   */
+  async warmup(): Promise<void> {
+    const totalAgents = await this.agents.getTotalAgents();
+    for (let agentId = 1n; agentId <= totalAgents; agentId++) {
+      await this.indexAgent(agentId);
+    }
+
+    logger.info(
+      { agents: this.agentPools.size, pools: this.poolAgents.size },
+      'Signal router index built'
+    );
+  }
+
+  /**
+   * Index a newly created agent (from an AgentCreated event)
+   */
+  async indexAgent(agentId: bigint): Promise<void> {
+    if (this.agentPools.has(agentId)) return;
+
+    try {
+      const agent = await this.agents.getAgent(agentId);
+      this.registerAgent(agentId, computePoolId(agent.poolKey));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ agentId: agentId.toString(), error: errorMessage }, 'Failed to index agent');
+    }
+  }
+
+  /**
+   * Record that an agent trades a pool
+   */
+  registerAgent(agentId: bigint, poolId: `0x${string}`): void {
+    const key = poolId.toLowerCase();
+    const previous = this.agentPools.get(agentId);
+    if (previous && previous !== key) {
+      this.poolAgents.get(previous)?.delete(agentId);
+    }
+
+    this.agentPools.set(agentId, key);
+    const agents = this.poolAgents.get(key) || new Set<bigint>();
+    agents.add(agentId);
+    this.poolAgents.set(key, agents);
+  }
+
+  /**
+   * Agents affected by a signal on a pool, in ascending id order
+   */
+  async getAgentsForPool(poolId: `0x${string}`): Promise<bigint[]> {
+    const key = poolId.toLowerCase();
+    const agentIds = new Set<bigint>(this.poolAgents.get(key) || []);
+
+    for (const agentId of await this.getHookSubscribers(poolId)) {
+      agentIds.add(agentId);
+    }
+
+    return Array.from(agentIds).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  private async getHookSubscribers(poolId: `0x${string}`): Promise<bigint[]> {
+    if (this.config.yellFiHookAddress === ZERO_ADDRESS) return [];
+
+    const key = poolId.toLowerCase();
+    const cached = this.subscriberCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < SUBSCRIBER_CACHE_TTL_MS) {
+      return cached.agentIds;
+    }
+
+    try {
+      const agentIds = await this.client.readContract({
+        address: this.config.yellFiHookAddress,
+        abi: YellFiHookABI,
+        functionName: 'getPoolSubscribers',
+        args: [poolId],
+      });
+
+      this.subscriberCache.set(key, { agentIds: [...agentIds], fetchedAt: Date.now() });
+      return [...agentIds];
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ poolId, error: errorMessage }, 'Failed to read hook subscribers, using local index');
+      return cached?.agentIds ?? [];
+    }
+  }
+}
+
+export function createSignalRouter(config: Config, agents: AgentReader): SignalRouter {
+  return new SignalRouter(config, agents);
+}
@@ -0,0 +1,218 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  bytesToHex,
+  concat,
+  formatTransactionRequest,
+  hexToBytes,
+  keccak256,
+  numberToHex,
+  serializeTypedData,
+  toHex,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type SignableMessage,
+  type TransactionRequest,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+
+/**
+ * Where a keeper key lives
+ * - private-key: raw key from the environment
+ * - keystore: version 3 JSON keystore (geth, foundry `cast wallet`) and its passphrase
+ * - remote: JSON-RPC signer over HTTP (eth_sign, eth_signTransaction, eth_signTypedData_v4),
+ *   e.g. Web3Signer; the key never enters this process
+ */
+export type SignerSpec =
+  | { kind: 'private-key'; privateKey: Hex }
+  | { kind: 'keystore'; path: string; passphrase: string }
+  | { kind: 'remote'; url: string; address: Address; authToken?: string };
+
+export type SignerKind = SignerSpec['kind'];
+
+// Remote signers answer within a block or the keeper treats them as down
+const REMOTE_SIGNER_TIMEOUT_MS = 10_000;
+
+/**
+ * Build the account a signer spec describes
+ * Keystores are decrypted here, so a wrong passphrase fails at load rather than at first use
+ */
+export function loadSigner(spec: SignerSpec): LocalAccount {
+  switch (spec.kind) {
+    case 'private-key':
+      return privateKeyToAccount(spec.privateKey);
+    case 'keystore':
+      return privateKeyToAccount(decryptKeystore(readFileSync(spec.path, 'utf8'), spec.passphrase));
+    case 'remote':
+      return remoteAccount(spec);
+  }
+}
+
+/**
+ * Short description for logs, never including key material
+ */
+export function describeSigner(spec: SignerSpec): string {
+  switch (spec.kind) {
+    case 'private-key':
+      return 'private-key';
+    case 'keystore':
+      return `keystore:${spec.path}`;
+    case 'remote':
+      return `remote:${new URL(spec.url).origin}`;
+  }
+}
+
+interface KeystoreV3 {
+  version: number;
+  id?: string;
+  address?: string;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+/**
+ * Decrypt a version 3 keystore to its private key
+ */
+export function decryptKeystore(json: string, passphrase: string): Hex {
+  const keystore = JSON.parse(json) as KeystoreV3 & { Crypto?: KeystoreV3['crypto'] };
+  const crypto = keystore.crypto ?? keystore.Crypto;
+  if (keystore.version !== 3 || !crypto) {
+    throw new Error('Not a version 3 keystore');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher ${crypto.cipher}`);
+  }
+
+  const derivedKey = deriveKey(passphrase, crypto.kdf, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== crypto.mac.toLowerCase()) {
+    throw new Error('Keystore passphrase is wrong');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/**
+ * Encrypt a private key as a version 3 keystore (scrypt)
+ * `n` defaults to geth's standard cost; tests pass a small one
+ */
+export function encryptKeystore(privateKey: Hex, passphrase: string, n = 262144): string {
+  const kdfparams = { dklen: 32, salt: randomBytes(32).toString('hex'), n, r: 8, p: 1 };
+  const derivedKey = deriveKey(passphrase, 'scrypt', kdfparams);
+  const iv = randomBytes(16);
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(hexToBytes(privateKey)), cipher.final()]);
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+
+  const keystore: KeystoreV3 = {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      kdf: 'scrypt',
+      kdfparams,
+      mac: mac.slice(2),
+    },
+  };
+  return JSON.stringify(keystore);
+}
+
+function deriveKey(passphrase: string, kdf: string, params: KeystoreV3['crypto']['kdfparams']): Buffer {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  if (kdf === 'scrypt') {
+    const { n = 262144, r = 8, p = 1 } = params;
+    // Node caps scrypt memory at 32 MiB by default; standard keystores need 256 MiB
+    return scryptSync(passphrase, salt, params.dklen, { N: n, r, p, maxmem: 256 * n * r });
+  }
+  if (kdf === 'pbkdf2') {
+    if (params.prf !== 'hmac-sha256' || !params.c) {
+      throw new Error('Unsupported keystore pbkdf2 parameters');
+    }
+    return pbkdf2Sync(passphrase, salt, params.c, params.dklen, 'sha256');
+  }
+  throw new Error(`Unsupported keystore kdf ${kdf}`);
+}
+
+interface JsonRpcResponse {
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Account whose signatures come from a remote JSON-RPC signer
+ */
+function remoteAccount(spec: Extract<SignerSpec, { kind: 'remote' }>): LocalAccount {
+  let requestId = 0;
+
+  const call = async (method: string, params: unknown[]): Promise<Hex> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (spec.authToken) headers.Authorization = `Bearer ${spec.authToken}`;
+
+    let response: Response;
+    try {
+      response = await fetch(spec.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+        signal: AbortSignal.timeout(REMOTE_SIGNER_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Remote signer unreachable: ${errorMessage}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Remote signer ${method} failed: HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as JsonRpcResponse;
+    if (body.error) {
+      throw new Error(`Remote signer ${method} failed: ${body.error.message}`);
+    }
+    if (typeof body.result !== 'string' || !body.result.startsWith('0x')) {
+      throw new Error(`Remote signer ${method} returned no signature`);
+    }
+    return body.result as Hex;
+  };
+
+  return toAccount({
+    address: spec.address,
+    signMessage: ({ message }) => call('eth_sign', [spec.address, messageToHex(message)]),
+    // The signer returns the signed, serialized transaction
+    signTransaction: (transaction) =>
+      call('eth_signTransaction', [
+        {
+          ...formatTransactionRequest(transaction as TransactionRequest),
+          from: spec.address,
+          ...(transaction.chainId !== undefined ? { chainId: numberToHex(transaction.chainId) } : {}),
+        },
+      ]),
+    signTypedData: (typedData) => call('eth_signTypedData_v4', [spec.address, serializeTypedData(typedData as never)]),
+  });
+}
+
+function messageToHex(message: SignableMessage): Hex {
+  if (typeof message === 'string') return toHex(message);
+  return typeof message.raw === 'string' ? message.raw : bytesToHex(message.raw);
+}
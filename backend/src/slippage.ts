@@ -0,0 +1,62 @@
+import { RuleType, type Rule } from './rule-evaluator.js';
+
+const BASIS_POINTS = 10000n;
+
+/**
+ * Keeper-wide slippage settings
+ * Overrides are keyed "agentId:ruleIndex", then "agentId", then rule type name
+ */
+export interface SlippageSettings {
+  defaultBps: number;
+  maxBps: number;
+  overrides: Record<string, number>;
+}
+
+/**
+ * Resolve the slippage tolerance for a rule, capped at the keeper-wide max
+ * An owner's preference, when given, comes before the keeper's overrides
+ */
+export function resolveSlippageBps(
+  settings: SlippageSettings,
+  agentId: bigint,
+  ruleIndex: number,
+  rule: Rule,
+  preferred?: number
+): number {
+  const requested =
+    preferred ??
+    settings.overrides[`${agentId}:${ruleIndex}`] ??
+    settings.overrides[agentId.toString()] ??
+    settings.overrides[RuleType[rule.ruleType]] ??
+    settings.defaultBps;
+
+  return Math.min(Math.max(requested, 0), settings.maxBps);
+}
+
+/**
+ * Minimum acceptable output for a quoted amount at a slippage tolerance
+ */
+export function minAmountOutFor(amountOut: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || BigInt(slippageBps) > BASIS_POINTS) {
+    throw new Error(`Slippage ${slippageBps} bps out of range`);
+  }
+  return (amountOut * (BASIS_POINTS - BigInt(slippageBps))) / BASIS_POINTS;
+}
+
+/**
+ * Parse SLIPPAGE_BPS overrides: JSON object of basis points
+ */
+export function parseSlippageOverrides(json: string): Record<string, number> {
+  if (!json) return {};
+
+  const raw = JSON.parse(json) as Record<string, number | string>;
+  const overrides: Record<string, number> = {};
+  for (const [key, bps] of Object.entries(raw)) {
+    const value = Number(bps);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid slippage override for ${key}: ${bps}`);
+    }
+    overrides[key] = value;
+  }
+  return overrides;
+}
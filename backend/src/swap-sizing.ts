@@ -0,0 +1,262 @@
+import { type Address } from 'viem';
+import { RuleType, type Rule } from './rule-evaluator.js';
+import { PRICE_PRECISION } from './price-oracle.js';
+import type { PoolKey } from './pool-id.js';
+
+const BASIS_POINTS = 10000n;
+
+export type SizingMode = 'fixed' | 'percent' | 'rebalance' | 'exit';
+
+// zeroForOne sells currency0 for currency1
+export type SwapDirection = 'zeroForOne' | 'oneForZero';
+
+/**
+ * How a rule sizes its swaps
+ * - fixed: `amount` of tokenIn per execution (e.g. one DCA tick)
+ * - percent: `bps` of the tokenIn position
+ * - rebalance: whatever moves currency0's value weight to `targetWeightBps`
+ * - exit: the whole tokenIn position
+ */
+export interface SizingPolicy {
+  mode: SizingMode;
+  direction?: SwapDirection; // unset sells the funded side, see autoDirection; rebalance derives it from the weights
+  amount?: bigint;
+  bps?: number;
+  targetWeightBps?: number;
+}
+
+/**
+ * Thrown when a policy sets no direction and the agent holds both tokens
+ * Raw balances of tokens with different decimals cannot say which side to sell
+ */
+export class AmbiguousDirectionError extends Error {
+  constructor(readonly ruleType: RuleType) {
+    super(
+      `Both tokens are funded and ${RuleType[ruleType] ?? 'this rule'} sets no swap direction; ` +
+      'set one in SWAP_SIZING or the owner sizing preferences'
+    );
+    this.name = 'AmbiguousDirectionError';
+  }
+}
+
+export interface SwapPlan {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  direction: SwapDirection;
+  mode: SizingMode;
+}
+
+/**
+ * Reads an agent's token balance; Executor and snapshots both provide one
+ */
+export interface BalanceReader {
+  getAgentBalance(agentId: bigint, token: Address): Promise<bigint>;
+}
+
+export interface SizingContext {
+  agentId: bigint;
+  rule: Rule;
+  poolKey: PoolKey;
+  price?: bigint; // currency0 in currency1, PRICE_PRECISION-scaled; required for rebalance
+}
+
+// Preserves the previous 10%-of-position behaviour where no better intent is known
+const DEFAULT_PERCENT_BPS = 1000;
+const DEFAULT_TARGET_WEIGHT_BPS = 5000;
+
+/**
+ * Default sizing for a rule when no override is configured
+ * Direction is left to autoDirection, so agents funded on either side work
+ * without SWAP_SIZING
+ */
+export function defaultSizingPolicy(rule: Rule): SizingPolicy {
+  switch (rule.ruleType) {
+    case RuleType.TIME_WEIGHTED:
+      // The strategy editor stores the DCA interval in targetValue, so a fixed
+      // amount per tick has to come from an override
+      return { mode: 'percent', bps: DEFAULT_PERCENT_BPS };
+
+    case RuleType.REBALANCE_THRESHOLD:
+      // targetValue is currency0's target value weight in basis points
+      return {
+        mode: 'rebalance',
+        targetWeightBps: rule.targetValue > 0n && rule.targetValue <= BASIS_POINTS
+          ? Number(rule.targetValue)
+          : DEFAULT_TARGET_WEIGHT_BPS,
+      };
+
+    case RuleType.STOP_LOSS:
+      return { mode: 'exit' };
+
+    case RuleType.TAKE_PROFIT:
+    case RuleType.CUSTOM_HOOK_SIGNAL:
+    default:
+      return { mode: 'percent', bps: DEFAULT_PERCENT_BPS };
+  }
+}
+
+/**
+ * Resolve the sizing policy for a rule
+ * Overrides are keyed "agentId:ruleIndex" first, then by rule type name
+ */
+export function resolveSizingPolicy(
+  overrides: Record<string, SizingPolicy>,
+  agentId: bigint,
+  ruleIndex: number,
+  rule: Rule
+): SizingPolicy {
+  return (
+    overrides[`${agentId}:${ruleIndex}`] ??
+    overrides[RuleType[rule.ruleType]] ??
+    defaultSizingPolicy(rule)
+  );
+}
+
+/**
+ * Plan a swap for a rule execution
+ * Returns null when there is nothing to swap
+ */
+export async function planSwap(
+  context: SizingContext,
+  policy: SizingPolicy,
+  balances: BalanceReader
+): Promise<SwapPlan | null> {
+  const { agentId, poolKey } = context;
+
+  if (policy.mode === 'rebalance') {
+    return planRebalance(context, policy, balances);
+  }
+
+  const direction = policy.direction ?? autoDirection(
+    context.rule,
+    await balances.getAgentBalance(agentId, poolKey.currency0),
+    await balances.getAgentBalance(agentId, poolKey.currency1)
+  );
+  const [tokenIn, tokenOut] = direction === 'zeroForOne'
+    ? [poolKey.currency0, poolKey.currency1]
+    : [poolKey.currency1, poolKey.currency0];
+  const balance = await balances.getAgentBalance(agentId, tokenIn);
+
+  let amountIn: bigint;
+  switch (policy.mode) {
+    case 'fixed':
+      if (!policy.amount || policy.amount <= 0n) {
+        throw new Error('Fixed sizing requires a positive amount');
+      }
+      amountIn = policy.amount < balance ? policy.amount : balance;
+      break;
+
+    case 'percent': {
+      const bps = BigInt(policy.bps ?? DEFAULT_PERCENT_BPS);
+      if (bps <= 0n || bps > BASIS_POINTS) {
+        throw new Error(`Percent sizing bps ${bps} out of range`);
+      }
+      amountIn = (balance * bps) / BASIS_POINTS;
+      break;
+    }
+
+    case 'exit':
+      amountIn = balance;
+      break;
+
+    default:
+      throw new Error(`Unknown sizing mode ${policy.mode}`);
+  }
+
+  if (amountIn === 0n) return null;
+
+  return { tokenIn, tokenOut, amountIn, direction, mode: policy.mode };
+}
+
+/**
+ * Direction for a policy that does not set one: sell the side the agent holds
+ * When both sides are funded, stop loss and take profit sell currency0, the asset
+ * their price tracks; other rules have no intent to go by and throw AmbiguousDirectionError
+ */
+export function autoDirection(rule: Rule, balance0: bigint, balance1: bigint): SwapDirection {
+  if (balance0 === 0n && balance1 > 0n) return 'oneForZero';
+  if (balance1 === 0n) return 'zeroForOne';
+
+  if (rule.ruleType === RuleType.STOP_LOSS || rule.ruleType === RuleType.TAKE_PROFIT) {
+    return 'zeroForOne';
+  }
+  throw new AmbiguousDirectionError(rule.ruleType);
+}
+
+async function planRebalance(
+  context: SizingContext,
+  policy: SizingPolicy,
+  balances: BalanceReader
+): Promise<SwapPlan | null> {
+  const { agentId, poolKey, price } = context;
+  if (!price || price <= 0n) {
+    throw new Error('Rebalance sizing requires a price');
+  }
+
+  const targetWeightBps = BigInt(policy.targetWeightBps ?? DEFAULT_TARGET_WEIGHT_BPS);
+  const [balance0, balance1] = await Promise.all([
+    balances.getAgentBalance(agentId, poolKey.currency0),
+    balances.getAgentBalance(agentId, poolKey.currency1),
+  ]);
+
+  // Value everything in currency1 units
+  const value0 = (balance0 * price) / PRICE_PRECISION;
+  const totalValue = value0 + balance1;
+  if (totalValue === 0n) return null;
+
+  const targetValue0 = (totalValue * targetWeightBps) / BASIS_POINTS;
+
+  if (value0 > targetValue0) {
+    // Overweight currency0: sell the excess, converted back to currency0 units
+    const amountIn = ((value0 - targetValue0) * PRICE_PRECISION) / price;
+    if (amountIn === 0n) return null;
+    return {
+      tokenIn: poolKey.currency0,
+      tokenOut: poolKey.currency1,
+      amountIn: amountIn < balance0 ? amountIn : balance0,
+      direction: 'zeroForOne',
+      mode: 'rebalance',
+    };
+  }
+
+  const amountIn = targetValue0 - value0;
+  if (amountIn === 0n) return null;
+  return {
+    tokenIn: poolKey.currency1,
+    tokenOut: poolKey.currency0,
+    amountIn: amountIn < balance1 ? amountIn : balance1,
+    direction: 'oneForZero',
+    mode: 'rebalance',
+  };
+}
+
+/**
+ * Balance reader over balances already loaded in a snapshot
+ */
+export function staticBalanceReader(poolKey: PoolKey, balances: { currency0: bigint; currency1: bigint }): BalanceReader {
+  return {
+    async getAgentBalance(_agentId: bigint, token: Address): Promise<bigint> {
+      if (token.toLowerCase() === poolKey.currency0.toLowerCase()) return balances.currency0;
+      if (token.toLowerCase() === poolKey.currency1.toLowerCase()) return balances.currency1;
+      return 0n;
+    },
+  };
+}
+
+/**
+ * Parse SWAP_SIZING overrides: JSON object of policies with amounts as strings
+ */
+export function parseSizingOverrides(json: string): Record<string, SizingPolicy> {
+  if (!json) return {};
+
+  const raw = JSON.parse(json) as Record<string, Omit<SizingPolicy, 'amount'> & { amount?: string }>;
+  const overrides: Record<string, SizingPolicy> = {};
+  for (const [key, policy] of Object.entries(raw)) {
+    overrides[key] = {
+      ...policy,
+      amount: policy.amount !== undefined ? BigInt(policy.amount) : undefined,
+    };
+  }
+  return overrides;
+}
@@ -0,0 +1,358 @@
+import {
+  BaseError,
+  NonceTooLowError,
+  WaitForTransactionReceiptTimeoutError,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type LocalAccount,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem';
+import { createChildLogger } from './logger.js';
+import type { Config } from './config.js';
+import type { GasPolicy } from './gas-policy.js';
+
+const logger = createChildLogger('tx-manager');
+
+export type ContractRequest = Parameters<WalletClient['writeContract']>[0];
+
+type KeeperAccount = LocalAccount;
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * A keeper transaction by nonce
+ * `request` is null for gap fillers, which are zero-value self-transfers
+ */
+interface TrackedTransaction {
+  nonce: number;
+  request: ContractRequest | null;
+  hashes: Hash[]; // every broadcast, latest last
+  fees: Fees;
+  bumps: number;
+}
+
+export interface SubmittedTransaction {
+  nonce: number;
+  hash: Hash;
+}
+
+/**
+ * Thrown when a transaction is still unmined after every fee bump
+ * It may yet land, so callers must not resubmit the same execution
+ */
+export class StuckTransactionError extends Error {
+  constructor(readonly nonce: number, readonly hashes: Hash[]) {
+    super(`Transaction with nonce ${nonce} still pending after ${hashes.length - 1} fee bumps`);
+    this.name = 'StuckTransactionError';
+  }
+}
+
+/**
+ * Keeper transaction pipeline
+ *
+ * Nonces are allocated locally so several executions can be in flight at once.
+ * Transactions that stay unmined are replaced at the same nonce with bumped
+ * fees, and reconcile() realigns local state with the chain after restarts,
+ * dropped transactions or nonces released by failed sends.
+ */
+export class TransactionManager {
+  private config: Config;
+  private publicClient: PublicClient;
+  private walletClient: WalletClient;
+  private account: KeeperAccount;
+  private gasPolicy: GasPolicy | null;
+  private nextNonce: number | null = null;
+  private tracked: Map<number, TrackedTransaction> = new Map();
+  private allocated: Set<number> = new Set(); // taken but not yet broadcast
+  private released: number[] = []; // taken but never broadcast, reused first
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    config: Config,
+    publicClient: PublicClient,
+    walletClient: WalletClient,
+    account: KeeperAccount,
+    gasPolicy?: GasPolicy
+  ) {
+    this.config = config;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.account = account;
+    this.gasPolicy = gasPolicy ?? null;
+  }
+
+  /**
+   * Broadcast a simulated contract request at a locally allocated nonce
+   */
+  async submit(request: ContractRequest): Promise<SubmittedTransaction> {
+    // Fees first: a failed fee lookup must not leave a nonce allocated and never sent
+    const fees = await this.currentFees();
+    const nonce = await this.allocateNonce();
+
+    try {
+      const hash = await this.walletClient.writeContract({ ...request, nonce, ...fees } as ContractRequest);
+      this.allocated.delete(nonce);
+      this.tracked.set(nonce, { nonce, request, hashes: [hash], fees, bumps: 0 });
+
+      logger.info({ nonce, hash, pending: this.tracked.size }, 'Transaction submitted');
+      return { nonce, hash };
+    } catch (error) {
+      this.allocated.delete(nonce);
+      if (isNonceTooLow(error)) {
+        // Something else used the nonce; resync before the next allocation
+        this.nextNonce = null;
+      } else {
+        this.releaseNonce(nonce);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for a submitted transaction, replacing it with fee bumps while it is stuck
+   * Resolves with the receipt of whichever broadcast was mined
+   */
+  async waitForReceipt(nonce: number): Promise<TransactionReceipt> {
+    const tx = this.tracked.get(nonce);
+    if (!tx) {
+      throw new Error(`No tracked transaction with nonce ${nonce}`);
+    }
+
+    try {
+      for (;;) {
+        const hash = tx.hashes[tx.hashes.length - 1];
+        try {
+          return await this.publicClient.waitForTransactionReceipt({
+            hash,
+            confirmations: 1,
+            timeout: this.config.txStuckTimeoutMs,
+          });
+        } catch (error) {
+          if (!(error instanceof WaitForTransactionReceiptTimeoutError)) throw error;
+        }
+
+        // An earlier broadcast may have been mined instead of the latest replacement
+        const mined = await this.findMinedReceipt(tx.hashes);
+        if (mined) return mined;
+
+        if (tx.bumps >= this.config.maxFeeBumps) {
+          throw new StuckTransactionError(nonce, tx.hashes);
+        }
+        await this.replace(tx);
+      }
+    } finally {
+      this.tracked.delete(nonce);
+    }
+  }
+
+  /**
+   * Submit and wait for the receipt
+   */
+  async sendAndWait(request: ContractRequest): Promise<TransactionReceipt> {
+    const { nonce } = await this.submit(request);
+    return this.waitForReceipt(nonce);
+  }
+
+  /**
+   * Realign local nonce state with the chain
+   * Forgets mined transactions, rebroadcasts dropped ones with bumped fees and
+   * fills nonces that were released but never reused, so later ones can mine
+   */
+  async reconcile(): Promise<void> {
+    if (this.syncing) return this.syncing;
+
+    this.syncing = this.doReconcile().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Transactions broadcast and not yet confirmed
+   */
+  getPendingCount(): number {
+    return this.tracked.size;
+  }
+
+  private async doReconcile(): Promise<void> {
+    const [latest, pending] = await Promise.all([
+      this.publicClient.getTransactionCount({ address: this.account.address, blockTag: 'latest' }),
+      this.publicClient.getTransactionCount({ address: this.account.address, blockTag: 'pending' }),
+    ]);
+
+    for (const nonce of this.tracked.keys()) {
+      if (nonce < latest) this.tracked.delete(nonce);
+    }
+    this.released = this.released.filter((nonce) => nonce >= latest);
+
+    const previous = this.nextNonce;
+    this.nextNonce = Math.max(this.nextNonce ?? 0, pending, latest);
+
+    // Rebroadcast transactions the node no longer knows about
+    for (const tx of [...this.tracked.values()]) {
+      const known = await this.isKnown(tx.hashes[tx.hashes.length - 1]);
+      if (!known) {
+        logger.warn({ nonce: tx.nonce }, 'Transaction dropped, rebroadcasting');
+        await this.replace(tx).catch((error) => {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn({ nonce: tx.nonce, error: errorMessage }, 'Rebroadcast failed');
+        });
+      }
+    }
+
+    // Nonces below the highest in flight must be used or nothing after them mines
+    const highestInFlight = Math.max(-1, ...this.tracked.keys());
+    const gaps = this.released.filter((nonce) => nonce < highestInFlight);
+    for (const nonce of gaps) {
+      await this.fillGap(nonce);
+    }
+
+    logger.info(
+      { latest, pending, previousNonce: previous, nextNonce: this.nextNonce, inFlight: this.tracked.size, gapsFilled: gaps.length },
+      'Nonces reconciled'
+    );
+  }
+
+  private async allocateNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      await this.reconcile();
+    }
+
+    const reused = this.released.shift();
+    const nonce = reused ?? this.nextNonce!++;
+    this.allocated.add(nonce);
+    return nonce;
+  }
+
+  private releaseNonce(nonce: number): void {
+    if (this.nextNonce !== null && nonce === this.nextNonce - 1) {
+      this.nextNonce = nonce;
+      return;
+    }
+    this.released.push(nonce);
+    this.released.sort((a, b) => a - b);
+  }
+
+  private async replace(tx: TrackedTransaction): Promise<void> {
+    const current = await this.currentFees();
+    const bumped = this.capFees({
+      maxFeePerGas: max(bump(tx.fees.maxFeePerGas, this.config.feeBumpPercent), current.maxFeePerGas),
+      maxPriorityFeePerGas: max(
+        bump(tx.fees.maxPriorityFeePerGas, this.config.feeBumpPercent),
+        current.maxPriorityFeePerGas
+      ),
+    });
+
+    // Nodes reject replacements that do not raise both fees
+    if (bumped.maxFeePerGas <= tx.fees.maxFeePerGas || bumped.maxPriorityFeePerGas <= tx.fees.maxPriorityFeePerGas) {
+      tx.bumps++;
+      logger.warn({ nonce: tx.nonce, bumps: tx.bumps }, 'Fee ceiling reached, not replacing stuck transaction');
+      return;
+    }
+
+    try {
+      const hash = tx.request
+        ? await this.walletClient.writeContract({ ...tx.request, nonce: tx.nonce, ...bumped } as ContractRequest)
+        : await this.sendSelfTransfer(tx.nonce, bumped);
+      tx.hashes.push(hash);
+      tx.fees = bumped;
+      tx.bumps++;
+
+      logger.warn(
+        {
+          nonce: tx.nonce,
+          hash,
+          bumps: tx.bumps,
+          maxFeePerGas: bumped.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: bumped.maxPriorityFeePerGas.toString(),
+        },
+        'Stuck transaction replaced with higher fees'
+      );
+    } catch (error) {
+      // The original was mined while we were replacing it
+      if (isNonceTooLow(error)) return;
+      throw error;
+    }
+  }
+
+  private async fillGap(nonce: number): Promise<void> {
+    this.released = this.released.filter((n) => n !== nonce);
+    const fees = await this.currentFees();
+
+    try {
+      const hash = await this.sendSelfTransfer(nonce, fees);
+      this.tracked.set(nonce, { nonce, request: null, hashes: [hash], fees, bumps: 0 });
+      logger.warn({ nonce, hash }, 'Filled nonce gap with a self-transfer');
+
+      // Nothing waits on fillers; drop them from tracking once mined
+      this.waitForReceipt(nonce).catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn({ nonce, error: errorMessage }, 'Nonce gap filler not confirmed');
+      });
+    } catch (error) {
+      if (isNonceTooLow(error)) return;
+      this.releaseNonce(nonce);
+      throw error;
+    }
+  }
+
+  private sendSelfTransfer(nonce: number, fees: Fees): Promise<Hash> {
+    return this.walletClient.sendTransaction({
+      account: this.account,
+      chain: this.walletClient.chain,
+      to: this.account.address as Address,
+      value: 0n,
+      nonce,
+      ...fees,
+    });
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await this.publicClient.estimateFeesPerGas();
+    return this.capFees({ maxFeePerGas, maxPriorityFeePerGas });
+  }
+
+  private capFees(fees: Fees): Fees {
+    return this.gasPolicy ? this.gasPolicy.capFees(fees) : fees;
+  }
+
+  private async findMinedReceipt(hashes: Hash[]): Promise<TransactionReceipt | null> {
+    for (const hash of hashes) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined
+      }
+    }
+    return null;
+  }
+
+  private async isKnown(hash: Hash): Promise<boolean> {
+    try {
+      await this.publicClient.getTransaction({ hash });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function isNonceTooLow(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    return error.walk((e) => e instanceof NonceTooLowError) instanceof NonceTooLowError;
+  }
+  return error instanceof Error && /nonce too low/i.test(error.message);
+}
+
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(100 + percent)) / 100n;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
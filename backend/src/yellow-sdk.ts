@@ -1,5 +1,4 @@
-import { Address, encodeAbiParameters, parseAbiParameters, keccak256, toBytes, type Hex } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { Address, encodeAbiParameters, keccak256, toBytes, type Hex, type LocalAccount } from 'viem';
 import WebSocket from 'ws';
 import { 
   createAppSessionMessage, 
@@ -9,6 +8,10 @@ import {
   type RPCData
 } from '@erc7824/nitrolite';
 import { createChildLogger } from './logger.js';
+import { minAmountOutFor } from './slippage.js';
+import type { PoolKey } from './pool-id.js';
+import type { QuoteProvider } from './quote-provider.js';
+import { Router, encodeRouteData, type RouteHop } from './router.js';
 
 const logger = createChildLogger('yellow-sdk');
 
@@ -19,19 +22,23 @@ export const CLEARNODE_ENDPOINTS = {
 } as const;
 
 export interface YellowQuote {
+  poolKey: PoolKey;
   tokenIn: Address;
   tokenOut: Address;
   amountIn: bigint;
   amountOut: bigint;
+  slippageBps: number;
+  minAmountOut: bigint; // amountOut less slippageBps, the floor sent on-chain
   route: YellowRoute[];
   routeData: `0x${string}`;
-  priceImpact: number;
   gasEstimate: bigint;
+  source: string; // quote provider name
 }
 
 export interface YellowRoute {
   protocol: string;
   pool: Address;
+  poolKey: PoolKey;
   tokenIn: Address;
   tokenOut: Address;
   fee: number;
@@ -39,8 +46,11 @@ export interface YellowRoute {
 
 export interface YellowSDKConfig {
   clearNodeUrl: string;
-  privateKey: `0x${string}`;
+  account: LocalAccount; // signs ClearNode messages
   chainId: number;
+  quoteProvider: QuoteProvider;
+  routingPools?: PoolKey[];
+  maxRouteHops?: number;
 }
 
 export interface AppSessionDefinition {
@@ -90,7 +100,8 @@ export interface NitroRPCResponse {
 export class YellowSDK {
   private config: YellowSDKConfig;
   private ws: WebSocket | null = null;
-  private account: ReturnType<typeof privateKeyToAccount>;
+  private account: LocalAccount;
+  private router: Router;
   private messageId = 0;
   private pendingRequests: Map<number, {
     resolve: (value: unknown) => void;
@@ -103,7 +114,8 @@ export class YellowSDK {
 
   constructor(config: YellowSDKConfig) {
     this.config = config;
-    this.account = privateKeyToAccount(config.privateKey);
+    this.account = config.account;
+    this.router = new Router(config.quoteProvider, config.routingPools, config.maxRouteHops);
   }
 
   /**
@@ -164,6 +176,22 @@ export class YellowSDK {
     }
   }
 
+  /**
+   * Drop the current connection and connect again with a fresh retry budget
+   * Used by operators once automatic reconnection has given up
+   */
+  async reconnect(): Promise<void> {
+    if (this.ws) {
+      // Closing on purpose; do not let the close handler schedule its own retry
+      this.ws.removeAllListeners('close');
+      this.ws.close();
+      this.ws = null;
+    }
+    this.isConnected = false;
+    this.reconnectAttempts = 0;
+    await this.connect();
+  }
+
   /**
    * Create an app session for strategy execution
    */
@@ -252,29 +280,50 @@ export class YellowSDK {
   }
 
   /**
-   * Get optimal swap quote (simulated for testnet)
-   * In production, this would query Yellow Network's liquidity aggregation
+   * Get an exact-input quote for swapping tokenIn for the other side of the agent's pool
+   * The best 1..maxRouteHops path through the routing pools wins, the agent's pool
+   * included; minAmountOut is derived from the routed output at slippageBps
    */
   async getQuote(
+    poolKey: PoolKey,
     tokenIn: Address,
-    tokenOut: Address,
     amountIn: bigint,
-    slippageBps: number = 50
+    slippageBps: number
   ): Promise<YellowQuote> {
+    const zeroForOne = sameCurrency(tokenIn, poolKey.currency0);
+    if (!zeroForOne && !sameCurrency(tokenIn, poolKey.currency1)) {
+      throw new Error(`Token ${tokenIn} is not in the pool`);
+    }
+    const tokenOut = zeroForOne ? poolKey.currency1 : poolKey.currency0;
+
     logger.info({ tokenIn, tokenOut, amountIn: amountIn.toString() }, 'Fetching quote');
 
-    // For Sepolia testnet: simulate quote
-    // In production: query ClearNode for aggregated liquidity
-    const quote = await this.simulateQuote(tokenIn, tokenOut, amountIn, slippageBps);
+    const routed = await this.router.findBestRoute(tokenIn, tokenOut, amountIn, [poolKey]);
+    const quote = this.toQuote(poolKey, routed.hops, amountIn, routed.amountOut, routed.gasEstimate, routed.source, slippageBps);
     
     logger.info(
-      { amountOut: quote.amountOut.toString(), priceImpact: quote.priceImpact },
+      {
+        amountOut: quote.amountOut.toString(),
+        minAmountOut: quote.minAmountOut.toString(),
+        slippageBps,
+        hops: quote.route.length,
+        source: quote.source,
+      },
       'Quote received'
     );
 
     return quote;
   }
 
+  /**
+   * Best routed output for an amount, e.g. to value a swap in another token
+   */
+  async quoteAmount(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<bigint> {
+    if (sameCurrency(tokenIn, tokenOut)) return amountIn;
+    const routed = await this.router.findBestRoute(tokenIn, tokenOut, amountIn);
+    return routed.amountOut;
+  }
+
   /**
    * Execute swap through Yellow Network state channel
    */
@@ -321,12 +370,12 @@ export class YellowSDK {
 
   /**
    * Build execution data for on-chain fallback
+   * minAmountOut comes from the quote so it always matches the quoted slippage
    * Note: Must encode as a tuple (struct) for Solidity abi.decode to work correctly
    */
   buildExecutionData(
     agentId: bigint,
-    quote: YellowQuote,
-    minAmountOut: bigint
+    quote: YellowQuote
   ): `0x${string}` {
     // Encode as a tuple (struct) - this adds the offset pointer that Solidity expects
     const executionRequest = encodeAbiParameters(
@@ -349,7 +398,7 @@ export class YellowSDK {
           tokenIn: quote.tokenIn,
           tokenOut: quote.tokenOut,
           amountIn: quote.amountIn,
-          minAmountOut,
+          minAmountOut: quote.minAmountOut,
           routeData: quote.routeData,
         },
       ]
@@ -360,23 +409,33 @@ export class YellowSDK {
 
   /**
    * Validate route is still valid
+   * Re-quotes the same path and checks it still clears the quote's minAmountOut
    */
   async validateRoute(quote: YellowQuote): Promise<boolean> {
-    // Re-fetch quote and compare
     try {
-      const newQuote = await this.getQuote(
-        quote.tokenIn,
-        quote.tokenOut,
-        quote.amountIn
-      );
-      
-      // Allow 1% deviation
-      const deviation = Math.abs(
-        Number(newQuote.amountOut - quote.amountOut) / Number(quote.amountOut)
-      );
-      
-      return deviation < 0.01;
-    } catch {
+      const hops: RouteHop[] = quote.route.map((hop) => ({
+        poolKey: hop.poolKey,
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        zeroForOne: sameCurrency(hop.tokenIn, hop.poolKey.currency0),
+      }));
+      const requoted = await this.router.quotePath(hops, quote.amountIn);
+
+      const valid = requoted.amountOut >= quote.minAmountOut;
+      if (!valid) {
+        logger.warn(
+          {
+            quotedAmountOut: quote.amountOut.toString(),
+            requotedAmountOut: requoted.amountOut.toString(),
+            minAmountOut: quote.minAmountOut.toString(),
+          },
+          'Re-quote below minimum amount out'
+        );
+      }
+      return valid;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ error: errorMessage }, 'Re-quote failed');
       return false;
     }
   }
@@ -395,41 +454,43 @@ export class YellowSDK {
     return this.account.address;
   }
 
+  /**
+   * Sign messages with another key from the next message on
+   */
+  useAccount(account: LocalAccount): void {
+    this.account = account;
+  }
+
   // Private methods
 
-  private async simulateQuote(
-    tokenIn: Address,
-    tokenOut: Address,
+  private toQuote(
+    poolKey: PoolKey,
+    hops: RouteHop[],
     amountIn: bigint,
-    _slippageBps: number
-  ): Promise<YellowQuote> {
-    // Simulate 0.3% fee for Sepolia testnet
-    const feeAmount = (amountIn * 30n) / 10000n;
-    const priceImpact = Number(amountIn) / 1e24;
-    const amountOut = amountIn - feeAmount;
-
-    const routeData = encodeAbiParameters(
-      parseAbiParameters('address[] path, uint24[] fees'),
-      [[tokenIn, tokenOut], [3000]]
-    );
-
+    amountOut: bigint,
+    gasEstimate: bigint,
+    source: string,
+    slippageBps: number
+  ): YellowQuote {
     return {
-      tokenIn,
-      tokenOut,
+      poolKey,
+      tokenIn: hops[0].tokenIn,
+      tokenOut: hops[hops.length - 1].tokenOut,
       amountIn,
       amountOut,
-      route: [
-        {
-          protocol: 'uniswap-v4',
-          pool: '0x0000000000000000000000000000000000000000' as Address,
-          tokenIn,
-          tokenOut,
-          fee: 3000,
-        },
-      ],
-      routeData,
-      priceImpact,
-      gasEstimate: 150000n,
+      slippageBps,
+      minAmountOut: minAmountOutFor(amountOut, slippageBps),
+      route: hops.map((hop) => ({
+        protocol: 'uniswap-v4',
+        pool: '0x0000000000000000000000000000000000000000' as Address, // v4 pools live in the PoolManager
+        poolKey: hop.poolKey,
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        fee: hop.poolKey.fee,
+      })),
+      routeData: encodeRouteData(hops),
+      gasEstimate,
+      source,
     };
   }
 
@@ -581,18 +642,29 @@ export class YellowSDK {
   }
 }
 
+function sameCurrency(a: Address, b: Address): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
 /**
  * Create Yellow SDK instance configured for Sepolia
  */
 export function createYellowSDK(config: {
-  privateKey: `0x${string}`;
+  account: LocalAccount;
   useSandbox?: boolean;
+  chainId: number;
+  quoteProvider: QuoteProvider;
+  routingPools?: PoolKey[];
+  maxRouteHops?: number;
 }): YellowSDK {
   return new YellowSDK({
     clearNodeUrl: config.useSandbox 
       ? CLEARNODE_ENDPOINTS.sandbox 
       : CLEARNODE_ENDPOINTS.production,
-    privateKey: config.privateKey,
-    chainId: 11155111, // Sepolia
+    account: config.account,
+    chainId: config.chainId,
+    quoteProvider: config.quoteProvider,
+    routingPools: config.routingPools,
+    maxRouteHops: config.maxRouteHops,
   });
 }
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { ApiServer } from '../src/api-server.js';
+import { ApiRequestError } from '../src/api-errors.js';
+import type { AdminControls } from '../src/admin.js';
+import type { Config } from '../src/config.js';
+
+const TOKEN = 'test-admin-token';
+const SEPOLIA = 11155111;
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function fakeControls(calls: string[]): AdminControls {
+  return {
+    evaluateAgent: async (chainId, agentId) => {
+      calls.push(`evaluate ${chainId}:${agentId}`);
+      return { ready: 1, executed: 1 };
+    },
+    triggerRule: async (chainId, agentId, ruleIndex) => {
+      if (ruleIndex > 0) throw new ApiRequestError(`Agent ${agentId} has no rule ${ruleIndex}`, 404);
+      calls.push(`trigger ${chainId}:${agentId}:${ruleIndex}`);
+      return { success: true };
+    },
+    setEvaluationPaused: (chainId, paused) => {
+      calls.push(`${paused ? 'pause' : 'resume'} ${chainId ?? 'all'}`);
+      return [SEPOLIA];
+    },
+    setAgentSkipped: (chainId, agentId, skipped) => {
+      calls.push(`${skipped ? 'skip' : 'unskip'} ${chainId}:${agentId}`);
+    },
+    reconnectClearNode: async () => ({ chains: [{ chainId: SEPOLIA, connected: true }] }),
+    getState: () => ({ chains: [] }),
+  };
+}
+
+describe('admin API', () => {
+  let server: ApiServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function start(adminApiToken: string | undefined, calls: string[] = []): Promise<string> {
+    const port = await freePort();
+    const config = { chainId: SEPOLIA, executionStore: 'memory', adminApiToken } as Config;
+    server = new ApiServer(config, port);
+    server.setAdminControls(fakeControls(calls));
+    await server.start();
+    return `http://127.0.0.1:${port}/api/admin`;
+  }
+
+  it('is disabled without a token', async () => {
+    const base = await start(undefined);
+    const response = await fetch(`${base}/pause`, { method: 'POST', headers: { Authorization: 'Bearer anything' } });
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a wrong token and audits the attempt', async () => {
+    const calls: string[] = [];
+    const base = await start(TOKEN, calls);
+
+    const response = await fetch(`${base}/pause`, { method: 'POST', headers: { Authorization: 'Bearer wrong' } });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    expect(calls).toEqual([]);
+
+    const audit = await fetch(`${base}/audit`, { headers: { 'X-API-Key': TOKEN } }).then((r) => r.json());
+    expect(audit.entries[0]).toMatchObject({ action: 'pause', outcome: 'denied' });
+  });
+
+  it('runs actions with a bearer token or API key and audits them', async () => {
+    const calls: string[] = [];
+    const base = await start(TOKEN, calls);
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    await fetch(`${base}/pause`, { method: 'POST', headers: auth });
+    await fetch(`${base}/agents/7/skip?chainId=${SEPOLIA}`, { method: 'POST', headers: { 'X-API-Key': TOKEN } });
+    const triggered = await fetch(`${base}/agents/7/rules/0/execute`, {
+      method: 'POST',
+      headers: { ...auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: 'stuck DCA' }),
+    }).then((r) => r.json());
+
+    expect(triggered).toEqual({ ok: true, success: true });
+    expect(calls).toEqual(['pause all', `skip ${SEPOLIA}:7`, `trigger ${SEPOLIA}:7:0`]);
+
+    const audit = await fetch(`${base}/audit`, { headers: auth }).then((r) => r.json());
+    expect(audit.entries.map((e: { action: string }) => e.action)).toEqual(['trigger-rule', 'skip-agent', 'pause']);
+    expect(audit.entries[0]).toMatchObject({
+      chainId: SEPOLIA,
+      agentId: '7',
+      ruleIndex: 0,
+      reason: 'stuck DCA',
+      outcome: 'ok',
+    });
+    expect(audit.entries[1].actor).toMatch(/^api-key@/);
+  });
+
+  it('answers refused actions with their status and audits the error', async () => {
+    const base = await start(TOKEN);
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    const response = await fetch(`${base}/agents/7/rules/3/execute`, { method: 'POST', headers: auth });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Agent 7 has no rule 3' });
+
+    const audit = await fetch(`${base}/audit`, { headers: auth }).then((r) => r.json());
+    expect(audit.entries[0]).toMatchObject({ action: 'trigger-rule', outcome: 'error', error: 'Agent 7 has no rule 3' });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { type Address, type PublicClient } from 'viem';
+import { AgentSnapshotLoader } from '../src/agent-snapshot.js';
+import { buildPoolKey, computePoolId } from '../src/pool-id.js';
+import type { Config } from '../src/config.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const POOL_KEY = buildPoolKey(USDC, WETH, 3000, 60);
+
+const config = {
+  strategyAgentAddress: '0x4Ac56F676e8fA23BAF54E5f387E84E8623e3D5aa',
+  yellFiHookAddress: '0x0000000000000000000000000000000000000fc0',
+  snapshotPageSize: 25,
+} as Config;
+
+type Call = { functionName: string; args: readonly unknown[] };
+
+function mockClient(batches: Call[][]): PublicClient {
+  const rule = { ruleType: 1, threshold: 0n, targetValue: 0n, cooldown: 60n, lastExecuted: 0n, enabled: true };
+
+  return {
+    getBlockNumber: async () => 100n,
+    multicall: async ({ contracts }: { contracts: Call[] }) => {
+      batches.push(contracts);
+      return contracts.map(({ functionName, args }) => {
+        const agentId = args[0] as bigint;
+        if (agentId === 2n && functionName === 'getAgent') {
+          return { status: 'failure', error: new Error('reverted') };
+        }
+        switch (functionName) {
+          case 'getAgent':
+            return { status: 'success', result: { poolKey: POOL_KEY, status: 1 } };
+          case 'getRules':
+            return { status: 'success', result: [rule, rule] };
+          case 'canExecute':
+            return { status: 'success', result: args[1] === 0n };
+          case 'getAgentBalance':
+            return { status: 'success', result: args[1] === USDC ? 500n : 7n };
+          case 'getLatestSignal':
+            return {
+              status: 'success',
+              result: { poolId: args[0], signalType: 0, magnitude: 150n, timestamp: 1n, additionalData: '0x' },
+            };
+          default:
+            throw new Error(`Unexpected call ${functionName}`);
+        }
+      });
+    },
+  } as unknown as PublicClient;
+}
+
+describe('AgentSnapshotLoader', () => {
+  it('loads a page of agents in two batched round-trips', async () => {
+    const batches: Call[][] = [];
+    const loader = new AgentSnapshotLoader(config, mockClient(batches));
+
+    const snapshots = await loader.load([1n, 2n, 3n]);
+
+    expect(batches).toHaveLength(2);
+    expect(batches[0]).toHaveLength(6); // getAgent + getRules for 3 agents
+    // Agent 2 failed to load; 2 canExecute + 2 balances + 1 signal for each remaining agent
+    expect(batches[1]).toHaveLength(10);
+
+    expect(snapshots.map((s) => s.agentId)).toEqual([1n, 3n]);
+    expect(snapshots[0].canExecute).toEqual([true, false]);
+    expect(snapshots[0].balances).toEqual({ currency0: 500n, currency1: 7n });
+    expect(snapshots[0].poolId).toBe(computePoolId(POOL_KEY));
+    expect(snapshots[0].latestSignal?.magnitude).toBe(150n);
+    expect(snapshots[0].blockNumber).toBe(100n);
+  });
+
+  it('splits large requests into pages', async () => {
+    const batches: Call[][] = [];
+    const loader = new AgentSnapshotLoader({ ...config, snapshotPageSize: 2 }, mockClient(batches));
+
+    const snapshots = await loader.load([1n, 3n, 4n]);
+
+    expect(snapshots).toHaveLength(3);
+    expect(batches).toHaveLength(4);
+  });
+});
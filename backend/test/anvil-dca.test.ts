@@ -0,0 +1,185 @@
+/**
+ * End-to-end DCA flow against a plain local anvil node
+ *
+ * Deploys Uniswap v4, a funded pool and YellFi with contracts/script/DeployLocal.s.sol,
+ * creates a TIME_WEIGHTED agent funded with WETH and runs it through the keeper's
+ * evaluator and executor. Needs anvil and forge on PATH and the Foundry submodules
+ * in contracts/lib; skipped otherwise.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseAbi,
+  parseEther,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { loadConfig, type Config } from '../src/config.js';
+import { resolveChain } from '../src/chains.js';
+import { loadDeployment } from '../src/deployment.js';
+import { buildPoolKey } from '../src/pool-id.js';
+import { createRuleEvaluator } from '../src/rule-evaluator.js';
+import { createExecutor } from '../src/executor.js';
+
+const CONTRACTS_DIR = fileURLToPath(new URL('../../contracts', import.meta.url));
+const PORT = 8546;
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+// anvil's first default account: deployer, keeper and agent owner
+const ANVIL_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const DEPLOYMENT_FILE = join(CONTRACTS_DIR, 'broadcast/DeployLocal.s.sol/31337/run-latest.json');
+
+function onPath(binary: string): boolean {
+  return spawnSync(binary, ['--version'], { stdio: 'ignore' }).status === 0;
+}
+
+const available =
+  onPath('anvil') && onPath('forge') &&
+  existsSync(join(CONTRACTS_DIR, 'lib/forge-std')) && existsSync(join(CONTRACTS_DIR, 'lib/v4-periphery'));
+
+const agentAbi = parseAbi([
+  'struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }',
+  'struct Rule { uint8 ruleType; uint256 threshold; uint256 targetValue; uint256 cooldown; uint256 lastExecuted; bool enabled; }',
+  'function createAgent(string ensName, PoolKey poolKey, Rule[] rules) returns (uint256)',
+  'function deposit(uint256 agentId, address token, uint256 amount)',
+  'function totalAgents() view returns (uint256)',
+  'function getRules(uint256 agentId) view returns (Rule[])',
+]);
+const wethAbi = parseAbi([
+  'function deposit() payable',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+describe.skipIf(!available)('anvil DCA flow', () => {
+  const account = privateKeyToAccount(ANVIL_KEY);
+  const savedEnv = { ...process.env };
+  let anvil: ChildProcess | null = null;
+  let config: Config;
+  let publicClient: PublicClient;
+  let walletClient: WalletClient;
+  let weth: Address;
+  let token: Address;
+
+  async function send(request: Parameters<WalletClient['writeContract']>[0]): Promise<void> {
+    const hash = await walletClient.writeContract(request);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    expect(receipt.status).toBe('success');
+  }
+
+  beforeAll(async () => {
+    anvil = spawn('anvil', ['--port', String(PORT), '--chain-id', '31337', '--silent'], {
+      stdio: 'ignore',
+    });
+
+    const chain = resolveChain({ chainId: 31337, rpcUrl: RPC_URL });
+    publicClient = createPublicClient({ chain, transport: http(RPC_URL) });
+    walletClient = createWalletClient({ account, chain, transport: http(RPC_URL) });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await publicClient.getBlockNumber();
+        break;
+      } catch (error) {
+        if (attempt >= 60) throw error;
+        await new Promise((r) => setTimeout(r, 500));
+      }
+    }
+
+    const deploy = spawnSync(
+      'forge',
+      ['script', 'script/DeployLocal.s.sol:DeployLocal', '--rpc-url', RPC_URL, '--broadcast'],
+      { cwd: CONTRACTS_DIR, env: { ...process.env, PRIVATE_KEY: ANVIL_KEY }, encoding: 'utf8', timeout: 600_000 }
+    );
+    if (deploy.status !== 0) {
+      throw new Error(`forge script failed:\n${deploy.stdout}\n${deploy.stderr}`);
+    }
+
+    // The script's pool is the only one; the router always includes the agent's pool
+    ({ MockWETH: weth, MockERC20: token } = loadDeployment(DEPLOYMENT_FILE).contracts);
+    Object.assign(process.env, {
+      CHAIN_PROFILE: 'anvil',
+      RPC_URL,
+      DEPLOYMENT_FILE,
+      KEEPER_PRIVATE_KEY: ANVIL_KEY,
+      EXECUTION_STORE: 'memory',
+      WRAPPED_NATIVE_ADDRESS: weth,
+      ROUTING_POOLS: '[]',
+    });
+    config = loadConfig();
+  }, 900_000);
+
+  afterAll(() => {
+    anvil?.kill();
+    process.env = savedEnv;
+  });
+
+  it('executes a funded TIME_WEIGHTED agent once per cooldown', async () => {
+    const poolKey = buildPoolKey(token, weth, 3000, 60);
+    const deposit = parseEther('1');
+
+    await send({
+      address: config.strategyAgentAddress,
+      abi: agentAbi,
+      functionName: 'createAgent',
+      args: ['dca-e2e', poolKey, [
+        { ruleType: 1, threshold: 0n, targetValue: 3600n, cooldown: 3600n, lastExecuted: 0n, enabled: true },
+      ]],
+      account,
+      chain: walletClient.chain,
+    });
+    const agentId = (await publicClient.readContract({
+      address: config.strategyAgentAddress,
+      abi: agentAbi,
+      functionName: 'totalAgents',
+    })) as bigint;
+
+    await send({ address: weth, abi: wethAbi, functionName: 'deposit', value: deposit, account, chain: walletClient.chain });
+    await send({
+      address: weth,
+      abi: wethAbi,
+      functionName: 'approve',
+      args: [config.strategyAgentAddress, deposit],
+      account,
+      chain: walletClient.chain,
+    });
+    await send({
+      address: config.strategyAgentAddress,
+      abi: agentAbi,
+      functionName: 'deposit',
+      args: [agentId, weth, deposit],
+      account,
+      chain: walletClient.chain,
+    });
+
+    const evaluator = createRuleEvaluator(config);
+    const executor = createExecutor(config);
+
+    const [snapshot] = await evaluator.loadSnapshots([agentId]);
+    const [evaluation] = await evaluator.evaluateSnapshot(snapshot);
+    expect(evaluation.shouldExecute).toBe(true);
+
+    const result = await executor.execute(evaluation, snapshot);
+    expect(result).toMatchObject({ success: true, executionMode: 'on-chain', amountIn: deposit / 10n });
+    expect(result.transactionHash).toBeDefined();
+
+    const [rule] = (await publicClient.readContract({
+      address: config.strategyAgentAddress,
+      abi: agentAbi,
+      functionName: 'getRules',
+      args: [agentId],
+    })) as Array<{ lastExecuted: bigint }>;
+    expect(rule.lastExecuted).toBeGreaterThan(0n);
+
+    // Inside the cooldown the contract refuses, and the keeper does not retry
+    const [after] = await evaluator.loadSnapshots([agentId]);
+    const again = await executor.execute(evaluation, after);
+    expect(again).toMatchObject({ success: false, failureCode: 'COOLDOWN_OR_DISABLED' });
+  }, 300_000);
+});
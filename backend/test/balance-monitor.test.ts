@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther, type Address } from 'viem';
+import { BalanceMonitor, type BalanceLevel } from '../src/balance-monitor.js';
+import type { Config } from '../src/config.js';
+
+const KEEPER = '0x1111111111111111111111111111111111111111' as Address;
+
+const config = {
+  keeperBalanceWarnEth: '0.05',
+  keeperBalanceCriticalEth: '0.01',
+  balanceCheckIntervalMs: 60000,
+} as Config;
+
+function fakeKeeper(balance: bigint, executionCost: bigint | Error) {
+  const source = {
+    balance,
+    getKeeperAddress: () => KEEPER,
+    getKeeperBalance: async () => source.balance,
+    estimateExecutionCost: async () => {
+      if (executionCost instanceof Error) throw executionCost;
+      return executionCost;
+    },
+  };
+  return source;
+}
+
+describe('BalanceMonitor', () => {
+  it('estimates executions remaining and warns below the warn threshold', async () => {
+    const monitor = new BalanceMonitor(config, fakeKeeper(parseEther('0.03'), parseEther('0.002')));
+
+    const state = await monitor.check();
+
+    expect(state.level).toBe('warn');
+    expect(state.executionsRemaining).toBe(15);
+    expect(state.onChainPaused).toBe(false);
+  });
+
+  it('pauses on-chain execution below critical and resumes after a top-up', async () => {
+    const keeper = fakeKeeper(parseEther('0.005'), parseEther('0.002'));
+    const monitor = new BalanceMonitor(config, keeper);
+    const changes: Array<[BalanceLevel, BalanceLevel | null]> = [];
+    monitor.onLevelChange((state, previous) => changes.push([state.level, previous]));
+
+    expect((await monitor.check()).onChainPaused).toBe(true);
+    await monitor.check();
+    keeper.balance = parseEther('1');
+    expect((await monitor.check()).onChainPaused).toBe(false);
+
+    expect(changes).toEqual([
+      ['critical', null],
+      ['ok', 'critical'],
+    ]);
+  });
+
+  it('still sets the level when the cost estimate fails', async () => {
+    const monitor = new BalanceMonitor(config, fakeKeeper(parseEther('0.001'), new Error('fee history unavailable')));
+
+    const state = await monitor.check();
+
+    expect(state.level).toBe('critical');
+    expect(state.executionsRemaining).toBeNull();
+  });
+});
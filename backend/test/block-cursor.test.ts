@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BlockCursor } from '../src/block-cursor.js';
+import type { Config } from '../src/config.js';
+
+function testConfig(dataDir: string, overrides: Partial<Config> = {}): Config {
+  return {
+    chainId: 11155111,
+    strategyAgentAddress: '0x4Ac56F676e8fA23BAF54E5f387E84E8623e3D5aa',
+    yellFiHookAddress: '0x0000000000000000000000000000000000000000',
+    dataDir,
+    ...overrides,
+  } as Config;
+}
+
+describe('BlockCursor', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'yellfi-cursor-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('returns null before anything is saved', () => {
+    expect(new BlockCursor(testConfig(dataDir)).load()).toBeNull();
+  });
+
+  it('round-trips the last processed block', () => {
+    new BlockCursor(testConfig(dataDir)).save(7_654_321n);
+    expect(new BlockCursor(testConfig(dataDir)).load()).toBe(7_654_321n);
+  });
+
+  it('ignores a cursor written for another deployment', () => {
+    new BlockCursor(testConfig(dataDir)).save(100n);
+    const redeployed = testConfig(dataDir, {
+      strategyAgentAddress: '0x1111111111111111111111111111111111111111',
+    });
+
+    expect(new BlockCursor(redeployed).load()).toBeNull();
+  });
+
+  it('ignores a corrupt cursor file', () => {
+    writeFileSync(join(dataDir, 'event-cursor.json'), '{not json');
+    expect(new BlockCursor(testConfig(dataDir)).load()).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getAddress } from 'viem';
+import { parseDeployment } from '../src/deployment.js';
+import { loadChainConfigs, loadConfig } from '../src/config.js';
+import { resolveChain } from '../src/chains.js';
+
+const BROADCAST = {
+  chain: 31337,
+  transactions: [
+    { transactionType: 'CREATE', contractName: 'YellowExecutorAdapter', contractAddress: '0x5fbdb2315678afecb367f032d93f642f64180aa3' },
+    { transactionType: 'CREATE', contractName: 'StrategyAgent', contractAddress: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512' },
+    { transactionType: 'CALL', contractName: 'YellowExecutorAdapter', contractAddress: '0x5fbdb2315678afecb367f032d93f642f64180aa3' },
+  ],
+};
+
+const LENS = '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0';
+const QUOTER = '0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9';
+const TOKEN = '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9';
+
+const ENV_KEYS = [
+  'CHAIN_PROFILE',
+  'DEPLOYMENT_FILE',
+  'CHAIN_ID',
+  'RPC_URL',
+  'KEEPER_PRIVATE_KEY',
+  'KEEPER_PRIVATE_KEY_31337',
+  'STRATEGY_AGENT_ADDRESS',
+  'STATE_VIEW_ADDRESS',
+  'QUOTER_ADDRESS',
+  'WRAPPED_NATIVE_ADDRESS',
+  'SEPOLIA_FORK',
+  'CHAINS',
+];
+
+describe('deployment', () => {
+  const saved = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  let dir: string | null = null;
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  function writeBroadcast(broadcast: unknown): string {
+    dir = mkdtempSync(join(tmpdir(), 'yellfi-deployment-'));
+    const path = join(dir, 'run-latest.json');
+    writeFileSync(path, JSON.stringify(broadcast));
+    return path;
+  }
+
+  it('reads created contracts from a Foundry broadcast', () => {
+    const deployment = parseDeployment(JSON.stringify(BROADCAST));
+
+    expect(deployment.chainId).toBe(31337);
+    expect(deployment.contracts).toEqual({
+      YellowExecutorAdapter: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      StrategyAgent: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    });
+  });
+
+  it('configures the anvil profile from a deployment file', () => {
+    process.env.CHAIN_PROFILE = 'anvil';
+    process.env.SEPOLIA_FORK = 'true';
+    process.env.DEPLOYMENT_FILE = writeBroadcast(BROADCAST);
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+    delete process.env.RPC_URL;
+    delete process.env.CHAIN_ID;
+    delete process.env.STRATEGY_AGENT_ADDRESS;
+
+    const config = loadConfig();
+
+    expect(config.chainId).toBe(31337);
+    expect(config.rpcUrl).toBe('http://127.0.0.1:8545');
+    expect(config.strategyAgentAddress).toBe('0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512');
+    expect(config.executorAdapterAddress).toBe('0x5FbDB2315678afecb367f032d93F642f64180aa3');
+    expect(resolveChain(config).id).toBe(31337);
+    expect(resolveChain(config).contracts?.multicall3).toBeDefined();
+  });
+
+  it('requires Uniswap and WETH addresses for a primary chain that is not Sepolia', () => {
+    process.env.CHAIN_PROFILE = 'anvil';
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+    for (const key of ['RPC_URL', 'CHAIN_ID', 'STRATEGY_AGENT_ADDRESS', 'STATE_VIEW_ADDRESS', 'QUOTER_ADDRESS', 'WRAPPED_NATIVE_ADDRESS', 'SEPOLIA_FORK']) {
+      delete process.env[key];
+    }
+
+    process.env.DEPLOYMENT_FILE = writeBroadcast(BROADCAST);
+    expect(() => loadConfig()).toThrow(/no WETH9 address, set WRAPPED_NATIVE_ADDRESS/);
+
+    process.env.WRAPPED_NATIVE_ADDRESS = TOKEN;
+    expect(() => loadConfig()).toThrow(/no StateView address, set STATE_VIEW_ADDRESS/);
+
+    // Lenses from the deployment file, WETH from the environment
+    process.env.DEPLOYMENT_FILE = writeBroadcast({
+      chain: 31337,
+      transactions: [
+        ...BROADCAST.transactions,
+        { transactionType: 'CREATE', contractName: 'StateView', contractAddress: LENS },
+        { transactionType: 'CREATE', contractName: 'V4Quoter', contractAddress: QUOTER },
+      ],
+    });
+    const config = loadConfig();
+
+    expect(config.stateViewAddress).toBe(getAddress(LENS));
+    expect(config.quoterAddress).toBe(getAddress(QUOTER));
+    expect(config.wrappedNativeAddress).toBe(TOKEN);
+  });
+
+  it('rejects a deployment for another chain', () => {
+    process.env.CHAIN_PROFILE = 'anvil';
+    process.env.CHAIN_ID = '11155111';
+    process.env.DEPLOYMENT_FILE = writeBroadcast(BROADCAST);
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+
+    expect(() => loadConfig()).toThrow(/chain 31337/);
+  });
+
+  it('adds a chain from CHAINS with its own keeper key', () => {
+    delete process.env.CHAIN_PROFILE;
+    delete process.env.DEPLOYMENT_FILE;
+    delete process.env.CHAIN_ID;
+    delete process.env.RPC_URL;
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+    process.env.KEEPER_PRIVATE_KEY_31337 = `0x${'22'.repeat(32)}`;
+    process.env.CHAINS = JSON.stringify([{ profile: 'anvil', sepoliaFork: true, deploymentFile: writeBroadcast(BROADCAST) }]);
+
+    const [primary, local] = loadChainConfigs();
+
+    expect(primary.chainId).toBe(11155111);
+    expect(local.chainId).toBe(31337);
+    expect(local.strategyAgentAddress).toBe('0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512');
+    expect(local.executionSigner).toEqual({ kind: 'private-key', privateKey: `0x${'22'.repeat(32)}` });
+    expect(local.dataDir).toBe(join(primary.dataDir, 'chain-31337'));
+  });
+
+  it('requires Uniswap and WETH addresses for a chain that is not Sepolia', () => {
+    delete process.env.CHAIN_PROFILE;
+    delete process.env.DEPLOYMENT_FILE;
+    delete process.env.CHAIN_ID;
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+    const deploymentFile = writeBroadcast(BROADCAST);
+
+    process.env.CHAINS = JSON.stringify([{ profile: 'anvil', deploymentFile }]);
+    expect(() => loadChainConfigs()).toThrow(/no WETH9 address, set wrappedNativeAddress in CHAINS/);
+
+    process.env.CHAINS = JSON.stringify([{ profile: 'anvil', deploymentFile, wrappedNativeAddress: TOKEN }]);
+    expect(() => loadChainConfigs()).toThrow(/no StateView address, set stateViewAddress in CHAINS/);
+
+    // Lenses from the deployment file, WETH from the entry
+    process.env.CHAINS = JSON.stringify([{
+      profile: 'anvil',
+      deploymentFile: writeBroadcast({
+        chain: 31337,
+        transactions: [
+          ...BROADCAST.transactions,
+          { transactionType: 'CREATE', contractName: 'StateView', contractAddress: LENS },
+          { transactionType: 'CREATE', contractName: 'V4Quoter', contractAddress: QUOTER },
+        ],
+      }),
+      wrappedNativeAddress: TOKEN,
+    }]);
+    const [, local] = loadChainConfigs();
+
+    expect(local.stateViewAddress).toBe(getAddress(LENS));
+    expect(local.quoterAddress).toBe(getAddress(QUOTER));
+    expect(local.wrappedNativeAddress).toBe(TOKEN);
+    expect(local.routingPools).toEqual([]);
+  });
+
+  it('rejects a chain configured twice', () => {
+    delete process.env.CHAIN_PROFILE;
+    delete process.env.DEPLOYMENT_FILE;
+    delete process.env.CHAIN_ID;
+    process.env.KEEPER_PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+    process.env.CHAINS = JSON.stringify([
+      { profile: 'sepolia', strategyAgentAddress: BROADCAST.transactions[1].contractAddress, executorAdapterAddress: BROADCAST.transactions[0].contractAddress },
+    ]);
+
+    expect(() => loadChainConfigs()).toThrow(/more than once/);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EntryPriceStore } from '../src/entry-prices.js';
+import type { Config } from '../src/config.js';
+
+describe('EntryPriceStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'yellfi-entry-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps entry prices across a restart', async () => {
+    const config = { executionStore: 'jsonl', dataDir } as Config;
+    const store = new EntryPriceStore(config);
+    await store.init();
+    store.set(1n, 1000n, 'first-seen');
+    store.set(1n, 1250n, 'fill');
+
+    const reopened = new EntryPriceStore(config);
+    await reopened.init();
+    expect(reopened.get(1n)).toMatchObject({ price: 1250n, origin: 'fill' });
+    expect(reopened.get(2n)).toBeUndefined();
+  });
+});
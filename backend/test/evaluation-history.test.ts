@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EvaluationHistory } from '../src/evaluation-history.js';
+import type { EvaluationResult } from '../src/rule-evaluator.js';
+import type { Config } from '../src/config.js';
+
+const SEPOLIA = 11155111;
+const DAY = 24 * 60 * 60 * 1000;
+
+function stopLoss(changeBps: number, cooldownRemainingSeconds = 0): EvaluationResult {
+  return {
+    agentId: 7n,
+    ruleIndex: 0,
+    shouldExecute: changeBps <= -500,
+    reason: `Price moved ${changeBps}bps from entry 1000, limit -500bps`,
+    code: changeBps <= -500 ? 'TRIGGERED' : 'NOT_TRIGGERED',
+    details: {
+      ruleType: 'STOP_LOSS',
+      threshold: 500n,
+      cooldownRemainingSeconds,
+      price: { current: BigInt(1000 + changeBps / 10), entry: 1000n, changeBps, source: 'stateview' },
+      signal: { signalType: 0, magnitude: 12n, ageSeconds: cooldownRemainingSeconds },
+    },
+  };
+}
+
+describe('EvaluationHistory', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'yellfi-evaluations-'));
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function history(): EvaluationHistory {
+    return new EvaluationHistory({ executionStore: 'jsonl', dataDir, evaluationHistoryRetentionMs: 7 * DAY } as Config);
+  }
+
+  it('folds unchanged decisions into one record and queries by rule and time', async () => {
+    const store = history();
+    await store.init();
+
+    // Countdowns tick without changing the decision
+    store.record(SEPOLIA, [stopLoss(-120, 60)], 100n);
+    vi.setSystemTime(2_000_000);
+    store.record(SEPOLIA, [stopLoss(-120, 30)], 101n);
+    vi.setSystemTime(3_000_000);
+    store.record(SEPOLIA, [stopLoss(-520)], 102n);
+
+    const { evaluations, total } = store.query({ chainId: SEPOLIA, agentId: '7', ruleIndex: 0 });
+    expect(total).toBe(2);
+    expect(evaluations[0]).toMatchObject({ shouldExecute: true, firstSeen: 3_000_000, count: 1, blockNumber: '102' });
+    expect(evaluations[1]).toMatchObject({ shouldExecute: false, firstSeen: 1_000_000, lastSeen: 2_000_000, count: 2 });
+    expect(evaluations[1].details).toEqual({
+      ruleType: 'STOP_LOSS',
+      threshold: '500',
+      signal: { signalType: 0, magnitude: '12' },
+      price: { current: '988', entry: '1000', changeBps: -120, source: 'stateview' },
+    });
+
+    // Which decision held at 2.5M: the run that ended at 2M does not overlap
+    expect(store.query({ chainId: SEPOLIA, agentId: '7', from: 2_500_000, to: 2_500_000 }).total).toBe(0);
+    expect(store.query({ chainId: SEPOLIA, agentId: '7', from: 1_500_000, to: 1_500_000 }).evaluations[0].count).toBe(2);
+    expect(store.query({ chainId: SEPOLIA, agentId: '7', ruleIndex: 1 }).total).toBe(0);
+  });
+
+  it('keeps one run while the price moves but the decision holds', async () => {
+    const store = history();
+    await store.init();
+
+    store.record(SEPOLIA, [stopLoss(-120)]);
+    vi.setSystemTime(2_000_000);
+    store.record(SEPOLIA, [stopLoss(-300)]);
+    vi.setSystemTime(3_000_000);
+    store.record(SEPOLIA, [stopLoss(-450)]);
+
+    const { evaluations } = store.query({ chainId: SEPOLIA, agentId: '7' });
+    expect(evaluations).toHaveLength(1);
+    expect(evaluations[0]).toMatchObject({
+      code: 'NOT_TRIGGERED',
+      reason: 'Price moved -120bps from entry 1000, limit -500bps',
+      firstSeen: 1_000_000,
+      lastSeen: 3_000_000,
+      count: 3,
+    });
+  });
+
+  it('replays runs with their final extent and starts new ones after a restart', async () => {
+    const store = history();
+    await store.init();
+    store.record(SEPOLIA, [stopLoss(-120)]);
+    vi.setSystemTime(2_000_000);
+    store.record(SEPOLIA, [stopLoss(-120)]);
+    store.flush();
+
+    // Start line plus the extended line for the same run
+    expect(readFileSync(join(dataDir, 'evaluations.jsonl'), 'utf8').trim().split('\n')).toHaveLength(2);
+
+    const reopened = history();
+    await reopened.init();
+    vi.setSystemTime(3_000_000);
+    reopened.record(SEPOLIA, [stopLoss(-120)]);
+
+    // The same decision after the restart does not extend the run across the downtime
+    const { evaluations } = reopened.query({ chainId: SEPOLIA, agentId: '7' });
+    expect(evaluations).toHaveLength(2);
+    expect(evaluations[0]).toMatchObject({ firstSeen: 3_000_000, lastSeen: 3_000_000, count: 1 });
+    expect(evaluations[1]).toMatchObject({ firstSeen: 1_000_000, lastSeen: 2_000_000, count: 2 });
+  });
+
+  it('drops records past retention when compacting', async () => {
+    const store = history();
+    await store.init();
+    store.record(SEPOLIA, [stopLoss(-120)]);
+    vi.setSystemTime(1_000_000 + 8 * DAY);
+    store.record(SEPOLIA, [stopLoss(-600)]);
+
+    const { evaluations } = store.query({ chainId: SEPOLIA, agentId: '7' });
+    expect(evaluations.map((e) => e.reason)).toEqual(['Price moved -600bps from entry 1000, limit -500bps']);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import type { Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import { ApiServer } from '../src/api-server.js';
+import { explainAgent, type ExplainSources } from '../src/evaluation-report.js';
+import type { AgentSnapshot } from '../src/agent-snapshot.js';
+import type { AgentConfig, Rule } from '../src/rule-evaluator.js';
+import type { Config } from '../src/config.js';
+
+const SEPOLIA = 11155111;
+const TOKEN0 = '0x0000000000000000000000000000000000000001' as Address;
+const TOKEN1 = '0x0000000000000000000000000000000000000002' as Address;
+const OWNER = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function snapshot(agentId: bigint): AgentSnapshot {
+  return {
+    agentId,
+    agent: {
+      status: 1,
+      poolKey: { currency0: TOKEN0, currency1: TOKEN1 },
+    } as unknown as AgentConfig,
+    rules: [{} as Rule, {} as Rule],
+    canExecute: [true, false],
+    balances: { currency0: 5000n, currency1: 0n },
+    poolId: null,
+    latestSignal: null,
+    blockNumber: 42n,
+  };
+}
+
+// Rule 0 is ready, rule 1 is cooling down
+const sources: ExplainSources = {
+  evaluateSnapshot: async (s) => [
+    { agentId: s.agentId, ruleIndex: 0, shouldExecute: true, reason: 'Signal matched', details: { canExecute: true } },
+    {
+      agentId: s.agentId,
+      ruleIndex: 1,
+      shouldExecute: false,
+      reason: 'Cooldown not elapsed',
+      details: { canExecute: false, cooldownRemainingSeconds: 120 },
+    },
+  ],
+  previewQuote: async (_agentId, ruleIndex) =>
+    ruleIndex === 0 ? { ok: true, amountIn: 5000n, quotedAmountOut: 4900n } : { ok: false, error: 'unexpected' },
+};
+
+describe('explainAgent', () => {
+  it('quotes only the rules the contract would accept', async () => {
+    const report = await explainAgent(SEPOLIA, snapshot(1n), sources);
+
+    expect(report.balances.currency0).toEqual({ token: TOKEN0, amount: 5000n });
+    expect(report.blockNumber).toBe(42n);
+    expect(report.rules[0].quote).toEqual({ ok: true, amountIn: 5000n, quotedAmountOut: 4900n });
+    expect(report.rules[1].quote).toBeNull();
+    expect(report.rules[1].details.cooldownRemainingSeconds).toBe(120);
+  });
+});
+
+describe('GET /api/owner/agents/:id/evaluation(s)', () => {
+  let server: ApiServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  // Agents 1 and 2 belong to OWNER; only agent 1 can be explained
+  async function start(): Promise<{ base: string; auth: Record<string, string>; evaluations: () => number }> {
+    const port = await freePort();
+    server = new ApiServer({
+      chainId: SEPOLIA,
+      executionStore: 'memory',
+      pollIntervalMs: 60_000,
+      ownerSessionTtlMs: 60_000,
+      siweDomain: 'yellfi.test',
+    } as Config, port);
+
+    let evaluations = 0;
+    server.setOwnerServices({
+      getAgentOwner: async () => OWNER.address,
+      getDiagnostics: async () => ({}),
+    });
+    server.setAgentExplainer(async (chainId, agentId) => {
+      if (agentId !== 1n) return null;
+      evaluations++;
+      return explainAgent(chainId, snapshot(agentId), sources);
+    });
+    await server.start();
+    const base = `http://127.0.0.1:${port}`;
+
+    const { nonce } = await fetch(`${base}/api/auth/nonce`).then((r) => r.json());
+    const message = createSiweMessage({
+      address: OWNER.address,
+      chainId: SEPOLIA,
+      domain: 'yellfi.test',
+      nonce,
+      uri: 'https://yellfi.test',
+      version: '1',
+    });
+    const signature = await OWNER.signMessage({ message });
+    const { token } = await fetch(`${base}/api/auth/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ message, signature }),
+    }).then((r) => r.json());
+
+    return { base, auth: { Authorization: `Bearer ${token}` }, evaluations: () => evaluations };
+  }
+
+  it('serves cached reports within the poll interval and 404s unknown agents', async () => {
+    const { base, auth, evaluations } = await start();
+
+    const first = await fetch(`${base}/api/owner/agents/1/evaluation`, { headers: auth }).then((r) => r.json());
+    expect(first.cached).toBe(false);
+    expect(first.agentId).toBe('1');
+    expect(first.rules[0].quote.quotedAmountOut).toBe('4900');
+
+    const second = await fetch(`${base}/api/owner/agents/1/evaluation?refresh=true`, { headers: auth }).then((r) => r.json());
+    expect(second.cached).toBe(true);
+    expect(evaluations()).toBe(1);
+
+    const missing = await fetch(`${base}/api/owner/agents/2/evaluation`, { headers: auth });
+    expect(missing.status).toBe(404);
+  });
+
+  it('requires a session and limits requests per client', async () => {
+    const { base, auth, evaluations } = await start();
+
+    expect((await fetch(`${base}/api/owner/agents/1/evaluation`)).status).toBe(401);
+    expect((await fetch(`${base}/api/agents/1/evaluation`)).status).toBe(404);
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 21; i++) {
+      statuses.push((await fetch(`${base}/api/owner/agents/1/evaluation`, { headers: auth })).status);
+    }
+    expect(statuses.slice(0, 20).every((status) => status === 200)).toBe(true);
+    expect(statuses[20]).toBe(429);
+    expect(evaluations()).toBe(1);
+  });
+
+  it('serves the decision history to the owner only', async () => {
+    const { base, auth } = await start();
+    server!.recordEvaluations(SEPOLIA, [{ agentId: 1n, ruleIndex: 0, shouldExecute: false, reason: 'No signal' }]);
+
+    expect((await fetch(`${base}/api/owner/agents/1/evaluations`)).status).toBe(401);
+    expect((await fetch(`${base}/api/agents/1/evaluations`)).status).toBe(404);
+
+    const history = await fetch(`${base}/api/owner/agents/1/evaluations?rule=0`, { headers: auth }).then((r) => r.json());
+    expect(history.total).toBe(1);
+    expect(history.evaluations[0]).toMatchObject({ agentId: '1', ruleIndex: 0, reason: 'No signal' });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { EventStream } from '../src/event-stream.js';
+
+const SEPOLIA = 11155111;
+const ANVIL = 31337;
+
+describe('EventStream', () => {
+  let stream: EventStream;
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    stream = new EventStream(3);
+    server = createServer((req, res) => {
+      const chainId = new URL(req.url || '/', 'http://localhost').searchParams.get('chainId');
+      stream.subscribe(req, res, chainId ? parseInt(chainId) : undefined);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    stream.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Read the stream until it contains `until`, then disconnect; onOpen runs once subscribed
+  async function read(
+    path: string,
+    until: string,
+    headers: Record<string, string> = {},
+    onOpen?: () => void
+  ): Promise<string> {
+    const controller = new AbortController();
+    const response = await fetch(`${url}${path}`, { headers, signal: controller.signal });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let opened = false;
+    while (!text.includes(until)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+      if (!opened && text.includes('retry:')) {
+        opened = true;
+        onOpen?.();
+      }
+    }
+    controller.abort();
+    return text;
+  }
+
+  it('pushes events for the subscribed chain with bigints as strings', async () => {
+    const text = await read(`/?chainId=${SEPOLIA}`, '"ruleIndex":2', {}, () => {
+      stream.publish('execution', ANVIL, { agentId: 1n, ruleIndex: 1 });
+      stream.publish('execution', SEPOLIA, { agentId: 7n, ruleIndex: 2 });
+    });
+
+    expect(text).not.toContain('"ruleIndex":1');
+    expect(text).toContain(`event: execution\ndata: {"chainId":${SEPOLIA},"agentId":"7","ruleIndex":2}`);
+  });
+
+  it('replays events after Last-Event-ID', async () => {
+    const first = stream.publish('agent-status', SEPOLIA, { agentId: 1n });
+    stream.publish('agent-status', SEPOLIA, { agentId: 2n });
+    const last = stream.publish('evaluation-cycle', SEPOLIA, { agentsEvaluated: 2 });
+
+    const text = await read('/', `id: ${last.id}`, { 'Last-Event-ID': first.id });
+
+    expect(text).not.toContain('"agentId":"1"');
+    expect(text).toContain('"agentId":"2"');
+    expect(text).toContain('event: evaluation-cycle');
+  });
+
+  it('asks the client to resync when the id is no longer buffered', async () => {
+    const first = stream.publish('signal', SEPOLIA, { signalType: 1 });
+    for (let i = 0; i < 3; i++) stream.publish('signal', SEPOLIA, { signalType: 2 });
+
+    const text = await read('/', 'event: resync', { 'Last-Event-ID': first.id });
+
+    expect(text).toContain('event: resync');
+    expect(text).not.toContain('event: signal');
+  });
+});
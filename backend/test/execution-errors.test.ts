@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  encodeErrorResult,
+  parseAbi,
+  type Hash,
+} from 'viem';
+import { classifyError, TransactionRevertedError } from '../src/execution-errors.js';
+import { StrategyAgentABI } from '../src/abis/index.js';
+import { StuckTransactionError } from '../src/tx-manager.js';
+
+const TX_HASH = `0x${'ab'.repeat(32)}` as Hash;
+const errorAbi = parseAbi(['error Error(string)']);
+
+function revert(reason: string): ContractFunctionExecutionError {
+  const data = encodeErrorResult({ abi: errorAbi, errorName: 'Error', args: [reason] });
+  const cause = new ContractFunctionRevertedError({ abi: StrategyAgentABI, data, functionName: 'execute' });
+  return new ContractFunctionExecutionError(cause, { abi: StrategyAgentABI, functionName: 'execute', args: [] });
+}
+
+describe('classifyError', () => {
+  it('decodes StrategyAgent reverts as non-retryable', () => {
+    const classified = classifyError(revert('Cannot execute: cooldown or disabled'), 'simulation');
+
+    expect(classified).toMatchObject({
+      code: 'COOLDOWN_OR_DISABLED',
+      failureClass: 'revert',
+      retryable: false,
+      revertReason: 'Cannot execute: cooldown or disabled',
+    });
+    expect(classifyError(revert('Insufficient agent balance'), 'simulation').code).toBe('INSUFFICIENT_AGENT_BALANCE');
+  });
+
+  it('classifies adapter slippage reverts', () => {
+    expect(classifyError(revert('Slippage exceeded'), 'simulation')).toMatchObject({
+      code: 'SLIPPAGE_EXCEEDED',
+      failureClass: 'slippage',
+      retryable: false,
+    });
+  });
+
+  it('keeps unrecognised reverts as reverts', () => {
+    expect(classifyError(revert('Something new'), 'simulation')).toMatchObject({
+      code: 'REVERTED',
+      revertReason: 'Something new',
+    });
+  });
+
+  it('retries transport failures', () => {
+    const error = new HttpRequestError({ url: 'https://rpc.example', status: 503 });
+
+    expect(classifyError(error, 'submission')).toMatchObject({
+      code: 'RPC_UNAVAILABLE',
+      failureClass: 'rpc',
+      retryable: true,
+    });
+  });
+
+  it('does not retry stuck or reverted transactions', () => {
+    expect(classifyError(new StuckTransactionError(3, [TX_HASH]), 'confirmation')).toMatchObject({
+      code: 'TX_STUCK',
+      retryable: false,
+    });
+    expect(classifyError(new TransactionRevertedError(TX_HASH), 'confirmation').code).toBe('TX_REVERTED');
+  });
+
+  it('falls back to the stage for unrecognised errors', () => {
+    expect(classifyError(new Error('no pool'), 'quote')).toMatchObject({ code: 'QUOTE_FAILED', failureClass: 'simulation' });
+    expect(classifyError(new Error('ws closed'), 'state-channel')).toMatchObject({
+      code: 'STATE_CHANNEL_FAILED',
+      failureClass: 'state-channel',
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { type Hash } from 'viem';
+import { ExecutionGuard } from '../src/execution-guard.js';
+import type { Config } from '../src/config.js';
+
+const config = { executionDedupWindowMs: 60_000 } as Config;
+const TX_HASH = `0x${'ab'.repeat(32)}` as Hash;
+
+describe('ExecutionGuard', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks a rule while it executes', async () => {
+    const guard = new ExecutionGuard(config, async () => false);
+
+    const [first, second] = await Promise.all([guard.tryAcquire(1n, 0), guard.tryAcquire(1n, 0)]);
+
+    expect(first.lease).toBeDefined();
+    expect(second.blocked).toEqual({ reason: 'in-flight', detail: 'Rule is already executing' });
+    // Other rules and agents are independent
+    expect((await guard.tryAcquire(1n, 1)).lease).toBeDefined();
+    expect((await guard.tryAcquire(2n, 0)).lease).toBeDefined();
+  });
+
+  it('holds a rule for the dedup window after it executes', async () => {
+    vi.useFakeTimers();
+    const guard = new ExecutionGuard(config, async () => false);
+
+    guard.release((await guard.tryAcquire(1n, 0)).lease!, { success: true });
+    vi.advanceTimersByTime(15_000);
+    expect((await guard.tryAcquire(1n, 0)).blocked).toEqual({
+      reason: 'dedup-window',
+      detail: 'Rule executed recently, retry in 45s',
+    });
+
+    vi.advanceTimersByTime(45_000);
+    expect((await guard.tryAcquire(1n, 0)).lease).toBeDefined();
+  });
+
+  it('frees a rule immediately after a failed execution', async () => {
+    const guard = new ExecutionGuard(config, async () => false);
+
+    guard.release((await guard.tryAcquire(1n, 0)).lease!, { success: false });
+
+    expect((await guard.tryAcquire(1n, 0)).lease).toBeDefined();
+  });
+
+  it('holds a rule while its transaction is pending, beyond the window', async () => {
+    vi.useFakeTimers();
+    let pending = true;
+    const guard = new ExecutionGuard(config, async (hash) => hash === TX_HASH && pending);
+
+    guard.release((await guard.tryAcquire(1n, 0)).lease!, { success: false, pendingTransactionHash: TX_HASH });
+    vi.advanceTimersByTime(10 * 60_000);
+    expect((await guard.tryAcquire(1n, 0)).blocked?.reason).toBe('pending-transaction');
+
+    pending = false;
+    expect((await guard.tryAcquire(1n, 0)).lease).toBeDefined();
+  });
+
+  it('stays locked when the pending check fails', async () => {
+    const guard = new ExecutionGuard(config, async () => {
+      throw new Error('rpc down');
+    });
+
+    guard.release((await guard.tryAcquire(1n, 0)).lease!, { success: false, pendingTransactionHash: TX_HASH });
+
+    expect((await guard.tryAcquire(1n, 0)).blocked?.reason).toBe('pending-transaction');
+    expect(guard.getInFlightCount()).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonlExecutionStore, STORE_SCHEMA_VERSION } from '../src/execution-store.js';
+import type { ExecutionRecord } from '../src/api-server.js';
+
+const SEPOLIA = 11155111;
+
+function execution(id: string, agentId: bigint, timestamp: number, success = true, chainId = SEPOLIA): ExecutionRecord {
+  return { id, chainId, agentId, ruleIndex: 0, timestamp, success, executionMode: 'on-chain' };
+}
+
+describe('JsonlExecutionStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'yellfi-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('survives a restart', async () => {
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+    store.appendExecution(execution('a', 1n, 1000));
+    store.appendExecution(execution('b', 2n, 2000, false));
+    store.saveAgentStatus({ chainId: SEPOLIA, agentId: 1n, isActive: true, lastEvaluation: 5, pendingExecutions: 0, totalExecutions: 1 });
+    store.saveAgentStatus({ chainId: SEPOLIA, agentId: 1n, isActive: true, lastEvaluation: 9, pendingExecutions: 0, totalExecutions: 2 });
+
+    const reopened = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await reopened.init();
+
+    expect(reopened.getAllExecutions().map((e) => e.id)).toEqual(['b', 'a']);
+    expect(reopened.getAllExecutions()[0].agentId).toBe(2n);
+    expect(reopened.getAgentStatus(SEPOLIA, '1')?.lastEvaluation).toBe(9);
+  });
+
+  it('filters by agent, success and date range with pagination', async () => {
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+    for (let i = 1; i <= 5; i++) {
+      store.appendExecution(execution(`e${i}`, 1n, i * 1000, i % 2 === 1));
+    }
+    store.appendExecution(execution('other', 2n, 3000));
+
+    const successful = store.queryExecutions({ agentId: '1', success: true });
+    expect(successful.executions.map((e) => e.id)).toEqual(['e5', 'e3', 'e1']);
+
+    const ranged = store.queryExecutions({ agentId: '1', from: 2000, to: 4000, limit: 2, offset: 1 });
+    expect(ranged.total).toBe(3);
+    expect(ranged.executions.map((e) => e.id)).toEqual(['e3', 'e2']);
+  });
+
+  it('separates dry-run records from real executions', async () => {
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+    store.appendExecution(execution('real', 1n, 1000));
+    store.appendExecution({ ...execution('shadow', 1n, 2000), simulated: true });
+
+    expect(store.queryExecutions({ simulated: true }).executions.map((e) => e.id)).toEqual(['shadow']);
+    expect(store.queryExecutions({ simulated: false }).executions.map((e) => e.id)).toEqual(['real']);
+    expect(store.queryExecutions({}).total).toBe(2);
+  });
+
+  it('keeps chains apart', async () => {
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+    store.appendExecution(execution('sepolia', 1n, 1000));
+    store.appendExecution(execution('anvil', 1n, 2000, true, 31337));
+    store.saveAgentStatus({ chainId: 31337, agentId: 1n, isActive: true, lastEvaluation: 5, pendingExecutions: 0, totalExecutions: 1 });
+
+    expect(store.queryExecutions({ chainId: 31337 }).executions.map((e) => e.id)).toEqual(['anvil']);
+    expect(store.countExecutions(SEPOLIA, '1')).toBe(1);
+    expect(store.getAgentStatus(31337, '1')?.lastEvaluation).toBe(5);
+    expect(store.getAgentStatus(SEPOLIA, '1')).toBeUndefined();
+  });
+
+  it('migrates unversioned records and skips truncated lines', async () => {
+    writeFileSync(
+      join(dataDir, 'executions.jsonl'),
+      JSON.stringify({ id: 'legacy', agentId: '7', ruleIndex: 1, timestamp: 1, success: true, executionMode: 'on-chain' }) +
+        '\n{"id":"trunc'
+    );
+
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+
+    expect(store.getAllExecutions().map((e) => e.id)).toEqual(['legacy']);
+    expect(store.getAllExecutions()[0].chainId).toBe(SEPOLIA);
+    const rewritten = JSON.parse(readFileSync(join(dataDir, 'executions.jsonl'), 'utf8').trim());
+    expect(rewritten.v).toBe(STORE_SCHEMA_VERSION);
+  });
+
+  it('drops executions past retention on load and as new ones arrive', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    writeFileSync(
+      join(dataDir, 'executions.jsonl'),
+      [execution('expired', 1n, now - 3 * day), execution('kept', 1n, now - day)]
+        .map((e) => JSON.stringify({ ...e, agentId: e.agentId.toString(), v: STORE_SCHEMA_VERSION }) + '\n')
+        .join('')
+    );
+
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA }, 2 * day);
+    await store.init();
+
+    expect(store.getAllExecutions().map((e) => e.id)).toEqual(['kept']);
+    expect(readFileSync(join(dataDir, 'executions.jsonl'), 'utf8')).not.toContain('expired');
+    expect(store.countExecutions(SEPOLIA, '1')).toBe(1);
+
+    store.appendExecution(execution('fresh', 1n, now));
+    expect(store.getStats(SEPOLIA).total).toBe(2);
+  });
+
+  it('keeps running stats by outcome, mode and chain', async () => {
+    const store = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await store.init();
+    store.appendExecution(execution('ok', 1n, 1000));
+    store.appendExecution(execution('failed', 1n, 2000, false));
+    store.appendExecution({ ...execution('skipped', 1n, 3000, false), skipped: true });
+    store.appendExecution({ ...execution('channel', 2n, 4000), executionMode: 'state-channel' });
+    store.appendExecution({ ...execution('shadow', 1n, 5000), simulated: true });
+    store.appendExecution(execution('anvil', 1n, 6000, true, 31337));
+
+    expect(store.getStats(SEPOLIA)).toEqual({
+      total: 4,
+      successful: 2,
+      failed: 1,
+      skipped: 1,
+      simulated: 1,
+      stateChannel: 1,
+      onChain: 3,
+    });
+    expect(store.getStats().total).toBe(5);
+    expect(store.countExecutions(SEPOLIA, '1')).toBe(4);
+
+    const reopened = new JsonlExecutionStore(dataDir, { chainId: SEPOLIA });
+    await reopened.init();
+    expect(reopened.getStats(SEPOLIA)).toEqual(store.getStats(SEPOLIA));
+  });
+});
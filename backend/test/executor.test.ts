@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, getAddress, type Address, type Hash } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { Executor } from '../src/executor.js';
+import { StrategyAgentABI } from '../src/abis/index.js';
+import { PRICE_PRECISION } from '../src/price-oracle.js';
+import type { Config } from '../src/config.js';
+import type { SignerSpec } from '../src/signer.js';
+import type { ContractRequest, TransactionManager } from '../src/tx-manager.js';
+import type { AgentSnapshot } from '../src/agent-snapshot.js';
+import type { AgentConfig, EvaluationResult, Rule } from '../src/rule-evaluator.js';
+
+const OLD_KEY = `0x${'11'.repeat(32)}` as const;
+const NEW_KEY = `0x${'22'.repeat(32)}` as const;
+const STRANGER_KEY = `0x${'33'.repeat(32)}` as const;
+const STRATEGY_AGENT = '0x0000000000000000000000000000000000000a11';
+const TOKEN0 = '0x0000000000000000000000000000000000000001' as Address;
+const TOKEN1 = '0x0000000000000000000000000000000000000002' as Address;
+
+/**
+ * Fake chain shared by the mocked public and wallet clients: nonces per sender,
+ * transactions mine when `mine` is called, and only `keepers` pass the StrategyAgent check
+ * Receipts carry `receiptLogs`, e.g. the StrategyAgent's AgentExecuted event
+ */
+const chain = vi.hoisted(() => {
+  const sent: Array<{ from: string; nonce: number; hash: string }> = [];
+  const mined = new Map<string, number>(); // sender -> next unmined nonce
+  const keepers = new Set<string>();
+  const receiptLogs: unknown[] = [];
+
+  return {
+    sent,
+    keepers,
+    receiptLogs,
+    mine(hash: string) {
+      const tx = sent.find((s) => s.hash === hash)!;
+      mined.set(tx.from, Math.max(mined.get(tx.from) ?? 0, tx.nonce + 1));
+    },
+    publicClient: {
+      readContract: async ({ functionName, args }: { functionName: string; args: [string] }) =>
+        functionName === 'keepers' && keepers.has(args[0]),
+      getTransactionCount: async ({ address, blockTag }: { address: string; blockTag: string }) => {
+        const latest = mined.get(address) ?? 0;
+        if (blockTag !== 'pending') return latest;
+        return Math.max(latest, ...sent.filter((s) => s.from === address).map((s) => s.nonce + 1));
+      },
+      getTransaction: async ({ hash }: { hash: string }) => sent.find((s) => s.hash === hash),
+      estimateFeesPerGas: async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n }),
+      simulateContract: async (request: unknown) => ({ request }),
+      waitForTransactionReceipt: async ({ hash }: { hash: string }) => ({
+        transactionHash: hash,
+        status: 'success',
+        gasUsed: 21_000n,
+        logs: receiptLogs,
+      }),
+    },
+    wallet(from: string) {
+      return {
+        chain: undefined,
+        writeContract: async ({ nonce }: { nonce: number }) => {
+          const hash = `0x${(sent.length + 1).toString(16).padStart(64, '0')}`;
+          sent.push({ from, nonce, hash });
+          return hash;
+        },
+      };
+    },
+  };
+});
+
+vi.mock('../src/rpc-client.js', () => ({
+  createRobustPublicClient: () => chain.publicClient,
+}));
+
+vi.mock('viem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('viem')>()),
+  createWalletClient: ({ account }: { account: { address: string } }) => chain.wallet(account.address),
+}));
+
+function signer(privateKey: `0x${string}`): SignerSpec {
+  return { kind: 'private-key', privateKey };
+}
+
+function executorFor(privateKey: `0x${string}`, dryRun = false) {
+  const spec = signer(privateKey);
+  return new Executor({
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    rpcUrls: ['http://127.0.0.1:8545'],
+    strategyAgentAddress: STRATEGY_AGENT,
+    executionSigner: spec,
+    clearNodeSigner: spec,
+    swapSizingOverrides: '',
+    slippageOverrides: '',
+    defaultSlippageBps: 50,
+    maxSlippageBps: 500,
+    maxFeePerGasGwei: '50',
+    maxPriorityFeePerGasGwei: '2',
+    maxGasPerExecution: 1_000_000,
+    maxGasCostBps: 500,
+    routingPools: [],
+    maxRouteHops: 3,
+    txStuckTimeoutMs: 10,
+    feeBumpPercent: 20,
+    maxFeeBumps: 2,
+    dryRun,
+    maxRetries: 1,
+  } as unknown as Config);
+}
+
+function agentExecuted(agentId: bigint, amountIn: bigint, amountOut: bigint) {
+  return {
+    address: STRATEGY_AGENT,
+    topics: encodeEventTopics({ abi: StrategyAgentABI, eventName: 'AgentExecuted', args: { agentId } }),
+    data: encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'uint256' }, { type: 'uint256' }],
+      [`0x${'00'.repeat(32)}`, amountIn, amountOut]
+    ),
+  };
+}
+
+/**
+ * Stub everything before the transaction: quote 1000 token0 for 2000 token1,
+ * a valid route and a gas budget that allows execution
+ */
+function readyToSwap(executor: Executor): { evaluation: EvaluationResult; snapshot: AgentSnapshot } {
+  const quote = { tokenIn: TOKEN0, tokenOut: TOKEN1, amountIn: 1000n, amountOut: 2000n, minAmountOut: 1990n, route: [] };
+  executor['quoteRule'] = async () => ({ plan: {} as never, slippageBps: 50, quote: quote as never });
+  executor['yellowSDK'].validateRoute = async () => true;
+  executor['yellowSDK'].buildExecutionData = () => '0x';
+  executor['assessGas'] = async () => ({ allowed: true, gasLimit: 100_000n, estimatedCost: 1n }) as never;
+
+  return {
+    evaluation: { agentId: 7n, ruleIndex: 0, shouldExecute: true, reason: 'Signal matched' },
+    snapshot: {
+      agentId: 7n,
+      agent: { poolKey: { currency0: TOKEN0, currency1: TOKEN1 } } as AgentConfig,
+      rules: [{} as Rule],
+    } as unknown as AgentSnapshot,
+  };
+}
+
+const address = (privateKey: `0x${string}`): Address => getAddress(privateKeyToAccount(privateKey).address);
+
+describe('Executor.rotateSigners', () => {
+  it('rejects a key that is not a StrategyAgent keeper', async () => {
+    const executor = executorFor(OLD_KEY);
+
+    await expect(executor.rotateSigners({ executionSigner: signer(STRANGER_KEY), clearNodeSigner: signer(STRANGER_KEY) }))
+      .rejects.toThrow(/is not a StrategyAgent keeper/);
+
+    expect(executor.getKeeperAddress()).toBe(address(OLD_KEY));
+    expect(executor['yellowSDK'].address).toBe(address(OLD_KEY));
+  });
+
+  it('drains the old key until its pending transactions are mined', async () => {
+    chain.keepers.add(address(NEW_KEY));
+    const executor = executorFor(OLD_KEY);
+    const oldManager: TransactionManager = executor['signing'].txManager;
+    const { hash } = await oldManager.submit({ functionName: 'execute' } as unknown as ContractRequest);
+
+    await executor.rotateSigners({ executionSigner: signer(NEW_KEY), clearNodeSigner: signer(NEW_KEY) });
+
+    expect(executor.getKeeperAddress()).toBe(address(NEW_KEY));
+    expect(executor['yellowSDK'].address).toBe(address(NEW_KEY));
+    expect(executor['draining']).toEqual([oldManager]);
+
+    // Still pending: the old key stays in draining across reconciles
+    await executor.reconcileNonces();
+    expect(executor['draining']).toEqual([oldManager]);
+
+    chain.mine(hash as Hash);
+    await executor.reconcileNonces();
+    expect(executor['draining']).toEqual([]);
+    expect(oldManager.getPendingCount()).toBe(0);
+  });
+
+  it('swaps only the ClearNode account when the execution key is unchanged', async () => {
+    const executor = executorFor(OLD_KEY);
+
+    await executor.rotateSigners({ executionSigner: signer(OLD_KEY), clearNodeSigner: signer(STRANGER_KEY) });
+
+    expect(executor.getKeeperAddress()).toBe(address(OLD_KEY));
+    expect(executor['yellowSDK'].address).toBe(address(STRANGER_KEY));
+    expect(executor['draining']).toEqual([]);
+  });
+});
+
+describe('Executor.execute', () => {
+  it('prices the fill from the amounts in the receipt, not the quote', async () => {
+    chain.keepers.add(address(OLD_KEY));
+    const executor = executorFor(OLD_KEY);
+    const { evaluation, snapshot } = readyToSwap(executor);
+    // Quoted 2000 out, received 1800
+    chain.receiptLogs.splice(0, chain.receiptLogs.length, agentExecuted(7n, 1000n, 1800n));
+
+    const result = await executor.execute(evaluation, snapshot);
+
+    expect(result).toMatchObject({ success: true, executionMode: 'on-chain', quotedAmountOut: 2000n, amountOut: 1800n });
+    expect(result.fillPrice).toBe((1800n * PRICE_PRECISION) / 1000n);
+  });
+
+  it('stops after simulation in dry run without sending or using a nonce', async () => {
+    chain.keepers.add(address(OLD_KEY));
+    const executor = executorFor(OLD_KEY, true);
+    const { evaluation, snapshot } = readyToSwap(executor);
+    const txManager: TransactionManager = executor['signing'].txManager;
+    const sent = chain.sent.length;
+
+    const result = await executor.execute(evaluation, snapshot);
+
+    expect(result).toMatchObject({ success: true, simulated: true, executionMode: 'on-chain' });
+    expect(result.transactionHash).toBeUndefined();
+    expect(result.fillPrice).toBeUndefined();
+    expect(chain.sent.length).toBe(sent);
+    expect(txManager['nextNonce']).toBeNull();
+    expect(txManager.getPendingCount()).toBe(0);
+  });
+});
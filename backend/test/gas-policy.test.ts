@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseGwei, type Address } from 'viem';
+import { GasPolicy } from '../src/gas-policy.js';
+import { SEPOLIA_TOKENS, type Config } from '../src/config.js';
+
+const config = {
+  maxFeePerGasGwei: '50',
+  maxPriorityFeePerGasGwei: '2',
+  maxGasPerExecution: 1_000_000,
+  maxGasCostBps: 500,
+  wrappedNativeAddress: SEPOLIA_TOKENS.WETH,
+} as Config;
+
+const ONE_ETH = 10n ** 18n;
+const fees = (maxFeeGwei: string, priorityGwei: string) => ({
+  maxFeePerGas: parseGwei(maxFeeGwei),
+  maxPriorityFeePerGas: parseGwei(priorityGwei),
+});
+
+describe('GasPolicy', () => {
+  const policy = new GasPolicy(config);
+
+  it('caps fees at the configured ceilings', () => {
+    expect(policy.capFees(fees('80', '5'))).toEqual(fees('50', '2'));
+    expect(policy.capFees(fees('10', '1'))).toEqual(fees('10', '1'));
+    // Priority fee never exceeds the max fee
+    expect(policy.capFees(fees('1', '2'))).toEqual(fees('1', '1'));
+  });
+
+  it('allows executions within budget and worth their gas', () => {
+    // 200k gas at 10 gwei = 0.002 ETH against 5% of 1 ETH
+    const assessment = policy.assess(200_000n, fees('10', '1'), ONE_ETH);
+
+    expect(assessment.allowed).toBe(true);
+    expect(assessment.gasLimit).toBe(240_000n);
+    expect(assessment.estimatedCost).toBe(200_000n * parseGwei('10'));
+  });
+
+  it('skips executions whose gas outweighs the notional', () => {
+    // 0.002 ETH of gas against a 0.01 ETH swap (5% = 0.0005 ETH)
+    const assessment = policy.assess(200_000n, fees('10', '1'), ONE_ETH / 100n);
+
+    expect(assessment.allowed).toBe(false);
+    expect(assessment.reason).toMatch(/exceeds 500 bps of notional/);
+  });
+
+  it('skips executions over the per-execution gas budget', () => {
+    const assessment = policy.assess(1_200_000n, fees('1', '1'), 100n * ONE_ETH);
+
+    expect(assessment.allowed).toBe(false);
+    expect(assessment.reason).toMatch(/per-execution budget/);
+    expect(assessment.gasLimit).toBe(1_000_000n);
+  });
+
+  it('skips executions while the network fee is above the ceiling', () => {
+    // Base fee included in the 80 gwei estimate, so a 50 gwei cap would never be mined
+    const assessment = policy.assess(200_000n, fees('80', '1'), 100n * ONE_ETH);
+
+    expect(assessment.allowed).toBe(false);
+    expect(assessment.reason).toBe('Network fee above ceiling: max fee 80 gwei exceeds 50 gwei');
+    expect(assessment.fees).toEqual(fees('50', '1'));
+  });
+
+  it('skips executions it cannot value', () => {
+    expect(policy.assess(100_000n, fees('1', '1'), null).reason).toMatch(/could not be valued/);
+  });
+
+  it('values WETH and native ETH 1:1', () => {
+    expect(policy.isNativeValued(SEPOLIA_TOKENS.WETH.toLowerCase() as Address)).toBe(true);
+    expect(policy.isNativeValued('0x0000000000000000000000000000000000000000')).toBe(true);
+    expect(policy.isNativeValued(SEPOLIA_TOKENS.USDC)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from '../src/metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters per label set', () => {
+    const registry = new MetricsRegistry();
+    const executions = registry.counter('test_executions_total', 'Executions');
+
+    executions.inc({ mode: 'onchain', outcome: 'success' });
+    executions.inc({ outcome: 'success', mode: 'onchain' });
+    executions.inc({ mode: 'statechannel', outcome: 'failed' }, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP test_executions_total Executions',
+      '# TYPE test_executions_total counter',
+      'test_executions_total{mode="onchain",outcome="success"} 2',
+      'test_executions_total{mode="statechannel",outcome="failed"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('test_latency_seconds', 'Latency', [0.1, 1]);
+
+    latency.observe({ endpoint: 'https://rpc.example' }, 0.05);
+    latency.observe({ endpoint: 'https://rpc.example' }, 0.5);
+    latency.observe({ endpoint: 'https://rpc.example' }, 2);
+
+    const lines = registry.render().split('\n');
+    expect(lines).toContain('test_latency_seconds_bucket{endpoint="https://rpc.example",le="0.1"} 1');
+    expect(lines).toContain('test_latency_seconds_bucket{endpoint="https://rpc.example",le="1"} 2');
+    expect(lines).toContain('test_latency_seconds_bucket{endpoint="https://rpc.example",le="+Inf"} 3');
+    expect(lines).toContain('test_latency_seconds_sum{endpoint="https://rpc.example"} 2.55');
+    expect(lines).toContain('test_latency_seconds_count{endpoint="https://rpc.example"} 3');
+  });
+
+  it('runs collectors before rendering gauges', () => {
+    const registry = new MetricsRegistry();
+    const connected = registry.gauge('test_connected', 'Connected');
+    let state = false;
+    registry.collect(() => connected.set({ chain_id: 11155111 }, state ? 1 : 0));
+
+    expect(registry.render()).toContain('test_connected{chain_id="11155111"} 0');
+    state = true;
+    expect(registry.render()).toContain('test_connected{chain_id="11155111"} 1');
+  });
+});
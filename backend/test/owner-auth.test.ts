@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import { ApiServer } from '../src/api-server.js';
+import { isPublicAddress, parseOwnerPreferences } from '../src/owner-preferences.js';
+import type { OwnerServices } from '../src/owner-auth.js';
+import type { Config } from '../src/config.js';
+
+const SEPOLIA = 11155111;
+const OWNER = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const STRANGER = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+// Agent 1 belongs to OWNER, agent 2 does not exist
+const owners: OwnerServices = {
+  getAgentOwner: async (_chainId, agentId) => (agentId === 1n ? OWNER.address : null),
+  getDiagnostics: async () => ({ rules: [{ ruleIndex: 0, shouldExecute: false, reason: 'Cooldown not elapsed' }] }),
+};
+
+describe('owner endpoints', () => {
+  let server: ApiServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function start(siweDomain: string | null = 'yellfi.test'): Promise<string> {
+    const port = await freePort();
+    const config = {
+      chainId: SEPOLIA,
+      executionStore: 'memory',
+      ownerSessionTtlMs: 60_000,
+      maxSlippageBps: 300,
+      siweDomain: siweDomain ?? undefined,
+    } as Config;
+    server = new ApiServer(config, port);
+    server.setOwnerServices(owners);
+    await server.start();
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async function signIn(
+    base: string,
+    account = OWNER,
+    uri = 'https://yellfi.test'
+  ): Promise<{ token: string; message: string; signature: string; status: number }> {
+    const { nonce } = await fetch(`${base}/api/auth/nonce`).then((r) => r.json());
+    const message = createSiweMessage({
+      address: account.address,
+      chainId: SEPOLIA,
+      domain: 'yellfi.test',
+      nonce,
+      uri,
+      version: '1',
+    });
+    const signature = await account.signMessage({ message });
+    const response = await fetch(`${base}/api/auth/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ message, signature }),
+    });
+    const body = await response.json();
+    return { token: body.token, message, signature, status: response.status };
+  }
+
+  it('lets an owner sign in and manage preferences for their agent', async () => {
+    const base = await start();
+    const { token } = await signIn(base);
+    const auth = { Authorization: `Bearer ${token}` };
+
+    const session = await fetch(`${base}/api/auth/session`, { headers: auth }).then((r) => r.json());
+    expect(session).toMatchObject({ address: OWNER.address, chainId: SEPOLIA });
+
+    const saved = await fetch(`${base}/api/owner/agents/1/preferences`, {
+      method: 'PUT',
+      headers: auth,
+      body: JSON.stringify({
+        sizing: { '0': { mode: 'fixed', direction: 'zeroForOne', amount: '1000000' } },
+        slippageBps: { '*': 75 },
+        pausedRules: [1],
+      }),
+    }).then((r) => r.json());
+    expect(saved).toMatchObject({ agentId: '1', updatedBy: OWNER.address, pausedRules: [1] });
+    expect(server!.getOwnerPreferences().get(SEPOLIA, 1n)?.sizing['0'].amount).toBe(1000000n);
+
+    const diagnostics = await fetch(`${base}/api/owner/agents/1/diagnostics`, { headers: auth }).then((r) => r.json());
+    expect(diagnostics.rules[0].reason).toBe('Cooldown not elapsed');
+    expect(diagnostics.preferences.slippageBps).toEqual({ '*': 75 });
+    expect(diagnostics.preferences.sizing['0'].amount).toBe('1000000');
+  });
+
+  it('refuses other addresses, missing sessions and replayed nonces', async () => {
+    const base = await start();
+    const stranger = await signIn(base, STRANGER);
+
+    const notOwner = await fetch(`${base}/api/owner/agents/1/diagnostics`, {
+      headers: { Authorization: `Bearer ${stranger.token}` },
+    });
+    expect(notOwner.status).toBe(403);
+
+    const missing = await fetch(`${base}/api/owner/agents/2/preferences`, {
+      headers: { Authorization: `Bearer ${stranger.token}` },
+    });
+    expect(missing.status).toBe(404);
+
+    expect((await fetch(`${base}/api/owner/agents/1/preferences`)).status).toBe(401);
+
+    const replayed = await fetch(`${base}/api/auth/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ message: stranger.message, signature: stranger.signature }),
+    });
+    expect(replayed.status).toBe(401);
+  });
+
+  it('refuses messages for another site and disables sign-in without SIWE_DOMAIN', async () => {
+    const base = await start();
+    expect((await signIn(base, OWNER, 'https://attacker.test/login')).status).toBe(401);
+    expect((await signIn(base, OWNER, 'http://yellfi.test')).status).toBe(401);
+    await server!.stop();
+
+    const disabled = await start(null);
+    expect((await fetch(`${disabled}/api/auth/nonce`)).status).toBe(503);
+  });
+
+  it('limits pending nonces per client', async () => {
+    const base = await start();
+    const statuses = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await fetch(`${base}/api/auth/nonce`)).status);
+    }
+
+    expect(statuses.slice(0, 10).every((status) => status === 200)).toBe(true);
+    expect(statuses[10]).toBe(429);
+  });
+});
+
+describe('parseOwnerPreferences', () => {
+  it('rejects slippage above the keeper max and non-https webhooks', () => {
+    expect(() => parseOwnerPreferences({ slippageBps: { '0': 500 } }, 300)).toThrow(/0 to 300/);
+    expect(() => parseOwnerPreferences({ webhooks: ['http://example.com/hook'] }, 300)).toThrow(/https/);
+    for (const internal of ['https://127.0.0.1/hook', 'https://localhost:8080/hook', 'https://[::1]/hook', 'https://169.254.169.254/latest']) {
+      expect(() => parseOwnerPreferences({ webhooks: [internal] }, 300)).toThrow(/public hosts/);
+    }
+    expect(parseOwnerPreferences({}, 300)).toEqual({ sizing: {}, slippageBps: {}, pausedRules: [], webhooks: [] });
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('refuses loopback, private, link-local and mapped private addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { zeroAddress, type Address } from 'viem';
+import {
+  buildPoolKey,
+  computePoolId,
+  sortCurrencies,
+  validatePoolKey,
+  DYNAMIC_FEE_FLAG,
+  NATIVE_CURRENCY,
+} from '../src/pool-id.js';
+
+// Token addresses used by contracts/test/UniswapV4Executor.t.sol
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const DAI = '0x68194a729C2450ad26072b3D33ADaCbcef39D574' as Address;
+const MAINNET_USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address;
+
+describe('computePoolId', () => {
+  it('matches PoolIdLibrary.toId for the USDC/WETH 0.3% test pool', () => {
+    // Same key as UniswapV4ExecutorTest.setUp: setPoolKey(USDC, WETH, 3000, 60, address(0))
+    const poolId = computePoolId({
+      currency0: USDC,
+      currency1: WETH,
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: zeroAddress,
+    });
+
+    expect(poolId).toBe('0x5984798c549ae88596dfdb82696739d9080d7dc074a8b0ba58693c039944d9f2');
+  });
+
+  it('matches PoolIdLibrary.toId for the DAI/WETH 0.3% pool', () => {
+    const poolId = computePoolId({
+      currency0: DAI,
+      currency1: WETH,
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: zeroAddress,
+    });
+
+    expect(poolId).toBe('0xe68d47f13d074ae639de260cd620ee7155166149e85779b2e19bd931ac093c33');
+  });
+
+  it('matches the mainnet native ETH/USDC 0.05% pool', () => {
+    const poolId = computePoolId({
+      currency0: NATIVE_CURRENCY,
+      currency1: MAINNET_USDC,
+      fee: 500,
+      tickSpacing: 10,
+      hooks: zeroAddress,
+    });
+
+    expect(poolId).toBe('0x21c67e77068de97969ba93d4aab21826d33ca12bb9f565d8496e8fda8a82ca27');
+  });
+
+  it('is independent of address checksum casing', () => {
+    const checksummed = computePoolId(buildPoolKey(USDC, WETH, 3000, 60));
+    const lowercase = computePoolId(
+      buildPoolKey(USDC.toLowerCase() as Address, WETH.toLowerCase() as Address, 3000, 60)
+    );
+
+    expect(lowercase).toBe(checksummed);
+  });
+
+  it('distinguishes pools that differ only by hooks', () => {
+    const withoutHook = computePoolId(buildPoolKey(USDC, WETH, 3000, 60));
+    const withHook = computePoolId(
+      buildPoolKey(USDC, WETH, 3000, 60, '0x0000000000000000000000000000000000000fc0')
+    );
+
+    expect(withHook).not.toBe(withoutHook);
+  });
+
+  it('rejects keys with unsorted currencies', () => {
+    expect(() =>
+      computePoolId({ currency0: WETH, currency1: USDC, fee: 3000, tickSpacing: 60, hooks: zeroAddress })
+    ).toThrow(/out of order/);
+  });
+});
+
+describe('sortCurrencies', () => {
+  it('orders currencies numerically', () => {
+    expect(sortCurrencies(WETH, USDC)).toEqual([USDC, WETH]);
+    expect(sortCurrencies(USDC, WETH)).toEqual([USDC, WETH]);
+  });
+
+  it('always places native ETH first', () => {
+    expect(sortCurrencies(USDC, NATIVE_CURRENCY)).toEqual([NATIVE_CURRENCY, USDC]);
+  });
+});
+
+describe('validatePoolKey', () => {
+  it('rejects identical currencies', () => {
+    expect(() =>
+      validatePoolKey({ currency0: USDC, currency1: USDC, fee: 3000, tickSpacing: 60, hooks: zeroAddress })
+    ).toThrow();
+  });
+
+  it('rejects out-of-range fees and tick spacings', () => {
+    expect(() => buildPoolKey(USDC, WETH, 1_000_001, 60)).toThrow(/Fee/);
+    expect(() => buildPoolKey(USDC, WETH, 3000, 0)).toThrow(/Tick spacing/);
+  });
+
+  it('accepts the dynamic fee flag', () => {
+    expect(() => buildPoolKey(USDC, WETH, DYNAMIC_FEE_FLAG, 60)).not.toThrow();
+  });
+});
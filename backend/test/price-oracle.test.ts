@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, zeroAddress, type Address, type PublicClient } from 'viem';
+import {
+  computeTwap,
+  priceChangeBps,
+  sqrtPriceX96ToPrice,
+  swapPrice,
+  StateViewPriceSource,
+  StaticPriceSource,
+  TwapPriceSource,
+  PRICE_PRECISION,
+} from '../src/price-oracle.js';
+import { buildPoolKey } from '../src/pool-id.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const HOOK = '0x0000000000000000000000000000000000000fc0' as Address;
+const POOL_KEY = buildPoolKey(USDC, WETH, 3000, 60);
+
+// sqrtPriceX96 for a 1:1 price, as used in contracts/test/YellFiHook.t.sol
+const SQRT_PRICE_1_1 = 79228162514264337593543950336n;
+
+function mockClient(handlers: Record<string, (args: readonly unknown[]) => unknown>): PublicClient {
+  return {
+    readContract: async ({ functionName, args }: { functionName: string; args: readonly unknown[] }) =>
+      handlers[functionName](args),
+  } as unknown as PublicClient;
+}
+
+describe('sqrtPriceX96ToPrice', () => {
+  it('converts a 1:1 sqrt price', () => {
+    expect(sqrtPriceX96ToPrice(SQRT_PRICE_1_1)).toBe(PRICE_PRECISION);
+  });
+
+  it('squares the sqrt price', () => {
+    expect(sqrtPriceX96ToPrice(SQRT_PRICE_1_1 * 2n)).toBe(4n * PRICE_PRECISION);
+  });
+});
+
+describe('priceChangeBps', () => {
+  it('returns signed basis points', () => {
+    expect(priceChangeBps(1000n, 1100n)).toBe(1000n);
+    expect(priceChangeBps(1000n, 900n)).toBe(-1000n);
+    expect(priceChangeBps(0n, 900n)).toBe(0n);
+  });
+});
+
+describe('swapPrice', () => {
+  it('prices currency0 in currency1 whichever side was sold', () => {
+    // currency0 is USDC: selling 100 for 50 WETH and buying 100 with 50 WETH are the same price
+    expect(swapPrice(POOL_KEY, USDC, 100n, 50n)).toBe(PRICE_PRECISION / 2n);
+    expect(swapPrice(POOL_KEY, WETH, 50n, 100n)).toBe(PRICE_PRECISION / 2n);
+    expect(swapPrice(POOL_KEY, WETH, 50n, 0n)).toBeNull();
+  });
+});
+
+describe('computeTwap', () => {
+  it('weights each observation by how long it held', () => {
+    const twap = computeTwap(
+      [
+        { price: 100n, timestamp: 0 },
+        { price: 200n, timestamp: 75 },
+      ],
+      100,
+      100
+    );
+
+    // 100 for 75s, 200 for 25s
+    expect(twap).toBe(125n);
+  });
+
+  it('clamps observations taken before the window to the window start', () => {
+    const twap = computeTwap(
+      [
+        { price: 50n, timestamp: 0 },
+        { price: 100n, timestamp: 500 },
+        { price: 300n, timestamp: 950 },
+      ],
+      100,
+      1000
+    );
+
+    // 100 for 50s (900..950), 300 for 50s (950..1000); the price at 0 is superseded
+    expect(twap).toBe(200n);
+  });
+
+  it('returns null with no observations', () => {
+    expect(computeTwap([], 100, 1000)).toBeNull();
+  });
+});
+
+describe('StaticPriceSource', () => {
+  it('returns per-pool prices and falls back to the default', async () => {
+    const source = new StaticPriceSource(7n);
+    const otherKey = buildPoolKey(USDC, WETH, 500, 10);
+    source.setPrice(POOL_KEY, 42n);
+
+    expect((await source.getPrice(POOL_KEY)).price).toBe(42n);
+    expect((await source.getPrice(otherKey)).price).toBe(7n);
+  });
+
+  it('throws when no price is configured', async () => {
+    await expect(new StaticPriceSource().getPrice(POOL_KEY)).rejects.toThrow();
+  });
+});
+
+describe('StateViewPriceSource', () => {
+  it('reads slot0 for the pool', async () => {
+    const client = mockClient({ getSlot0: () => [SQRT_PRICE_1_1, 0, 0, 3000] });
+    const quote = await new StateViewPriceSource(client).getPrice(POOL_KEY);
+
+    expect(quote.price).toBe(PRICE_PRECISION);
+    expect(quote.source).toBe('stateview');
+  });
+
+  it('rejects uninitialized pools', async () => {
+    const client = mockClient({ getSlot0: () => [0n, 0, 0, 0] });
+    await expect(new StateViewPriceSource(client).getPrice(POOL_KEY)).rejects.toThrow(/not initialized/);
+  });
+});
+
+describe('TwapPriceSource', () => {
+  it('averages price-carrying signals with the spot price', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const client = mockClient({
+      getSignalHistory: () => [
+        {
+          signalType: 0,
+          magnitude: 150n,
+          timestamp: BigInt(now - 100),
+          poolId: '0x',
+          additionalData: encodeAbiParameters([{ type: 'uint160' }], [SQRT_PRICE_1_1 * 2n]),
+        },
+        // Liquidity signals carry tick ranges, not prices
+        { signalType: 1, magnitude: 1n, timestamp: BigInt(now - 50), poolId: '0x', additionalData: '0x' },
+      ],
+    });
+    const spot = new StaticPriceSource(PRICE_PRECISION);
+    const source = new TwapPriceSource(client, HOOK, spot, 100);
+
+    const quote = await source.getPrice(POOL_KEY);
+
+    // 4.0 held for the whole window until the spot sample at `now`
+    expect(quote.price).toBe(4n * PRICE_PRECISION);
+    expect(quote.source).toBe('twap');
+  });
+
+  it('falls back to spot when the hook is not configured', async () => {
+    const client = mockClient({});
+    const source = new TwapPriceSource(client, zeroAddress, new StaticPriceSource(5n), 100);
+
+    expect((await source.getPrice(POOL_KEY)).price).toBe(5n);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { type Address, type PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  SimulatedQuoteProvider,
+  V4QuoterProvider,
+  type ExactInputQuote,
+  type QuoteProvider,
+} from '../src/quote-provider.js';
+import { createYellowSDK } from '../src/yellow-sdk.js';
+import { buildPoolKey, type PoolKey } from '../src/pool-id.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const QUOTER = '0x61b3f2011a92d183c7dbadbda940a7555ccf9227' as Address;
+const KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const POOL_KEY = buildPoolKey(USDC, WETH, 3000, 60); // currency0 = USDC
+
+class SequenceQuoteProvider implements QuoteProvider {
+  readonly name = 'sequence';
+  calls: Array<{ poolKey: PoolKey; zeroForOne: boolean; amountIn: bigint }> = [];
+
+  constructor(private outputs: bigint[]) {}
+
+  async quoteExactInput(poolKey: PoolKey, zeroForOne: boolean, amountIn: bigint): Promise<ExactInputQuote> {
+    this.calls.push({ poolKey, zeroForOne, amountIn });
+    const amountOut = this.outputs.shift();
+    if (amountOut === undefined) throw new Error('no liquidity');
+    return { amountOut, gasEstimate: 90000n, source: this.name };
+  }
+}
+
+describe('V4QuoterProvider', () => {
+  it('quotes exact input on the pool key through the Quoter', async () => {
+    let request: { address: Address; functionName: string; args: readonly unknown[] } | undefined;
+    const client = {
+      simulateContract: async (params: typeof request) => {
+        request = params;
+        return { result: [4_200n, 120_000n] };
+      },
+    } as unknown as PublicClient;
+
+    const quote = await new V4QuoterProvider(client, QUOTER).quoteExactInput(POOL_KEY, false, 1_000n);
+
+    expect(quote).toEqual({ amountOut: 4_200n, gasEstimate: 120_000n, source: 'v4-quoter' });
+    expect(request?.address).toBe(QUOTER);
+    expect(request?.functionName).toBe('quoteExactInputSingle');
+    expect(request?.args[0]).toEqual({ poolKey: POOL_KEY, zeroForOne: false, exactAmount: 1_000n, hookData: '0x' });
+  });
+
+  it('rejects amounts the Quoter cannot take', async () => {
+    const provider = new V4QuoterProvider({} as PublicClient, QUOTER);
+    await expect(provider.quoteExactInput(POOL_KEY, true, 0n)).rejects.toThrow(/out of range/);
+  });
+});
+
+describe('SimulatedQuoteProvider', () => {
+  it('quotes 1:1 less the pool fee', async () => {
+    const quote = await new SimulatedQuoteProvider().quoteExactInput(POOL_KEY, true, 1_000_000n);
+    expect(quote.amountOut).toBe(997_000n);
+  });
+});
+
+describe('YellowSDK quotes', () => {
+  it('derives direction from the token in', async () => {
+    const provider = new SequenceQuoteProvider([500n]);
+    const sdk = createYellowSDK({ account: privateKeyToAccount(KEY), useSandbox: true, chainId: 11155111, quoteProvider: provider });
+
+    const quote = await sdk.getQuote(POOL_KEY, WETH, 1_000n, 50);
+
+    expect(provider.calls[0].zeroForOne).toBe(false);
+    expect(quote.tokenOut).toBe(USDC);
+    await expect(sdk.getQuote(POOL_KEY, QUOTER, 1_000n, 50)).rejects.toThrow(/not in the pool/);
+  });
+
+  it('validates routes against a real re-quote', async () => {
+    // First quote 10000 (min out 9950 at 50 bps), re-quotes 9960 then 9900
+    const provider = new SequenceQuoteProvider([10_000n, 9_960n, 9_900n]);
+    const sdk = createYellowSDK({ account: privateKeyToAccount(KEY), useSandbox: true, chainId: 11155111, quoteProvider: provider });
+
+    const quote = await sdk.getQuote(POOL_KEY, USDC, 1_000n, 50);
+
+    expect(await sdk.validateRoute(quote)).toBe(true);
+    expect(await sdk.validateRoute(quote)).toBe(false);
+    // Quoter failure invalidates the route
+    expect(await sdk.validateRoute(quote)).toBe(false);
+    expect(provider.calls.every((call) => call.poolKey === POOL_KEY && call.amountIn === 1_000n)).toBe(true);
+  });
+});
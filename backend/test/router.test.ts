@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAbiParameters, parseAbiParameters, zeroAddress } from 'viem';
+import { Router, encodeRouteData } from '../src/router.js';
+import { buildPoolKey, computePoolId, type PoolKey } from '../src/pool-id.js';
+import { DEFAULT_ROUTING_POOLS, SEPOLIA_TOKENS } from '../src/config.js';
+import type { ExactInputQuote, QuoteProvider } from '../src/quote-provider.js';
+
+const { WETH, USDC, DAI, LINK } = SEPOLIA_TOKENS;
+
+/**
+ * Quotes each pool at a fixed output per unit in, by pool id; unknown pools revert
+ */
+class RateQuoteProvider implements QuoteProvider {
+  readonly name = 'rates';
+  private rates = new Map<string, bigint>();
+
+  setRate(poolKey: PoolKey, outPerThousand: bigint): void {
+    this.rates.set(computePoolId(poolKey), outPerThousand);
+  }
+
+  async quoteExactInput(poolKey: PoolKey, _zeroForOne: boolean, amountIn: bigint): Promise<ExactInputQuote> {
+    const rate = this.rates.get(computePoolId(poolKey));
+    if (rate === undefined) throw new Error('pool not initialized');
+    return { amountOut: (amountIn * rate) / 1000n, gasEstimate: 100000n, source: this.name };
+  }
+}
+
+const [WETH_USDC, WETH_DAI, WETH_LINK] = DEFAULT_ROUTING_POOLS;
+
+describe('Router', () => {
+  it('enumerates paths up to the hop limit, shortest first', () => {
+    const router = new Router(new RateQuoteProvider(), DEFAULT_ROUTING_POOLS);
+
+    const paths = router.findPaths(DAI, LINK);
+    expect(paths).toHaveLength(1);
+    expect(paths[0].map((hop) => hop.tokenOut)).toEqual([WETH, LINK]);
+
+    expect(new Router(new RateQuoteProvider(), DEFAULT_ROUTING_POOLS, 1).findPaths(DAI, LINK)).toHaveLength(0);
+  });
+
+  it('trades a pair without a direct pool through an intermediate token', async () => {
+    const quotes = new RateQuoteProvider();
+    quotes.setRate(WETH_DAI, 2000n);
+    quotes.setRate(WETH_LINK, 500n);
+    const router = new Router(quotes, DEFAULT_ROUTING_POOLS);
+
+    const route = await router.findBestRoute(DAI, LINK, 1000n);
+
+    expect(route.hops.map((hop) => hop.zeroForOne)).toEqual([
+      WETH_DAI.currency0.toLowerCase() === DAI.toLowerCase(),
+      WETH_LINK.currency0.toLowerCase() === WETH.toLowerCase(),
+    ]);
+    expect(route.amountOut).toBe(1000n); // 1000 DAI -> 2000 WETH -> 1000 LINK
+    expect(route.gasEstimate).toBe(200000n);
+  });
+
+  it('picks the path with the best quoted output over a direct pool', async () => {
+    const quotes = new RateQuoteProvider();
+    const directDaiUsdc = buildPoolKey(DAI, USDC, 500, 10);
+    quotes.setRate(directDaiUsdc, 900n);
+    quotes.setRate(WETH_DAI, 1000n);
+    quotes.setRate(WETH_USDC, 1000n);
+    const router = new Router(quotes, DEFAULT_ROUTING_POOLS);
+
+    // Two hops at 1:1 beat the direct pool at 0.9
+    const viaWeth = await router.findBestRoute(DAI, USDC, 1000n, [directDaiUsdc]);
+    expect(viaWeth.hops).toHaveLength(2);
+
+    // Ties go to the shorter path
+    quotes.setRate(directDaiUsdc, 1000n);
+    const direct = await router.findBestRoute(DAI, USDC, 1000n, [directDaiUsdc]);
+    expect(direct.hops).toHaveLength(1);
+  });
+
+  it('skips paths that fail to quote and fails when none can', async () => {
+    const quotes = new RateQuoteProvider();
+    const router = new Router(quotes, DEFAULT_ROUTING_POOLS);
+
+    await expect(router.findBestRoute(DAI, LINK, 1000n)).rejects.toThrow(/pool not initialized/);
+    await expect(router.findBestRoute(DAI, '0x0000000000000000000000000000000000000001', 1000n)).rejects.toThrow(/No route/);
+  });
+
+  it('encodes routeData as the adapter decodes it', () => {
+    const router = new Router(new RateQuoteProvider(), DEFAULT_ROUTING_POOLS);
+    const [hops] = router.findPaths(DAI, LINK);
+
+    const [path, fees, tickSpacings, hooks] = decodeAbiParameters(
+      parseAbiParameters('address[] path, uint24[] fees, int24[] tickSpacings, address[] hooks'),
+      encodeRouteData(hops)
+    );
+
+    expect(path).toEqual([DAI, WETH, LINK]);
+    expect(fees).toEqual([3000, 3000]);
+    expect(tickSpacings).toEqual([60, 60]);
+    expect(hooks).toEqual([zeroAddress, zeroAddress]);
+  });
+});
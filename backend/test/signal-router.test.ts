@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { type Address, type PublicClient } from 'viem';
+import { SignalRouter, type AgentReader } from '../src/signal-router.js';
+import { buildPoolKey, computePoolId, type PoolKey } from '../src/pool-id.js';
+import type { AgentConfig } from '../src/rule-evaluator.js';
+import type { Config } from '../src/config.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const DAI = '0x68194a729C2450ad26072b3D33ADaCbcef39D574' as Address;
+const HOOK = '0x0000000000000000000000000000000000000fc0' as Address;
+
+const USDC_WETH = buildPoolKey(USDC, WETH, 3000, 60);
+const DAI_WETH = buildPoolKey(DAI, WETH, 3000, 60);
+
+function agentReader(pools: PoolKey[]): AgentReader {
+  return {
+    getTotalAgents: async () => BigInt(pools.length),
+    getAgent: async (agentId) => ({ poolKey: pools[Number(agentId) - 1] } as AgentConfig),
+  };
+}
+
+function hookClient(subscribers: Record<string, bigint[]>, calls: string[] = []): PublicClient {
+  return {
+    readContract: async ({ args }: { args: [`0x${string}`] }) => {
+      calls.push(args[0]);
+      return subscribers[args[0]] ?? [];
+    },
+  } as unknown as PublicClient;
+}
+
+describe('SignalRouter', () => {
+  it('routes signals only to agents on the signalled pool', async () => {
+    const config = { yellFiHookAddress: '0x0000000000000000000000000000000000000000' } as Config;
+    const router = new SignalRouter(config, agentReader([USDC_WETH, DAI_WETH, USDC_WETH]), hookClient({}));
+    await router.warmup();
+
+    expect(await router.getAgentsForPool(computePoolId(USDC_WETH))).toEqual([1n, 3n]);
+    expect(await router.getAgentsForPool(computePoolId(DAI_WETH))).toEqual([2n]);
+  });
+
+  it('merges hook subscribers and caches them', async () => {
+    const poolId = computePoolId(USDC_WETH);
+    const calls: string[] = [];
+    const config = { yellFiHookAddress: HOOK } as Config;
+    const router = new SignalRouter(config, agentReader([USDC_WETH]), hookClient({ [poolId]: [5n] }, calls));
+    await router.indexAgent(1n);
+
+    expect(await router.getAgentsForPool(poolId)).toEqual([1n, 5n]);
+    expect(await router.getAgentsForPool(poolId)).toEqual([1n, 5n]);
+    expect(calls).toHaveLength(1);
+  });
+});
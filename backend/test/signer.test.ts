@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { parseEther, recoverTransactionAddress, verifyMessage } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { decryptKeystore, encryptKeystore, loadSigner } from '../src/signer.js';
+import { loadConfig } from '../src/config.js';
+import { createMockRemoteSigner } from '../scripts/mock-remote-signer.js';
+
+const KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const address = privateKeyToAccount(KEY).address;
+
+// Version 3 test vector from the Web3 Secret Storage definition
+const PBKDF2_KEYSTORE = JSON.stringify({
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+});
+
+const ENV_KEYS = ['KEEPER_SIGNER', 'KEEPER_PRIVATE_KEY', 'CLEARNODE_SIGNER', 'CLEARNODE_PRIVATE_KEY'];
+
+describe('signer', () => {
+  const saved = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  let dir: string | null = null;
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = null;
+  });
+
+  async function startRemoteSigner(token?: string): Promise<string> {
+    server = createMockRemoteSigner(KEY, token);
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it('decrypts a standard pbkdf2 keystore', () => {
+    expect(decryptKeystore(PBKDF2_KEYSTORE, 'testpassword')).toBe(
+      '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d'
+    );
+    expect(() => decryptKeystore(PBKDF2_KEYSTORE, 'wrong')).toThrow(/passphrase/);
+  });
+
+  it('loads an account from an encrypted keystore file', () => {
+    dir = mkdtempSync(join(tmpdir(), 'yellfi-keystore-'));
+    const path = join(dir, 'keeper.json');
+    writeFileSync(path, encryptKeystore(KEY, 'hunter2', 1024));
+
+    expect(loadSigner({ kind: 'keystore', path, passphrase: 'hunter2' }).address).toBe(address);
+    expect(() => loadSigner({ kind: 'keystore', path, passphrase: 'hunter3' })).toThrow(/passphrase/);
+  });
+
+  it('signs messages and transactions through a remote signer', async () => {
+    const url = await startRemoteSigner('secret');
+    const account = loadSigner({ kind: 'remote', url, address, authToken: 'secret' });
+
+    const signature = await account.signMessage({ message: 'keeper check' });
+    expect(await verifyMessage({ address, message: 'keeper check', signature })).toBe(true);
+
+    const signed = await account.signTransaction({
+      type: 'eip1559',
+      chainId: 31337,
+      nonce: 3,
+      to: address,
+      value: parseEther('0.1'),
+      gas: 21000n,
+      maxFeePerGas: 2_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+    });
+    expect(await recoverTransactionAddress({ serializedTransaction: signed as `0x02${string}` })).toBe(address);
+  });
+
+  it('surfaces remote signer rejections', async () => {
+    const url = await startRemoteSigner('secret');
+    const account = loadSigner({ kind: 'remote', url, address, authToken: 'wrong' });
+
+    await expect(account.signMessage({ message: 'keeper check' })).rejects.toThrow(/HTTP 401/);
+  });
+
+  it('signs ClearNode messages with the execution key unless a separate one is set', () => {
+    process.env.KEEPER_PRIVATE_KEY = KEY;
+    delete process.env.KEEPER_SIGNER;
+    delete process.env.CLEARNODE_SIGNER;
+    delete process.env.CLEARNODE_PRIVATE_KEY;
+    const shared = loadConfig();
+    expect(shared.clearNodeSigner).toBe(shared.executionSigner);
+
+    process.env.CLEARNODE_PRIVATE_KEY = `0x${'22'.repeat(32)}`;
+    const separate = loadConfig();
+    expect(separate.clearNodeSigner).toEqual({ kind: 'private-key', privateKey: `0x${'22'.repeat(32)}` });
+    expect(separate.executionSigner).toEqual({ kind: 'private-key', privateKey: KEY });
+  });
+});
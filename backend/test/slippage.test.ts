@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAbiParameters, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  minAmountOutFor,
+  parseSlippageOverrides,
+  resolveSlippageBps,
+  type SlippageSettings,
+} from '../src/slippage.js';
+import { createYellowSDK } from '../src/yellow-sdk.js';
+import { SimulatedQuoteProvider } from '../src/quote-provider.js';
+import { buildPoolKey } from '../src/pool-id.js';
+import { RuleType, type Rule } from '../src/rule-evaluator.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+function rule(ruleType: RuleType): Rule {
+  return { ruleType, threshold: 500n, targetValue: 0n, cooldown: 60n, lastExecuted: 0n, enabled: true };
+}
+
+describe('resolveSlippageBps', () => {
+  const settings: SlippageSettings = {
+    defaultBps: 50,
+    maxBps: 300,
+    overrides: parseSlippageOverrides(JSON.stringify({
+      '7:1': 25,
+      '7': '120',
+      STOP_LOSS: 1000,
+    })),
+  };
+
+  it('prefers per-rule, then per-agent, then rule type, then the default', () => {
+    expect(resolveSlippageBps(settings, 7n, 1, rule(RuleType.TIME_WEIGHTED))).toBe(25);
+    expect(resolveSlippageBps(settings, 7n, 0, rule(RuleType.TIME_WEIGHTED))).toBe(120);
+    expect(resolveSlippageBps(settings, 8n, 0, rule(RuleType.TIME_WEIGHTED))).toBe(50);
+  });
+
+  it('caps requests at the keeper-wide max', () => {
+    expect(resolveSlippageBps(settings, 8n, 0, rule(RuleType.STOP_LOSS))).toBe(300);
+  });
+
+  it("puts the owner's preference first, still capped", () => {
+    expect(resolveSlippageBps(settings, 7n, 1, rule(RuleType.TIME_WEIGHTED), 80)).toBe(80);
+    expect(resolveSlippageBps(settings, 7n, 1, rule(RuleType.TIME_WEIGHTED), 5000)).toBe(300);
+  });
+
+  it('rejects invalid overrides', () => {
+    expect(() => parseSlippageOverrides('{"1": -5}')).toThrow(/Invalid slippage/);
+  });
+});
+
+describe('minAmountOut', () => {
+  it('is derived from the quote at the requested slippage', async () => {
+    expect(minAmountOutFor(10_000n, 50)).toBe(9_950n);
+    expect(() => minAmountOutFor(1n, 10_001)).toThrow(/out of range/);
+
+    const sdk = createYellowSDK({ account: privateKeyToAccount(KEY), useSandbox: true, chainId: 11155111, quoteProvider: new SimulatedQuoteProvider() });
+    const quote = await sdk.getQuote(buildPoolKey(USDC, WETH, 3000, 60), USDC, 1_000_000n, 200);
+
+    expect(quote.slippageBps).toBe(200);
+    expect(quote.minAmountOut).toBe(minAmountOutFor(quote.amountOut, 200));
+
+    const [request] = decodeAbiParameters(
+      [{
+        type: 'tuple',
+        components: [
+          { name: 'agentId', type: 'uint256' },
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'minAmountOut', type: 'uint256' },
+          { name: 'routeData', type: 'bytes' },
+        ],
+      }],
+      sdk.buildExecutionData(1n, quote)
+    );
+    expect(request.minAmountOut).toBe(quote.minAmountOut);
+  });
+});
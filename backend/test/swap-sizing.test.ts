@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { type Address } from 'viem';
+import {
+  AmbiguousDirectionError,
+  defaultSizingPolicy,
+  parseSizingOverrides,
+  planSwap,
+  resolveSizingPolicy,
+  type BalanceReader,
+} from '../src/swap-sizing.js';
+import { PRICE_PRECISION } from '../src/price-oracle.js';
+import { RuleType, type Rule } from '../src/rule-evaluator.js';
+import { buildPoolKey } from '../src/pool-id.js';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as Address;
+const USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as Address;
+const POOL_KEY = buildPoolKey(USDC, WETH, 3000, 60); // currency0 = USDC, currency1 = WETH
+
+function rule(ruleType: RuleType, targetValue = 0n): Rule {
+  return { ruleType, threshold: 500n, targetValue, cooldown: 60n, lastExecuted: 0n, enabled: true };
+}
+
+function mockBalances(balance0: bigint, balance1: bigint): BalanceReader {
+  return {
+    getAgentBalance: async (_agentId, token) => (token === POOL_KEY.currency0 ? balance0 : balance1),
+  };
+}
+
+function context(r: Rule, price?: bigint) {
+  return { agentId: 1n, rule: r, poolKey: POOL_KEY, price };
+}
+
+describe('planSwap', () => {
+  it('swaps a fixed amount per DCA tick, capped at the balance', async () => {
+    const dca = rule(RuleType.TIME_WEIGHTED, 3600n);
+    const policy = { mode: 'fixed' as const, direction: 'zeroForOne' as const, amount: 250n };
+
+    const plan = await planSwap(context(dca), policy, mockBalances(1000n, 0n));
+    expect(plan).toMatchObject({ tokenIn: USDC, tokenOut: WETH, amountIn: 250n, mode: 'fixed' });
+
+    const lastTick = await planSwap(context(dca), policy, mockBalances(100n, 0n));
+    expect(lastTick?.amountIn).toBe(100n);
+  });
+
+  it('swaps a percentage of the position', async () => {
+    const plan = await planSwap(
+      context(rule(RuleType.TAKE_PROFIT)),
+      { mode: 'percent', direction: 'oneForZero', bps: 2500 },
+      mockBalances(0n, 4000n)
+    );
+
+    expect(plan).toMatchObject({ tokenIn: WETH, tokenOut: USDC, amountIn: 1000n, direction: 'oneForZero' });
+  });
+
+  it('exits the full position on stop loss', async () => {
+    const stopLoss = rule(RuleType.STOP_LOSS);
+    const plan = await planSwap(context(stopLoss), defaultSizingPolicy(stopLoss), mockBalances(777n, 5n));
+
+    expect(plan).toMatchObject({ tokenIn: USDC, amountIn: 777n, mode: 'exit' });
+  });
+
+  it('takes direction from intent, not from which balance is larger', async () => {
+    const plan = await planSwap(
+      context(rule(RuleType.CUSTOM_HOOK_SIGNAL)),
+      { mode: 'percent', direction: 'zeroForOne', bps: 1000 },
+      mockBalances(10n, 1_000_000n)
+    );
+
+    expect(plan?.tokenIn).toBe(USDC);
+    expect(plan?.amountIn).toBe(1n);
+  });
+
+  it('sells the overweight side toward the rebalance target weight', async () => {
+    const rebalance = rule(RuleType.REBALANCE_THRESHOLD, 5000n);
+    // 1 currency0 = 2 currency1: value0 = 2000, value1 = 1000, target value0 = 1500
+    const plan = await planSwap(
+      context(rebalance, 2n * PRICE_PRECISION),
+      defaultSizingPolicy(rebalance),
+      mockBalances(1000n, 1000n)
+    );
+
+    expect(plan).toMatchObject({ tokenIn: USDC, amountIn: 250n, direction: 'zeroForOne', mode: 'rebalance' });
+  });
+
+  it('buys the underweight side toward the rebalance target weight', async () => {
+    const rebalance = rule(RuleType.REBALANCE_THRESHOLD, 5000n);
+    const plan = await planSwap(
+      context(rebalance, PRICE_PRECISION),
+      defaultSizingPolicy(rebalance),
+      mockBalances(200n, 1000n)
+    );
+
+    expect(plan).toMatchObject({ tokenIn: WETH, amountIn: 400n, direction: 'oneForZero' });
+  });
+
+  it('requires a price to rebalance', async () => {
+    const rebalance = rule(RuleType.REBALANCE_THRESHOLD);
+    await expect(
+      planSwap(context(rebalance), defaultSizingPolicy(rebalance), mockBalances(1n, 1n))
+    ).rejects.toThrow(/price/);
+  });
+
+  it('returns null when there is nothing to swap', async () => {
+    const stopLoss = rule(RuleType.STOP_LOSS);
+    expect(await planSwap(context(stopLoss), defaultSizingPolicy(stopLoss), mockBalances(0n, 0n))).toBeNull();
+  });
+
+  it('sells whichever side is funded when no direction is set', async () => {
+    const dca = rule(RuleType.TIME_WEIGHTED);
+    const stopLoss = rule(RuleType.STOP_LOSS);
+
+    // Funded only in WETH (currency1), as the USDC/WETH agents usually are
+    expect(await planSwap(context(dca), defaultSizingPolicy(dca), mockBalances(0n, 5000n)))
+      .toMatchObject({ tokenIn: WETH, amountIn: 500n, direction: 'oneForZero' });
+    expect(await planSwap(context(stopLoss), defaultSizingPolicy(stopLoss), mockBalances(0n, 9n)))
+      .toMatchObject({ tokenIn: WETH, amountIn: 9n, mode: 'exit' });
+    // Both sides funded: stop loss sells currency0, the asset its price tracks
+    expect((await planSwap(context(stopLoss), defaultSizingPolicy(stopLoss), mockBalances(100n, 900n)))?.tokenIn).toBe(USDC);
+  });
+
+  it('refuses to guess a direction when both sides are funded and the rule has no intent', async () => {
+    const dca = rule(RuleType.TIME_WEIGHTED);
+    // 5000 USDC (6 decimals) against 1 WETH: raw balances would pick WETH
+    const balances = mockBalances(5_000_000_000n, 10n ** 18n);
+
+    await expect(planSwap(context(dca), defaultSizingPolicy(dca), balances))
+      .rejects.toBeInstanceOf(AmbiguousDirectionError);
+    expect(await planSwap(context(dca), { mode: 'percent', direction: 'zeroForOne', bps: 1000 }, balances))
+      .toMatchObject({ tokenIn: USDC, amountIn: 500_000_000n });
+  });
+});
+
+describe('resolveSizingPolicy', () => {
+  it('prefers per-rule overrides, then rule type overrides, then defaults', () => {
+    const overrides = parseSizingOverrides(JSON.stringify({
+      '7:1': { mode: 'fixed', direction: 'oneForZero', amount: '42' },
+      TAKE_PROFIT: { mode: 'exit', direction: 'zeroForOne' },
+    }));
+
+    expect(resolveSizingPolicy(overrides, 7n, 1, rule(RuleType.TIME_WEIGHTED))).toEqual({
+      mode: 'fixed',
+      direction: 'oneForZero',
+      amount: 42n,
+    });
+    expect(resolveSizingPolicy(overrides, 7n, 0, rule(RuleType.TAKE_PROFIT)).mode).toBe('exit');
+    expect(resolveSizingPolicy(overrides, 7n, 0, rule(RuleType.STOP_LOSS)).mode).toBe('exit');
+    // targetValue is the DCA interval, never an amount
+    expect(resolveSizingPolicy(overrides, 7n, 0, rule(RuleType.TIME_WEIGHTED, 3600n))).toEqual({
+      mode: 'percent',
+      bps: 1000,
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NonceTooLowError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { StuckTransactionError, TransactionManager, type ContractRequest } from '../src/tx-manager.js';
+import type { Config } from '../src/config.js';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const request = { functionName: 'execute' } as unknown as ContractRequest;
+
+const config = {
+  txStuckTimeoutMs: 10,
+  feeBumpPercent: 20,
+  maxFeeBumps: 2,
+} as Config;
+
+interface Sent {
+  nonce: number;
+  maxFeePerGas: bigint;
+  hash: Hash;
+  selfTransfer: boolean;
+}
+
+/**
+ * Fake chain: nonces mine when `mine` is called, sends and fee lookups can be made to fail
+ */
+function fakeChain(startNonce: number) {
+  const sent: Sent[] = [];
+  const mined = new Set<Hash>();
+  let latest = startNonce;
+  let failNext: Error | null = null;
+  let failFees: Error | null = null;
+  let onSend: ((sent: Sent) => void) | null = null;
+
+  const send = async (params: { nonce: number; maxFeePerGas: bigint }, selfTransfer: boolean) => {
+    if (failNext) {
+      const error = failNext;
+      failNext = null;
+      throw error;
+    }
+    const hash = `0x${(sent.length + 1).toString(16).padStart(64, '0')}` as Hash;
+    sent.push({ nonce: params.nonce, maxFeePerGas: params.maxFeePerGas, hash, selfTransfer });
+    onSend?.(sent[sent.length - 1]);
+    return hash;
+  };
+
+  const publicClient = {
+    getTransactionCount: async ({ blockTag }: { blockTag: string }) =>
+      blockTag === 'pending' ? Math.max(latest, ...sent.map((s) => s.nonce + 1)) : latest,
+    estimateFeesPerGas: async () => {
+      if (failFees) {
+        const error = failFees;
+        failFees = null;
+        throw error;
+      }
+      return { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+    },
+    waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+      if (mined.has(hash)) return { transactionHash: hash, status: 'success' };
+      throw new WaitForTransactionReceiptTimeoutError({ hash });
+    },
+    getTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+      if (mined.has(hash)) return { transactionHash: hash, status: 'success' };
+      throw new Error('not found');
+    },
+    getTransaction: async ({ hash }: { hash: Hash }) => sent.find((s) => s.hash === hash),
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    chain: undefined,
+    writeContract: (params: { nonce: number; maxFeePerGas: bigint }) => send(params, false),
+    sendTransaction: (params: { nonce: number; maxFeePerGas: bigint }) => send(params, true),
+  } as unknown as WalletClient;
+
+  return {
+    sent,
+    publicClient,
+    walletClient,
+    mine(hash: Hash) {
+      mined.add(hash);
+      const nonce = sent.find((s) => s.hash === hash)!.nonce;
+      latest = Math.max(latest, nonce + 1);
+    },
+    failNextSend(error: Error) {
+      failNext = error;
+    },
+    failNextFees(error: Error) {
+      failFees = error;
+    },
+    onSend(callback: (sent: Sent) => void) {
+      onSend = callback;
+    },
+  };
+}
+
+describe('TransactionManager', () => {
+  it('allocates sequential nonces from the chain for parallel submissions', async () => {
+    const chain = fakeChain(7);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    const submitted = await Promise.all([manager.submit(request), manager.submit(request), manager.submit(request)]);
+
+    expect(submitted.map((s) => s.nonce)).toEqual([7, 8, 9]);
+    expect(manager.getPendingCount()).toBe(3);
+  });
+
+  it('replaces a stuck transaction with bumped fees at the same nonce', async () => {
+    const chain = fakeChain(0);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    const { nonce, hash } = await manager.submit(request);
+    // The original lands just as its replacement goes out
+    chain.onSend(() => chain.mine(hash));
+
+    const receipt = await manager.waitForReceipt(nonce);
+
+    expect(chain.sent.map((s) => [s.nonce, s.maxFeePerGas])).toEqual([[0, 100n], [0, 120n]]);
+    expect(receipt.transactionHash).toBe(hash);
+    expect(manager.getPendingCount()).toBe(0);
+  });
+
+  it('gives up after the configured bumps without resubmitting', async () => {
+    const chain = fakeChain(0);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    const { nonce } = await manager.submit(request);
+    await expect(manager.waitForReceipt(nonce)).rejects.toBeInstanceOf(StuckTransactionError);
+    expect(chain.sent.every((s) => s.nonce === 0)).toBe(true);
+    expect(chain.sent).toHaveLength(3);
+  });
+
+  it('reuses a nonce whose send failed and fills it if later nonces are in flight', async () => {
+    const chain = fakeChain(0);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    await manager.submit(request); // nonce 0
+    const [failed, sentLater] = await Promise.allSettled([
+      (chain.failNextSend(new Error('rpc down')), manager.submit(request)), // nonce 1 fails
+      manager.submit(request), // nonce 2
+    ]);
+    expect(failed.status).toBe('rejected');
+    expect(sentLater.status === 'fulfilled' && sentLater.value.nonce).toBe(2);
+
+    // Nonce 1 would block nonce 2 forever; reconcile fills it
+    await manager.reconcile();
+    expect(chain.sent.find((s) => s.nonce === 1)?.selfTransfer).toBe(true);
+  });
+
+  it('allocates no nonce when the fee lookup fails', async () => {
+    const chain = fakeChain(0);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    await manager.submit(request); // nonce 0
+    chain.failNextFees(new Error('rpc down'));
+    await expect(manager.submit(request)).rejects.toThrow('rpc down');
+
+    // No gap: the next submission takes nonce 1
+    const { nonce } = await manager.submit(request);
+    expect(nonce).toBe(1);
+    expect(manager['allocated'].size).toBe(0);
+    expect(manager['released']).toEqual([]);
+  });
+
+  it('resyncs from the chain when a nonce was used elsewhere', async () => {
+    const chain = fakeChain(3);
+    const manager = new TransactionManager(config, chain.publicClient, chain.walletClient, account);
+
+    chain.failNextSend(new NonceTooLowError());
+    await expect(manager.submit(request)).rejects.toBeInstanceOf(NonceTooLowError);
+
+    chain.sent.push({ nonce: 3, maxFeePerGas: 1n, hash: `0x${'ff'.repeat(32)}`, selfTransfer: false });
+    const { nonce } = await manager.submit(request);
+    expect(nonce).toBe(4);
+  });
+});
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Script, console2} from "forge-std/Script.sol";
+import {PoolManager} from "v4-core/PoolManager.sol";
+import {IPoolManager} from "v4-core/interfaces/IPoolManager.sol";
+import {IHooks} from "v4-core/interfaces/IHooks.sol";
+import {PoolKey} from "v4-core/types/PoolKey.sol";
+import {Currency} from "v4-core/types/Currency.sol";
+import {TickMath} from "v4-core/libraries/TickMath.sol";
+import {PoolSwapTest} from "v4-core/test/PoolSwapTest.sol";
+import {PoolModifyLiquidityTest} from "v4-core/test/PoolModifyLiquidityTest.sol";
+import {StateView} from "v4-periphery/lens/StateView.sol";
+import {V4Quoter} from "v4-periphery/lens/V4Quoter.sol";
+import {StrategyAgent} from "../src/StrategyAgent.sol";
+import {YellowExecutorAdapter} from "../src/YellowExecutorAdapter.sol";
+import {MockERC20} from "../test/mocks/MockERC20.sol";
+import {MockWETH} from "../test/mocks/MockWETH.sol";
+import {MockEnsSubnameMinter} from "../test/mocks/MockEnsSubnameMinter.sol";
+
+/// @title DeployLocal
+/// @notice Deploys Uniswap v4, a funded MockERC20/MockWETH pool and YellFi to a plain anvil node
+/// @dev No fork needed: the keeper reads every address, including StateView and V4Quoter,
+///      from this script's broadcast. The deployer is the only keeper.
+contract DeployLocal is Script {
+    uint24 constant POOL_FEE = 3000;
+    int24 constant TICK_SPACING = 60;
+    uint160 constant SQRT_PRICE_1_1 = 79228162514264337593543950336;
+    uint256 constant POOL_LIQUIDITY = 100 ether;
+
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address deployer = vm.addr(deployerPrivateKey);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // 1. Uniswap v4 core, test routers and lenses
+        PoolManager poolManager = new PoolManager(deployer);
+        PoolSwapTest poolSwapTest = new PoolSwapTest(poolManager);
+        PoolModifyLiquidityTest liquidityRouter = new PoolModifyLiquidityTest(poolManager);
+        StateView stateView = new StateView(poolManager);
+        V4Quoter quoter = new V4Quoter(poolManager);
+
+        // 2. Tokens and a full-range 0.3% pool at 1:1
+        MockERC20 token = new MockERC20("Local USD", "LUSD");
+        MockWETH weth = new MockWETH();
+        token.mint(deployer, 1000 ether);
+        weth.deposit{value: 1000 ether}();
+
+        (address token0, address token1) = address(token) < address(weth)
+            ? (address(token), address(weth))
+            : (address(weth), address(token));
+        PoolKey memory key = PoolKey({
+            currency0: Currency.wrap(token0),
+            currency1: Currency.wrap(token1),
+            fee: POOL_FEE,
+            tickSpacing: TICK_SPACING,
+            hooks: IHooks(address(0))
+        });
+        poolManager.initialize(key, SQRT_PRICE_1_1);
+
+        token.approve(address(liquidityRouter), type(uint256).max);
+        weth.approve(address(liquidityRouter), type(uint256).max);
+        liquidityRouter.modifyLiquidity(
+            key,
+            IPoolManager.ModifyLiquidityParams({
+                tickLower: TickMath.minUsableTick(TICK_SPACING),
+                tickUpper: TickMath.maxUsableTick(TICK_SPACING),
+                liquidityDelta: int256(POOL_LIQUIDITY),
+                salt: bytes32(0)
+            }),
+            ""
+        );
+
+        // 3. YellFi, swapping through the local PoolSwapTest
+        MockEnsSubnameMinter ensMinter = new MockEnsSubnameMinter();
+        YellowExecutorAdapter executor = new YellowExecutorAdapter(
+            address(0), // Yellow router placeholder
+            deployer,   // Fee recipient
+            deployer    // Owner
+        );
+        StrategyAgent strategyAgent = new StrategyAgent(
+            address(executor),
+            address(ensMinter),
+            deployer
+        );
+
+        executor.setPoolSwapTest(address(poolSwapTest));
+        executor.setPoolKey(token0, token1, POOL_FEE, TICK_SPACING, address(0));
+        executor.setAuthorizedCaller(address(strategyAgent), true);
+        strategyAgent.setKeeper(deployer, true);
+
+        vm.stopBroadcast();
+
+        console2.log("\n=== YellFi Local Deployment ===");
+        console2.log("PoolManager:", address(poolManager));
+        console2.log("PoolSwapTest:", address(poolSwapTest));
+        console2.log("StateView:", address(stateView));
+        console2.log("V4Quoter:", address(quoter));
+        console2.log("MockERC20:", address(token));
+        console2.log("MockWETH:", address(weth));
+        console2.log("YellowExecutorAdapter:", address(executor));
+        console2.log("StrategyAgent:", address(strategyAgent));
+        console2.log("================================\n");
+    }
+}
@@ -7,6 +7,7 @@ import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {PoolKey} from "v4-core/types/PoolKey.sol";
+import {PoolId, PoolIdLibrary} from "v4-core/types/PoolId.sol";
 import {Currency} from "v4-core/types/Currency.sol";
 import {IPoolManager} from "v4-core/interfaces/IPoolManager.sol";
 import {IHooks} from "v4-core/interfaces/IHooks.sol";
@@ -34,6 +35,7 @@ interface IPoolSwapTest {
 /// @dev Bridges on-chain strategy agents with Uniswap V4 pools
 contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownable {
     using SafeERC20 for IERC20;
+    using PoolIdLibrary for PoolKey;
 
     // Execution tracking
     mapping(bytes32 => ExecutionResult) private _executions;
@@ -61,8 +63,9 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
     // Test mode - when false, executes real swaps via Uniswap V4
     bool public testMode = false;
     
-    // Pool configurations
+    // Pool configurations: the pair's default pool, and every pool routes may name
     mapping(address => mapping(address => PoolKey)) public poolKeys;
+    mapping(PoolId => bool) public registeredPools;
     uint24 public defaultFee = 3000;
     int24 public defaultTickSpacing = 60;
 
@@ -96,7 +99,8 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
         emit PoolSwapTestUpdated(oldSwapTest, _poolSwapTest);
     }
     
-    /// @notice Set pool key for a token pair
+    /// @notice Register a pool for a token pair; it also becomes the pair's default pool
+    /// @dev Routes name pools by their full key, so register every pool the router may quote
     function setPoolKey(
         address token0,
         address token1,
@@ -116,6 +120,7 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
         
         poolKeys[token0][token1] = key;
         poolKeys[token1][token0] = key;
+        registeredPools[key.toId()] = true;
         
         emit PoolKeySet(token0, token1, fee);
     }
@@ -294,18 +299,62 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
     // Internal functions
 
     /// @notice Execute swap via Uniswap V4 PoolSwapTest
+    /// @dev Empty routeData swaps directly on the tokenIn/tokenOut default pool; see _swapRoute
     function _executeSwap(
         address tokenIn,
         address tokenOut,
         uint256 amountIn,
         uint256 minAmountOut,
-        bytes calldata /* routeData */
+        bytes calldata routeData
     ) internal returns (uint256 amountOut) {
         require(address(poolSwapTest) != address(0), "PoolSwapTest not set");
         
-        // Get pool key
-        PoolKey memory key = _getPoolKey(tokenIn, tokenOut);
+        if (routeData.length == 0) {
+            amountOut = _swapHop(tokenIn, tokenOut, amountIn, _getPoolKey(tokenIn, tokenOut));
+        } else {
+            amountOut = _swapRoute(tokenIn, tokenOut, amountIn, routeData);
+        }
+        
+        require(amountOut >= minAmountOut, "Slippage exceeded");
         
+        emit SwapExecuted(tokenIn, tokenOut, amountIn, amountOut);
+    }
+
+    /// @notice Swap along a quoted route
+    /// @dev routeData is abi.encode(address[] path, uint24[] fees, int24[] tickSpacings, address[] hooks);
+    ///      hop i swaps path[i] for path[i + 1] on the registered pool with those parameters,
+    ///      so every hop runs on the pool the keeper quoted
+    function _swapRoute(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        bytes calldata routeData
+    ) internal returns (uint256 amountOut) {
+        (address[] memory path, uint24[] memory fees, int24[] memory tickSpacings, address[] memory hooks) =
+            abi.decode(routeData, (address[], uint24[], int24[], address[]));
+        require(
+            path.length >= 2 &&
+                fees.length == path.length - 1 &&
+                tickSpacings.length == fees.length &&
+                hooks.length == fees.length,
+            "Invalid route"
+        );
+        require(path[0] == tokenIn && path[path.length - 1] == tokenOut, "Route mismatch");
+
+        amountOut = amountIn;
+        for (uint256 i = 0; i < fees.length; i++) {
+            PoolKey memory key = _routedPoolKey(path[i], path[i + 1], fees[i], tickSpacings[i], hooks[i]);
+            amountOut = _swapHop(path[i], path[i + 1], amountOut, key);
+        }
+    }
+    
+    /// @notice Swap exact input on one pool
+    function _swapHop(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        PoolKey memory key
+    ) internal returns (uint256 amountOut) {
         // Determine swap direction
         bool zeroForOne = tokenIn < tokenOut;
         
@@ -345,10 +394,6 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
         if (actualReceived > 0) {
             amountOut = actualReceived;
         }
-        
-        require(amountOut >= minAmountOut, "Slippage exceeded");
-        
-        emit SwapExecuted(tokenIn, tokenOut, amountIn, amountOut);
     }
     
     /// @notice Get pool key for token pair
@@ -359,8 +404,9 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
         
         PoolKey memory key = poolKeys[token0][token1];
         
-        // Use default if not set
-        if (Currency.unwrap(key.currency0) == address(0)) {
+        // Use default if not set; tickSpacing is never 0 for a registered pool, while
+        // currency0 is address(0) for native ETH pools
+        if (key.tickSpacing == 0) {
             key = PoolKey({
                 currency0: Currency.wrap(token0),
                 currency1: Currency.wrap(token1),
@@ -373,6 +419,28 @@ contract YellowExecutorAdapter is IYellowExecutorAdapter, ReentrancyGuard, Ownab
         return key;
     }
 
+    /// @notice The pool a route hop names, which must be registered
+    function _routedPoolKey(
+        address tokenIn,
+        address tokenOut,
+        uint24 fee,
+        int24 tickSpacing,
+        address hooks
+    ) internal view returns (PoolKey memory key) {
+        (address token0, address token1) = tokenIn < tokenOut 
+            ? (tokenIn, tokenOut) 
+            : (tokenOut, tokenIn);
+        
+        key = PoolKey({
+            currency0: Currency.wrap(token0),
+            currency1: Currency.wrap(token1),
+            fee: fee,
+            tickSpacing: tickSpacing,
+            hooks: IHooks(hooks)
+        });
+        require(registeredPools[key.toId()], "Route pool not registered");
+    }
+
     /// @notice Estimate swap output
     function _estimateSwap(
         address /* tokenIn */,
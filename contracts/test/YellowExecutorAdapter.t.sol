@@ -5,6 +5,7 @@ import {Test, console2} from "forge-std/Test.sol";
 import {YellowExecutorAdapter} from "../src/YellowExecutorAdapter.sol";
 import {IYellowExecutorAdapter} from "../src/interfaces/IYellFi.sol";
 import {MockERC20} from "./mocks/MockERC20.sol";
+import {MockPoolSwapTest} from "./mocks/MockPoolSwapTest.sol";
 
 contract YellowExecutorAdapterTest is Test {
     YellowExecutorAdapter public adapter;
@@ -226,4 +227,130 @@ contract YellowExecutorAdapterTest is Test {
         assertEq(stored.amountOut, result.amountOut);
         assertTrue(stored.success);
     }
+
+    // ============ Routing Tests ============
+
+    /// @dev Non-test-mode adapter on a mock router, with tokenIn -> mid on 0.05% and two 0.3%
+    ///      pools (tick spacings 60 and 10) and mid -> tokenOut on a 1% pool
+    function _routedAdapter() internal returns (MockPoolSwapTest router, MockERC20 mid) {
+        router = new MockPoolSwapTest();
+        mid = new MockERC20("Token Mid", "TMID");
+        mid.mint(address(router), 1000 ether);
+        tokenOut.mint(address(router), 1000 ether);
+
+        adapter.setTestMode(false);
+        adapter.setProtocolFee(0);
+        adapter.setPoolSwapTest(address(router));
+        _setPool(address(tokenIn), address(mid), 500, 10);
+        _setPool(address(tokenIn), address(mid), 3000, 10);
+        _setPool(address(tokenIn), address(mid), 3000, 60);
+        _setPool(address(mid), address(tokenOut), 10000, 200);
+    }
+
+    function _setPool(address a, address b, uint24 fee, int24 tickSpacing) internal {
+        (address token0, address token1) = a < b ? (a, b) : (b, a);
+        adapter.setPoolKey(token0, token1, fee, tickSpacing, address(0));
+    }
+
+    /// @dev tokenIn -> mid on (firstFee, firstSpacing), then mid -> tokenOut on the 1% pool
+    function _routedRequest(address mid, uint24 firstFee, int24 firstSpacing)
+        internal
+        view
+        returns (IYellowExecutorAdapter.ExecutionRequest memory)
+    {
+        address[] memory path = new address[](3);
+        path[0] = address(tokenIn);
+        path[1] = mid;
+        path[2] = address(tokenOut);
+        uint24[] memory fees = new uint24[](2);
+        fees[0] = firstFee;
+        fees[1] = 10000;
+        int24[] memory tickSpacings = new int24[](2);
+        tickSpacings[0] = firstSpacing;
+        tickSpacings[1] = 200;
+        address[] memory hooks = new address[](2);
+
+        return IYellowExecutorAdapter.ExecutionRequest({
+            agentId: 1,
+            tokenIn: address(tokenIn),
+            tokenOut: address(tokenOut),
+            amountIn: 10 ether,
+            minAmountOut: 0,
+            routeData: abi.encode(path, fees, tickSpacings, hooks)
+        });
+    }
+
+    function test_Execute_MultiHopRouteUsesEachHopsPool() public {
+        (MockPoolSwapTest router, MockERC20 mid) = _routedAdapter();
+        tokenIn.mint(authorizedCaller, 10 ether);
+
+        // The 0.3% pool was registered last, so it is the pair's default; the route asks for 0.05%
+        vm.startPrank(authorizedCaller);
+        tokenIn.approve(address(adapter), 10 ether);
+        IYellowExecutorAdapter.ExecutionResult memory result = adapter.execute(_routedRequest(address(mid), 500, 10));
+        vm.stopPrank();
+
+        assertEq(router.swapCount(), 2);
+        (, , uint24 firstFee, int24 firstSpacing, ) = router.swappedKeys(0);
+        (, , uint24 secondFee, , ) = router.swappedKeys(1);
+        assertEq(firstFee, 500);
+        assertEq(firstSpacing, 10);
+        assertEq(secondFee, 10000);
+
+        uint256 afterFirstHop = (10 ether * 999_500) / 1_000_000;
+        uint256 expectedOut = (afterFirstHop * 990_000) / 1_000_000;
+        assertEq(result.amountOut, expectedOut);
+        assertEq(tokenOut.balanceOf(authorizedCaller), expectedOut);
+    }
+
+    function test_Execute_RouteTellsPoolsApartByTickSpacing() public {
+        (MockPoolSwapTest router, MockERC20 mid) = _routedAdapter();
+        tokenIn.mint(authorizedCaller, 10 ether);
+
+        // Two 0.3% pools share the fee tier; the route names the one with tick spacing 10
+        vm.startPrank(authorizedCaller);
+        tokenIn.approve(address(adapter), 10 ether);
+        adapter.execute(_routedRequest(address(mid), 3000, 10));
+        vm.stopPrank();
+
+        (, , uint24 fee, int24 tickSpacing, ) = router.swappedKeys(0);
+        assertEq(fee, 3000);
+        assertEq(tickSpacing, 10);
+    }
+
+    function test_RevertWhen_Execute_RouteFeeNotRegistered() public {
+        (, MockERC20 mid) = _routedAdapter();
+        tokenIn.mint(authorizedCaller, 10 ether);
+
+        vm.startPrank(authorizedCaller);
+        tokenIn.approve(address(adapter), 10 ether);
+        vm.expectRevert("Route pool not registered");
+        adapter.execute(_routedRequest(address(mid), 100, 10));
+        vm.stopPrank();
+    }
+
+    function test_RevertWhen_Execute_RoutePoolParamsNotRegistered() public {
+        (, MockERC20 mid) = _routedAdapter();
+        tokenIn.mint(authorizedCaller, 10 ether);
+
+        // The fee tier exists, but not with this tick spacing
+        vm.startPrank(authorizedCaller);
+        tokenIn.approve(address(adapter), 10 ether);
+        vm.expectRevert("Route pool not registered");
+        adapter.execute(_routedRequest(address(mid), 3000, 1));
+        vm.stopPrank();
+    }
+
+    function test_RevertWhen_Execute_RouteDoesNotMatchRequest() public {
+        (, MockERC20 mid) = _routedAdapter();
+        IYellowExecutorAdapter.ExecutionRequest memory request = _routedRequest(address(mid), 500, 10);
+        request.tokenOut = address(mid);
+        tokenIn.mint(authorizedCaller, 10 ether);
+
+        vm.startPrank(authorizedCaller);
+        tokenIn.approve(address(adapter), 10 ether);
+        vm.expectRevert("Route mismatch");
+        adapter.execute(request);
+        vm.stopPrank();
+    }
 }
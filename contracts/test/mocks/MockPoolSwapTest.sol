@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {PoolKey} from "v4-core/types/PoolKey.sol";
+import {Currency} from "v4-core/types/Currency.sol";
+import {IPoolManager} from "v4-core/interfaces/IPoolManager.sol";
+import {BalanceDelta, toBalanceDelta} from "v4-core/types/BalanceDelta.sol";
+import {IPoolSwapTest} from "../../src/YellowExecutorAdapter.sol";
+
+/// @notice PoolSwapTest stand-in that fills exact-input swaps from its own balance
+/// @dev Output is the input less the pool's fee (in pips), and every swapped key is recorded
+contract MockPoolSwapTest is IPoolSwapTest {
+    PoolKey[] public swappedKeys;
+
+    function swap(
+        PoolKey memory key,
+        IPoolManager.SwapParams memory params,
+        TestSettings memory,
+        bytes memory
+    ) external payable override returns (BalanceDelta delta) {
+        require(params.amountSpecified < 0, "Exact input only");
+        uint256 amountIn = uint256(-params.amountSpecified);
+        uint256 amountOut = (amountIn * (1_000_000 - key.fee)) / 1_000_000;
+
+        (Currency input, Currency output) = params.zeroForOne
+            ? (key.currency0, key.currency1)
+            : (key.currency1, key.currency0);
+        IERC20(Currency.unwrap(input)).transferFrom(msg.sender, address(this), amountIn);
+        IERC20(Currency.unwrap(output)).transfer(msg.sender, amountOut);
+        swappedKeys.push(key);
+
+        delta = params.zeroForOne
+            ? toBalanceDelta(-int128(int256(amountIn)), int128(int256(amountOut)))
+            : toBalanceDelta(int128(int256(amountOut)), -int128(int256(amountIn)));
+    }
+
+    function swapCount() external view returns (uint256) {
+        return swappedKeys.length;
+    }
+}
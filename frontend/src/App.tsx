@@ -3,7 +3,7 @@ import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'sonner';
 import { Dashboard, DeployWizard, StrategyEditor, ExecutionMonitor, AgentDetail } from '@/pages';
-import { BrandButton, YellowNetworkBadge } from '@/components';
+import { BrandButton, KeeperBalanceBadge, YellowNetworkBadge } from '@/components';
 import { cn, shortenAddress } from '@/lib/utils';
 import { wagmiConfig } from '@/config';
 import { useWallet } from '@/hooks';
@@ -130,8 +130,11 @@ function Layout({ children }: { children: React.ReactNode }) {
               ))}
             </nav>
 
-            {/* Yellow Network Status */}
-            <YellowNetworkBadge />
+            {/* Yellow Network and keeper gas status */}
+            <div className="flex items-center gap-2">
+              <YellowNetworkBadge />
+              <KeeperBalanceBadge />
+            </div>
 
             {/* Connect Wallet */}
             <WalletButton />
@@ -0,0 +1,53 @@
+import { useBackendHealth } from '@/hooks';
+import { cn, formatEther } from '@/lib/utils';
+
+/**
+ * Compact keeper gas indicator for the header
+ * Hidden until the backend reports a balance for this chain
+ */
+export function KeeperBalanceBadge({ className }: { className?: string }) {
+  const { keeperBalance } = useBackendHealth();
+
+  if (!keeperBalance) {
+    return null;
+  }
+
+  const levelColors = {
+    ok: 'border-green-500/50 text-green-400',
+    warn: 'border-yellfi-yellow-500/50 text-yellfi-yellow-400',
+    critical: 'border-red-500/50 text-red-400',
+  };
+
+  const dotColors = {
+    ok: 'bg-green-500',
+    warn: 'bg-yellfi-yellow-500',
+    critical: 'bg-red-500 animate-pulse',
+  };
+
+  const { level, executionsRemaining, onChainPaused } = keeperBalance;
+  const balance = formatEther(BigInt(keeperBalance.balance));
+  const title = [
+    `Keeper ${keeperBalance.keeper}: ${balance} ETH`,
+    executionsRemaining !== null ? `~${executionsRemaining} on-chain executions remaining` : null,
+    onChainPaused ? 'On-chain execution paused; state channel execution continues' : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div
+      title={title}
+      className={cn(
+        'flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium',
+        levelColors[level],
+        className
+      )}
+    >
+      <div className={cn('w-1.5 h-1.5 rounded-full', dotColors[level])} />
+      <span>Gas {balance} ETH</span>
+      {onChainPaused ? (
+        <span>· paused</span>
+      ) : executionsRemaining !== null && level !== 'ok' ? (
+        <span>· ~{executionsRemaining} left</span>
+      ) : null}
+    </div>
+  );
+}
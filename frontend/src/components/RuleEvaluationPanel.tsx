@@ -0,0 +1,156 @@
+import { cn, formatNumber, shortenAddress } from '@/lib/utils';
+import type { AgentEvaluationFromBackend, RuleEvaluationFromBackend } from '@/hooks';
+import { HookSignalBadge, type SignalType } from './HookSignalBadge';
+
+// YellFiHook SignalType order
+const SIGNAL_TYPES: SignalType[] = [
+  'PRICE_IMPACT',
+  'LIQUIDITY_CHANGE',
+  'VOLATILITY_SPIKE',
+  'ARBITRAGE_OPPORTUNITY',
+  'REBALANCE_NEEDED',
+];
+
+export interface RuleEvaluationPanelProps {
+  rule?: RuleEvaluationFromBackend;
+  evaluation?: AgentEvaluationFromBackend | null;
+  isLoading?: boolean;
+  error?: string | null;
+  onRefresh?: () => void;
+  onSignIn?: () => void; // Set while the wallet has not signed in to the keeper
+  className?: string;
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+}
+
+function formatUnits(amount: string): string {
+  return formatNumber(Number(amount) / 1e18, 4);
+}
+
+/**
+ * "Why didn't my rule fire": the keeper's latest evaluation of one rule
+ * Shows the reason with the inputs behind it, so owners can diagnose without keeper logs
+ */
+export function RuleEvaluationPanel({
+  rule,
+  evaluation,
+  isLoading,
+  error,
+  onRefresh,
+  onSignIn,
+  className,
+}: RuleEvaluationPanelProps) {
+  if (onSignIn) {
+    return (
+      <div className={cn('p-3 rounded-lg bg-yellfi-dark-elevated border border-white/5 text-xs text-neutral-500', className)}>
+        <button type="button" onClick={onSignIn} className="text-yellfi-blue-400 hover:text-yellfi-blue-300">
+          Sign in
+        </button>
+        {' '}as the owner to see the keeper's evaluation
+      </div>
+    );
+  }
+
+  if (!rule) {
+    return (
+      <div className={cn('p-3 rounded-lg bg-yellfi-dark-elevated border border-white/5 text-xs text-neutral-500', className)}>
+        {error ? `Keeper evaluation unavailable: ${error}` : isLoading ? 'Loading keeper evaluation...' : 'Not evaluated by the keeper yet'}
+      </div>
+    );
+  }
+
+  const { details, quote } = rule;
+  const signalType = details.signal ? SIGNAL_TYPES[details.signal.signalType] : undefined;
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg border text-xs space-y-2',
+        rule.shouldExecute ? 'bg-emerald-500/5 border-emerald-500/20' : 'bg-yellfi-dark-elevated border-white/5',
+        className
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-neutral-500">Keeper says</p>
+          <p className={cn('font-medium', rule.shouldExecute ? 'text-emerald-400' : 'text-white')}>{rule.reason}</p>
+        </div>
+        {onRefresh && (
+          <button
+            type="button"
+            onClick={onRefresh}
+            disabled={isLoading}
+            className="text-yellfi-blue-400 hover:text-yellfi-blue-300 disabled:opacity-50"
+          >
+            {isLoading ? 'Checking...' : 'Re-check'}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="text-neutral-500">Cooldown</p>
+          <p className="text-white">
+            {details.cooldownRemainingSeconds ? `${formatSeconds(details.cooldownRemainingSeconds)} left` : 'Elapsed'}
+          </p>
+        </div>
+        <div>
+          <p className="text-neutral-500">Latest signal</p>
+          {details.signal && signalType ? (
+            <div className="flex items-center gap-1">
+              <HookSignalBadge type={signalType} size="sm" showMagnitude={false} />
+              <span className="text-white">
+                {details.signal.magnitude} vs {details.threshold ?? '-'} · {formatSeconds(details.signal.ageSeconds)} ago
+              </span>
+            </div>
+          ) : (
+            <p className="text-white">None yet</p>
+          )}
+        </div>
+        {details.price && (
+          <div className="col-span-2">
+            <p className="text-neutral-500">Price ({details.price.source})</p>
+            <p className="text-white">
+              {details.price.changeBps >= 0 ? '+' : ''}{details.price.changeBps}bps from entry
+            </p>
+          </div>
+        )}
+        {evaluation && (
+          <div className="col-span-2">
+            <p className="text-neutral-500">Agent balance</p>
+            <p className="text-white">
+              {formatUnits(evaluation.balances.currency0.amount)} {shortenAddress(evaluation.balances.currency0.token)}
+              {' · '}
+              {formatUnits(evaluation.balances.currency1.amount)} {shortenAddress(evaluation.balances.currency1.token)}
+            </p>
+          </div>
+        )}
+        <div className="col-span-2">
+          <p className="text-neutral-500">Quote</p>
+          {!quote ? (
+            <p className="text-neutral-400">Not quoted while the rule cannot execute</p>
+          ) : quote.ok ? (
+            <p className="text-white">
+              {formatUnits(quote.amountIn ?? '0')} in → {formatUnits(quote.quotedAmountOut ?? '0')} out
+              {' '}(min {formatUnits(quote.minAmountOut ?? '0')}, {quote.slippageBps}bps slippage, {quote.hops} hop{quote.hops === 1 ? '' : 's'} via {quote.source})
+            </p>
+          ) : (
+            <p className="text-red-400">{quote.error}</p>
+          )}
+        </div>
+      </div>
+
+      {evaluation && (
+        <p className="text-neutral-600">
+          Evaluated {new Date(evaluation.evaluatedAt).toLocaleTimeString()}
+          {evaluation.blockNumber ? ` at block ${evaluation.blockNumber}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
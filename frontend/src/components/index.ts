@@ -7,3 +7,5 @@ export { HookSignalBadge, type HookSignalBadgeProps, type SignalType } from './H
 export { AgentCard, AgentCardSkeleton, type AgentCardProps, type AgentStatus } from './AgentCard';
 export { ExecutionLog, type ExecutionLogProps, type ExecutionEntry } from './ExecutionLog';
 export { YellowNetworkStatus, YellowNetworkBadge, type YellowNetworkStatusProps } from './YellowNetworkStatus';
+export { KeeperBalanceBadge } from './KeeperBalanceBadge';
+export { RuleEvaluationPanel, type RuleEvaluationPanelProps } from './RuleEvaluationPanel';
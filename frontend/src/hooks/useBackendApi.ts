@@ -1,10 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { createSiweMessage } from 'viem/siwe';
+import { CONTRACTS } from '@/config';
 
 // Backend API URL - can be configured via environment variable
 const API_BASE_URL = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_BACKEND_URL) || 'http://localhost:3001';
 
+// A keeper may serve several chains; only ask for the one the dashboard is on
+const CHAIN_ID = CONTRACTS.chainId.toString();
+
 export interface ExecutionRecord {
   id: string;
+  chainId: number;
   agentId: string;
   ruleIndex: number;
   timestamp: number;
@@ -15,19 +22,45 @@ export interface ExecutionRecord {
   executionMode: 'state-channel' | 'on-chain';
   ruleType?: number;
   threshold?: number;
+  amountIn?: string;
+  quotedAmountOut?: string;
+  minAmountOut?: string;
+  amountOut?: string; // received, confirmed on-chain swaps only
+  slippageBps?: number;
+  skipped?: boolean;
+  estimatedGas?: string;
+  estimatedGasCost?: string;
+  failureCode?: string; // e.g. COOLDOWN_OR_DISABLED, SLIPPAGE_EXCEEDED, RPC_UNAVAILABLE
+  failureClass?: 'rpc' | 'revert' | 'simulation' | 'slippage' | 'state-channel';
+  simulated?: boolean; // Recorded by a dry-run keeper, no transaction sent
 }
 
 export interface BackendStats {
+  chainId: number | null;
   totalExecutions: number;
   successfulExecutions: number;
   failedExecutions: number;
+  skippedExecutions: number;
+  simulatedExecutions: number;
   stateChannelExecutions: number;
   onChainExecutions: number;
   activeAgents: number;
   uptime: number;
 }
 
+export interface KeeperBalanceFromBackend {
+  chainId: number;
+  keeper: string;
+  balance: string; // wei
+  level: 'ok' | 'warn' | 'critical';
+  executionCost: string | null; // wei, worst case per on-chain execution
+  executionsRemaining: number | null;
+  onChainPaused: boolean; // below critical; state channel execution continues
+  checkedAt: number;
+}
+
 export interface AgentStatusFromBackend {
+  chainId: number;
   agentId: string;
   isActive: boolean;
   lastEvaluation: number;
@@ -35,22 +68,299 @@ export interface AgentStatusFromBackend {
   totalExecutions: number;
 }
 
+export interface EvaluationCycleFromBackend {
+  chainId: number;
+  trigger: 'poll' | 'signal';
+  agentsEvaluated: number;
+  readyRulesCount: number;
+  executedCount: number;
+  failedCount: number;
+  skippedCount: number;
+  deduplicatedCount: number;
+  simulatedCount: number;
+  durationMs: number;
+}
+
+export interface HookSignalFromBackend {
+  chainId: number;
+  poolId: string;
+  signalType: number;
+  magnitude: string;
+  blockNumber: string;
+  agentIds: string[]; // agents the keeper evaluated for this signal
+}
+
+export interface QuotePreviewFromBackend {
+  ok: boolean;
+  error?: string;
+  sizingMode?: string;
+  tokenIn?: string;
+  tokenOut?: string;
+  // Token amounts as decimal strings
+  amountIn?: string;
+  quotedAmountOut?: string;
+  minAmountOut?: string;
+  slippageBps?: number;
+  hops?: number;
+  source?: string;
+}
+
+export interface RuleEvaluationFromBackend {
+  ruleIndex: number;
+  shouldExecute: boolean;
+  reason: string;
+  details: {
+    ruleType?: string;
+    enabled?: boolean;
+    threshold?: string;
+    targetValue?: string;
+    canExecute?: boolean;
+    cooldownRemainingSeconds?: number;
+    signal?: { signalType: number; magnitude: string; ageSeconds: number } | null;
+    price?: { current: string; entry: string; changeBps: number; source: string };
+  };
+  quote: QuotePreviewFromBackend | null; // null when the rule could not execute anyway
+}
+
+export interface AgentEvaluationFromBackend {
+  chainId: number;
+  agentId: string;
+  agentStatus: number;
+  blockNumber: string | null;
+  evaluatedAt: number;
+  cached: boolean;
+  balances: {
+    currency0: { token: string; amount: string };
+    currency1: { token: string; amount: string };
+  };
+  rules: RuleEvaluationFromBackend[];
+}
+
+// resync: the backend could not replay what was missed, so refetch
+export type BackendStreamEvent =
+  | { type: 'execution'; data: ExecutionRecord }
+  | { type: 'agent-status'; data: AgentStatusFromBackend }
+  | { type: 'evaluation-cycle'; data: EvaluationCycleFromBackend }
+  | { type: 'signal'; data: HookSignalFromBackend }
+  | { type: 'resync'; data: Record<string, never> };
+
+const STREAM_EVENT_TYPES: BackendStreamEvent['type'][] = ['execution', 'agent-status', 'evaluation-cycle', 'signal', 'resync'];
+
+// One EventSource shared by every hook on the page, closed when the last one unmounts.
+// EventSource reconnects by itself and sends Last-Event-ID so missed events are replayed
+let streamSource: EventSource | null = null;
+const streamListeners = new Set<(event: BackendStreamEvent) => void>();
+
+function openStream(): EventSource {
+  if (streamSource) return streamSource;
+
+  const source = new EventSource(`${API_BASE_URL}/api/stream?chainId=${CHAIN_ID}`);
+  for (const type of STREAM_EVENT_TYPES) {
+    source.addEventListener(type, (message) => {
+      const event = { type, data: JSON.parse((message as MessageEvent<string>).data) } as BackendStreamEvent;
+      streamListeners.forEach((listener) => listener(event));
+    });
+  }
+  streamSource = source;
+  return source;
+}
+
+function closeStreamIfUnused() {
+  if (streamListeners.size === 0 && streamSource) {
+    streamSource.close();
+    streamSource = null;
+  }
+}
+
 /**
- * Hook to check backend health
+ * Hook to receive live keeper events for this chain over /api/stream
+ */
+export function useBackendStream(onEvent: (event: BackendStreamEvent) => void) {
+  const [isConnected, setIsConnected] = useState(false);
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    const listener = (event: BackendStreamEvent) => handler.current(event);
+    streamListeners.add(listener);
+
+    const source = openStream();
+    const onOpen = () => setIsConnected(true);
+    const onError = () => setIsConnected(false);
+    source.addEventListener('open', onOpen);
+    source.addEventListener('error', onError);
+    setIsConnected(source.readyState === EventSource.OPEN);
+
+    return () => {
+      source.removeEventListener('open', onOpen);
+      source.removeEventListener('error', onError);
+      streamListeners.delete(listener);
+      closeStreamIfUnused();
+    };
+  }, []);
+
+  return { isConnected };
+}
+
+/**
+ * Refetch when matching stream events arrive, coalescing bursts such as a cycle's executions
+ */
+function useStreamRefetch(refetch: () => void, matches: (event: BackendStreamEvent) => boolean) {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { isConnected } = useBackendStream((event) => {
+    if (event.type !== 'resync' && !matches(event)) return;
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(refetch, 250);
+  });
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+  }, []);
+
+  return isConnected;
+}
+
+export interface BackendSession {
+  token: string;
+  address: string;
+  chainId: number;
+  expiresAt: number;
+}
+
+// Kept across reloads so owners do not sign again on every visit
+const SESSION_STORAGE_KEY = 'yellfi.backendSession';
+
+function loadSession(address?: string): BackendSession | null {
+  if (!address) return null;
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null') as BackendSession | null;
+    if (!session || session.address.toLowerCase() !== address.toLowerCase() || session.expiresAt < Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook to sign in to the keeper as the connected wallet (Sign-In with Ethereum)
+ * authFetch calls owner endpoints such as /api/owner/agents/:id/preferences with the session
+ */
+export function useBackendAuth() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [session, setSession] = useState<BackendSession | null>(() => loadSession(address));
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A session belongs to one address; switch with the wallet
+  useEffect(() => {
+    setSession(loadSession(address));
+  }, [address]);
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setSession(null);
+  }, []);
+
+  const signIn = useCallback(async () => {
+    if (!address) {
+      setError('Connect a wallet first');
+      return null;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const nonceResponse = await fetch(`${API_BASE_URL}/api/auth/nonce`);
+      const { nonce } = await nonceResponse.json();
+
+      const message = createSiweMessage({
+        address,
+        chainId: CONTRACTS.chainId,
+        domain: window.location.host,
+        uri: window.location.origin,
+        nonce,
+        version: '1',
+        statement: 'Sign in to the YellFi keeper to manage your agents.',
+      });
+      const signature = await signMessageAsync({ message });
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Sign-in failed');
+      }
+
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(data));
+      setSession(data);
+      return data as BackendSession;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      return null;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    if (session) {
+      await fetch(`${API_BASE_URL}/api/auth/logout`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.token}` },
+      }).catch(() => undefined);
+    }
+    clearSession();
+  }, [session, clearSession]);
+
+  const authFetch = useCallback(async (path: string, init: RequestInit = {}) => {
+    if (!session) {
+      throw new Error('Not signed in to the keeper');
+    }
+
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...init.headers,
+        Authorization: `Bearer ${session.token}`,
+      },
+    });
+    // The keeper restarted or the session expired
+    if (response.status === 401) {
+      clearSession();
+    }
+    return response;
+  }, [session, clearSession]);
+
+  return { session, isSignedIn: !!session, isSigningIn, error, signIn, signOut, authFetch };
+}
+
+/**
+ * Hook to check backend health, including the keeper's gas balance on this chain
  */
 export function useBackendHealth() {
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [keeperBalance, setKeeperBalance] = useState<KeeperBalanceFromBackend | null>(null);
 
   const checkHealth = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/health`, {
+      const response = await fetch(`${API_BASE_URL}/api/health?chainId=${CHAIN_ID}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
       
       if (response.ok) {
+        const data = await response.json();
+        setKeeperBalance(data.keepers?.[0] ?? null);
         setIsConnected(true);
         setError(null);
       } else {
@@ -71,13 +381,13 @@ export function useBackendHealth() {
     return () => clearInterval(interval);
   }, [checkHealth]);
 
-  return { isConnected, isLoading, error, refetch: checkHealth };
+  return { isConnected, isLoading, error, keeperBalance, refetch: checkHealth };
 }
 
 /**
  * Hook to fetch execution history
  */
-export function useExecutions(agentId?: string, limit: number = 50) {
+export function useExecutions(agentId?: string, limit: number = 50, simulated?: boolean) {
   const [executions, setExecutions] = useState<ExecutionRecord[]>([]);
   const [total, setTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -86,8 +396,9 @@ export function useExecutions(agentId?: string, limit: number = 50) {
   const fetchExecutions = useCallback(async () => {
     try {
       setIsLoading(true);
-      const params = new URLSearchParams({ limit: limit.toString() });
+      const params = new URLSearchParams({ chainId: CHAIN_ID, limit: limit.toString() });
       if (agentId) params.append('agentId', agentId);
+      if (simulated !== undefined) params.append('simulated', String(simulated));
       
       const response = await fetch(`${API_BASE_URL}/api/executions?${params}`, {
         method: 'GET',
@@ -108,13 +419,20 @@ export function useExecutions(agentId?: string, limit: number = 50) {
     } finally {
       setIsLoading(false);
     }
-  }, [agentId, limit]);
+  }, [agentId, limit, simulated]);
 
+  const streaming = useStreamRefetch(fetchExecutions, (event) =>
+    event.type === 'execution' &&
+    (!agentId || event.data.agentId === agentId) &&
+    (simulated === undefined || !!event.data.simulated === simulated)
+  );
+
+  // Polling is the fallback while the stream is down
   useEffect(() => {
     fetchExecutions();
-    const interval = setInterval(fetchExecutions, 10000); // Refresh every 10 seconds
+    const interval = setInterval(fetchExecutions, streaming ? 60000 : 10000);
     return () => clearInterval(interval);
-  }, [fetchExecutions]);
+  }, [fetchExecutions, streaming]);
 
   return { executions, total, isLoading, error, refetch: fetchExecutions };
 }
@@ -129,7 +447,7 @@ export function useBackendStats() {
 
   const fetchStats = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/stats`, {
+      const response = await fetch(`${API_BASE_URL}/api/stats?chainId=${CHAIN_ID}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -148,11 +466,15 @@ export function useBackendStats() {
     }
   }, []);
 
+  const streaming = useStreamRefetch(fetchStats, (event) =>
+    event.type === 'execution' || event.type === 'agent-status'
+  );
+
   useEffect(() => {
     fetchStats();
-    const interval = setInterval(fetchStats, 15000); // Refresh every 15 seconds
+    const interval = setInterval(fetchStats, streaming ? 60000 : 15000);
     return () => clearInterval(interval);
-  }, [fetchStats]);
+  }, [fetchStats, streaming]);
 
   return { stats, isLoading, error, refetch: fetchStats };
 }
@@ -167,7 +489,7 @@ export function useAgentStatuses() {
 
   const fetchStatuses = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/agents/status`, {
+      const response = await fetch(`${API_BASE_URL}/api/agents/status?chainId=${CHAIN_ID}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -186,15 +508,81 @@ export function useAgentStatuses() {
     }
   }, []);
 
+  // Statuses arrive whole, so merge them in place instead of refetching
+  const { isConnected: streaming } = useBackendStream((event) => {
+    if (event.type === 'resync') {
+      fetchStatuses();
+    } else if (event.type === 'agent-status') {
+      const status = event.data;
+      setStatuses((current) => [
+        ...current.filter((s) => s.agentId !== status.agentId),
+        status,
+      ]);
+    }
+  });
+
   useEffect(() => {
     fetchStatuses();
-    const interval = setInterval(fetchStatuses, 10000);
+    const interval = setInterval(fetchStatuses, streaming ? 60000 : 10000);
     return () => clearInterval(interval);
-  }, [fetchStatuses]);
+  }, [fetchStatuses, streaming]);
 
   return { statuses, isLoading, error, refetch: fetchStatuses };
 }
 
+/**
+ * Hook to fetch the keeper's explanation of an agent's rules: why each would or would not fire
+ * Owner-only, so nothing is fetched until the wallet signs in; refresh() asks for a new report
+ */
+export function useAgentEvaluation(agentId?: string) {
+  const { isSignedIn, signIn, authFetch } = useBackendAuth();
+  const [evaluation, setEvaluation] = useState<AgentEvaluationFromBackend | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvaluation = useCallback(async (refresh: boolean = false) => {
+    if (!agentId) return;
+    if (!isSignedIn) {
+      setEvaluation(null);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ chainId: CHAIN_ID });
+      if (refresh) params.append('refresh', 'true');
+
+      const response = await authFetch(`/api/owner/agents/${agentId}/evaluation?${params}`);
+
+      if (response.ok) {
+        setEvaluation(await response.json());
+        setError(null);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to fetch evaluation');
+      }
+    } catch (err) {
+      setError('Cannot connect to backend');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId, isSignedIn, authFetch]);
+
+  // The agent's own executions and keeper cycles change cooldowns and balances
+  const streaming = useStreamRefetch(() => fetchEvaluation(), (event) =>
+    (event.type === 'execution' && event.data.agentId === agentId) ||
+    event.type === 'evaluation-cycle'
+  );
+
+  useEffect(() => {
+    fetchEvaluation();
+    const interval = setInterval(() => fetchEvaluation(), streaming ? 60000 : 30000);
+    return () => clearInterval(interval);
+  }, [fetchEvaluation, streaming]);
+
+  return { evaluation, isLoading, error, isSignedIn, signIn, refresh: () => fetchEvaluation(true) };
+}
+
 // Rule type names for display
 export const RULE_TYPE_NAMES: Record<number, string> = {
   0: 'Rebalance Threshold',
@@ -208,13 +596,13 @@ export const RULE_TYPE_NAMES: Record<number, string> = {
 // Format execution for display
 export function formatExecution(execution: ExecutionRecord): {
   time: string;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'skipped';
   ruleType: string;
   mode: string;
 } {
   return {
     time: new Date(execution.timestamp).toLocaleString(),
-    status: execution.success ? 'success' : 'failed',
+    status: execution.success ? 'success' : execution.skipped ? 'skipped' : 'failed',
     ruleType: RULE_TYPE_NAMES[execution.ruleType || 0] || `Rule ${execution.ruleIndex}`,
     mode: execution.executionMode === 'state-channel' ? 'Instant (Yellow)' : 'On-chain',
   };
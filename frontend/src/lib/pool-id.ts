@@ -0,0 +1,109 @@
+import {
+  encodeAbiParameters,
+  keccak256,
+  zeroAddress,
+  type Address,
+} from 'viem';
+
+/**
+ * Uniswap v4 PoolKey, as stored on StrategyAgent and passed to PoolManager
+ */
+export interface PoolKey {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+}
+
+// Native ETH is represented as address(0) in v4, so it always sorts as currency0
+export const NATIVE_CURRENCY: Address = zeroAddress;
+
+// Fee flag marking a pool whose fee is set by its hook (LPFeeLibrary.DYNAMIC_FEE_FLAG)
+export const DYNAMIC_FEE_FLAG = 0x800000;
+
+const MAX_LP_FEE = 1_000_000;
+const MIN_TICK_SPACING = 1;
+const MAX_TICK_SPACING = 32767;
+
+const POOL_KEY_ABI = [
+  { name: 'currency0', type: 'address' },
+  { name: 'currency1', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'tickSpacing', type: 'int24' },
+  { name: 'hooks', type: 'address' },
+] as const;
+
+/**
+ * Check whether a currency is native ETH
+ */
+export function isNativeCurrency(currency: Address): boolean {
+  return currency.toLowerCase() === NATIVE_CURRENCY;
+}
+
+/**
+ * Order two currencies the way PoolManager requires (currency0 < currency1)
+ */
+export function sortCurrencies(currencyA: Address, currencyB: Address): [Address, Address] {
+  return BigInt(currencyA) < BigInt(currencyB)
+    ? [currencyA, currencyB]
+    : [currencyB, currencyA];
+}
+
+/**
+ * Validate a PoolKey against the invariants PoolManager.initialize enforces
+ * Throws with a descriptive message if the key could never identify a pool
+ */
+export function validatePoolKey(key: PoolKey): void {
+  if (isNativeCurrency(key.currency1)) {
+    throw new Error('Native ETH must be currency0');
+  }
+
+  if (BigInt(key.currency0) >= BigInt(key.currency1)) {
+    throw new Error(
+      `Currencies out of order or identical: currency0 ${key.currency0} must be < currency1 ${key.currency1}`
+    );
+  }
+
+  if (key.fee !== DYNAMIC_FEE_FLAG && (key.fee < 0 || key.fee > MAX_LP_FEE)) {
+    throw new Error(`Fee ${key.fee} out of range`);
+  }
+
+  if (key.tickSpacing < MIN_TICK_SPACING || key.tickSpacing > MAX_TICK_SPACING) {
+    throw new Error(`Tick spacing ${key.tickSpacing} out of range`);
+  }
+}
+
+/**
+ * Build a PoolKey from an unordered token pair
+ */
+export function buildPoolKey(
+  tokenA: Address,
+  tokenB: Address,
+  fee: number,
+  tickSpacing: number,
+  hooks: Address = zeroAddress
+): PoolKey {
+  const [currency0, currency1] = sortCurrencies(tokenA, tokenB);
+  const key: PoolKey = { currency0, currency1, fee, tickSpacing, hooks };
+  validatePoolKey(key);
+  return key;
+}
+
+/**
+ * Compute the v4 PoolId for a PoolKey
+ * Matches PoolIdLibrary.toId: keccak256(abi.encode(poolKey))
+ */
+export function computePoolId(key: PoolKey): `0x${string}` {
+  validatePoolKey(key);
+
+  return keccak256(
+    encodeAbiParameters(POOL_KEY_ABI, [
+      key.currency0,
+      key.currency1,
+      key.fee,
+      key.tickSpacing,
+      key.hooks,
+    ])
+  );
+}
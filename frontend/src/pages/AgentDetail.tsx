@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { parseEther, formatEther } from 'viem';
-import { BrandButton, GlowPanel, ENSBadge, MetricTile } from '@/components';
+import { BrandButton, GlowPanel, ENSBadge, MetricTile, RuleEvaluationPanel } from '@/components';
 import { cn, formatTimeAgo } from '@/lib/utils';
 import { 
   useAgent, 
@@ -17,6 +17,7 @@ import {
   useAgentTokenBalance,
   useExecutions,
   useBackendHealth,
+  useAgentEvaluation,
   formatExecution,
   AGENT_STATUS_MAP,
   type AgentStatus,
@@ -83,6 +84,14 @@ export function AgentDetail() {
   const agentIdBigInt = agentId ? BigInt(agentId) : undefined;
   const { data: agent, isLoading: loadingAgent, refetch } = useAgent(agentIdBigInt);
   const { data: rules, isLoading: loadingRules } = useAgentRules(agentIdBigInt);
+  const {
+    evaluation,
+    isLoading: loadingEvaluation,
+    error: evaluationError,
+    isSignedIn: evaluationSignedIn,
+    signIn: evaluationSignIn,
+    refresh: refreshEvaluation,
+  } = useAgentEvaluation(agentId);
   
   const { deposit, isPending: depositPending } = useDeposit();
   const { withdraw, isPending: withdrawPending } = useWithdraw();
@@ -547,6 +556,16 @@ export function AgentDetail() {
                         </div>
                       )}
                     </div>
+
+                    <RuleEvaluationPanel
+                      className="mt-3"
+                      rule={evaluation?.rules.find((r) => r.ruleIndex === index)}
+                      evaluation={evaluation}
+                      isLoading={loadingEvaluation}
+                      error={evaluationError}
+                      onRefresh={refreshEvaluation}
+                      onSignIn={evaluationSignedIn ? undefined : evaluationSignIn}
+                    />
                   </div>
                 );
               })}
@@ -614,14 +633,18 @@ export function AgentDetail() {
                     'p-3 rounded-lg border',
                     formatted.status === 'success' 
                       ? 'bg-emerald-500/5 border-emerald-500/20' 
-                      : 'bg-red-500/5 border-red-500/20'
+                      : formatted.status === 'skipped'
+                        ? 'bg-amber-500/5 border-amber-500/20'
+                        : 'bg-red-500/5 border-red-500/20'
                   )}
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <span className={cn(
                         'w-2 h-2 rounded-full',
-                        formatted.status === 'success' ? 'bg-emerald-400' : 'bg-red-400'
+                        formatted.status === 'success'
+                          ? 'bg-emerald-400'
+                          : formatted.status === 'skipped' ? 'bg-amber-400' : 'bg-red-400'
                       )} />
                       <div>
                         <p className="text-sm font-medium text-white">{formatted.ruleType}</p>
@@ -650,7 +673,15 @@ export function AgentDetail() {
                     </div>
                   </div>
                   {execution.error && (
-                    <p className="mt-2 text-xs text-red-400">{execution.error}</p>
+                    <p className={cn(
+                      'mt-2 text-xs',
+                      formatted.status === 'skipped' ? 'text-amber-400' : 'text-red-400'
+                    )}>
+                      {formatted.status === 'skipped' ? `Skipped: ${execution.error}` : execution.error}
+                      {execution.failureCode && (
+                        <span className="ml-2 font-mono text-neutral-500">{execution.failureCode}</span>
+                      )}
+                    </p>
                   )}
                 </div>
               );
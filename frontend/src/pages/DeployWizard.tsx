@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { BrandButton, GlowPanel, StrategySlider, ENSBadge } from '@/components';
-import { cn } from '@/lib/utils';
+import { cn, shortenAddress } from '@/lib/utils';
+import { buildPoolKey, computePoolId } from '@/lib/pool-id';
 import { useCreateAgent, useIsNameAvailable, useWallet } from '@/hooks';
 
 import type { Address } from 'viem';
@@ -38,6 +39,7 @@ const SEPOLIA_TOKENS = {
 
 // Predefined Uniswap v4 pools for Sepolia testnet
 // Note: In v4, pools are identified by PoolKey (currency0, currency1, fee, tickSpacing, hooks)
+// buildPoolKey sorts the pair so currency0 < currency1, and poolId matches the hook's PoolId
 const POOLS = [
   { 
     id: 'weth-usdc-3000', 
@@ -45,8 +47,8 @@ const POOLS = [
     description: 'Standard fee tier for most pairs',
     fee: 3000, 
     tickSpacing: 60,
-    currency0: SEPOLIA_TOKENS.USDC, // currency0 must be < currency1
-    currency1: SEPOLIA_TOKENS.WETH,
+    tokenA: SEPOLIA_TOKENS.WETH,
+    tokenB: SEPOLIA_TOKENS.USDC,
   },
   { 
     id: 'weth-usdc-500', 
@@ -54,8 +56,8 @@ const POOLS = [
     description: 'Low fee tier for stable pairs',
     fee: 500, 
     tickSpacing: 10,
-    currency0: SEPOLIA_TOKENS.USDC,
-    currency1: SEPOLIA_TOKENS.WETH,
+    tokenA: SEPOLIA_TOKENS.WETH,
+    tokenB: SEPOLIA_TOKENS.USDC,
   },
   { 
     id: 'weth-dai-3000', 
@@ -63,8 +65,8 @@ const POOLS = [
     description: 'Standard fee tier',
     fee: 3000, 
     tickSpacing: 60,
-    currency0: SEPOLIA_TOKENS.DAI,
-    currency1: SEPOLIA_TOKENS.WETH,
+    tokenA: SEPOLIA_TOKENS.WETH,
+    tokenB: SEPOLIA_TOKENS.DAI,
   },
   { 
     id: 'weth-link-3000', 
@@ -72,8 +74,8 @@ const POOLS = [
     description: 'Standard fee tier',
     fee: 3000, 
     tickSpacing: 60,
-    currency0: SEPOLIA_TOKENS.LINK,
-    currency1: SEPOLIA_TOKENS.WETH,
+    tokenA: SEPOLIA_TOKENS.WETH,
+    tokenB: SEPOLIA_TOKENS.LINK,
   },
   { 
     id: 'weth-usdc-10000', 
@@ -81,10 +83,14 @@ const POOLS = [
     description: 'High fee tier for volatile pairs',
     fee: 10000, 
     tickSpacing: 200,
-    currency0: SEPOLIA_TOKENS.USDC,
-    currency1: SEPOLIA_TOKENS.WETH,
+    tokenA: SEPOLIA_TOKENS.WETH,
+    tokenB: SEPOLIA_TOKENS.USDC,
   },
-];
+].map((pool) => {
+  // No hook deployed yet
+  const poolKey = buildPoolKey(pool.tokenA, pool.tokenB, pool.fee, pool.tickSpacing);
+  return { ...pool, poolKey, poolId: computePoolId(poolKey) };
+});
 
 const RULE_TYPES = [
   { 
@@ -278,13 +284,7 @@ export function DeployWizard() {
       return;
     }
 
-    const poolKey = {
-      currency0: pool.currency0,
-      currency1: pool.currency1,
-      fee: pool.fee,
-      tickSpacing: pool.tickSpacing,
-      hooks: '0x0000000000000000000000000000000000000000' as Address, // No hook deployed yet
-    };
+    const poolKey = pool.poolKey;
 
     const formattedRules = rules.map(rule => ({
       ruleType: rule.type,
@@ -646,6 +646,11 @@ export function DeployWizard() {
                 <p className="font-semibold text-white">
                   {POOLS.find(p => p.id === selectedPool)?.name || selectedPool}
                 </p>
+                {POOLS.find(p => p.id === selectedPool) && (
+                  <p className="text-xs text-neutral-500 font-mono mt-1">
+                    Pool ID: {shortenAddress(POOLS.find(p => p.id === selectedPool)!.poolId, 8)}
+                  </p>
+                )}
               </div>
 
               <div className="p-4 rounded-lg bg-yellfi-dark-elevated border border-white/10">
@@ -2,13 +2,13 @@ import { useState, useEffect } from 'react';
 import { usePublicClient } from 'wagmi';
 import { GlowPanel, ExecutionLog, MetricTile, HookSignalBadge, type ExecutionEntry, type SignalType } from '@/components';
 import { cn, formatTimeAgo } from '@/lib/utils';
-import { useWallet, useUserAgents } from '@/hooks';
+import { useWallet, useUserAgents, useExecutions, useBackendStream } from '@/hooks';
 import { CONTRACTS } from '@/config';
 import { parseAbiItem } from 'viem';
 
 interface TimelineEvent {
   id: string;
-  type: 'execution' | 'signal' | 'deposit' | 'withdraw' | 'status_change';
+  type: 'execution' | 'simulation' | 'signal' | 'deposit' | 'withdraw' | 'status_change';
   agentId: number;
   timestamp: number;
   data: {
@@ -19,6 +19,8 @@ interface TimelineEvent {
     ruleIndex?: number;
     oldStatus?: string;
     newStatus?: string;
+    error?: string;
+    success?: boolean;
   };
 }
 
@@ -39,6 +41,21 @@ export function ExecutionMonitor() {
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'executions' | 'signals' | 'deposits'>('all');
   const [selectedAgent, setSelectedAgent] = useState<number | 'all'>('all');
+  const [showSimulated, setShowSimulated] = useState(true);
+
+  // Dry-run keepers only record to the backend; nothing reaches the chain
+  const { executions: simulatedExecutions } = useExecutions(undefined, 50, true);
+
+  // Rescan as soon as the keeper reports an on-chain execution or a hook signal
+  const [rescanKey, setRescanKey] = useState(0);
+  const { isConnected: streaming } = useBackendStream((event) => {
+    if (
+      (event.type === 'execution' && event.data.transactionHash) ||
+      event.type === 'signal'
+    ) {
+      setRescanKey((key) => key + 1);
+    }
+  });
 
   // Fetch events from blockchain
   useEffect(() => {
@@ -157,15 +174,32 @@ export function ExecutionMonitor() {
 
     fetchEvents();
     
-    // Poll for new events every 30 seconds
-    const interval = setInterval(fetchEvents, 30000);
+    // Poll for new events every 30 seconds, or as a fallback while streaming
+    const interval = setInterval(fetchEvents, streaming ? 120000 : 30000);
     return () => clearInterval(interval);
-  }, [publicClient, isConnected]);
+  }, [publicClient, isConnected, streaming, rescanKey]);
+
+  const simulatedEvents: TimelineEvent[] = simulatedExecutions.map((execution) => ({
+    id: `sim-${execution.id}`,
+    type: 'simulation',
+    agentId: Number(execution.agentId),
+    timestamp: Math.floor(execution.timestamp / 1000),
+    data: {
+      ruleIndex: execution.ruleIndex,
+      amount: execution.minAmountOut,
+      error: execution.error,
+      success: execution.success,
+    },
+  }));
+
+  const allEvents = showSimulated
+    ? [...timeline, ...simulatedEvents].sort((a, b) => b.timestamp - a.timestamp)
+    : timeline;
 
-  const filteredTimeline = timeline.filter((event) => {
+  const filteredTimeline = allEvents.filter((event) => {
     if (selectedAgent !== 'all' && event.agentId !== selectedAgent) return false;
     if (filter === 'all') return true;
-    if (filter === 'executions') return event.type === 'execution';
+    if (filter === 'executions') return event.type === 'execution' || event.type === 'simulation';
     if (filter === 'signals') return event.type === 'signal';
     if (filter === 'deposits') return event.type === 'deposit' || event.type === 'withdraw';
     return true;
@@ -264,6 +298,17 @@ export function ExecutionMonitor() {
                     {f.charAt(0).toUpperCase() + f.slice(1)}
                   </button>
                 ))}
+                <button
+                  onClick={() => setShowSimulated(!showSimulated)}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-xs font-medium transition-colors border',
+                    showSimulated
+                      ? 'border-sky-500/40 text-sky-400'
+                      : 'border-white/10 text-neutral-500 hover:text-white'
+                  )}
+                >
+                  {showSimulated ? 'Hide simulated' : 'Show simulated'}
+                </button>
               </div>
             </div>
 
@@ -298,13 +343,14 @@ export function ExecutionMonitor() {
                       className={cn(
                         'w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0',
                         event.type === 'execution' && 'bg-emerald-500/20 text-emerald-400',
+                        event.type === 'simulation' && 'bg-sky-500/20 text-sky-400',
                         event.type === 'signal' && 'bg-yellfi-blue-500/20 text-yellfi-blue-400',
                         event.type === 'deposit' && 'bg-yellfi-yellow-500/20 text-yellfi-yellow-400',
                         event.type === 'withdraw' && 'bg-orange-500/20 text-orange-400',
                         event.type === 'status_change' && 'bg-purple-500/20 text-purple-400'
                       )}
                     >
-                      {event.type === 'execution' && (
+                      {(event.type === 'execution' || event.type === 'simulation') && (
                         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                         </svg>
@@ -333,6 +379,9 @@ export function ExecutionMonitor() {
                       </div>
                       <p className="text-sm text-neutral-400">
                         {event.type === 'execution' && 'Strategy executed successfully'}
+                        {event.type === 'simulation' && (event.data.success
+                          ? `Rule #${event.data.ruleIndex} simulated (dry run)`
+                          : `Rule #${event.data.ruleIndex} dry run failed: ${event.data.error}`)}
                         {event.type === 'signal' && `Rule #${event.data.ruleIndex} triggered`}
                         {event.type === 'status_change' && `Status changed: ${event.data.oldStatus} → ${event.data.newStatus}`}
                       </p>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { BrandButton, GlowPanel, StrategySlider, ENSBadge, HookSignalBadge } from '@/components';
+import { BrandButton, GlowPanel, StrategySlider, ENSBadge, HookSignalBadge, RuleEvaluationPanel } from '@/components';
 import { cn } from '@/lib/utils';
 import { 
   useAgent, 
@@ -9,6 +9,7 @@ import {
   useAddRule, 
   useRemoveRule,
   useWallet,
+  useAgentEvaluation,
   RULE_TYPE_MAP,
   type Rule as ContractRule,
 } from '@/hooks';
@@ -39,6 +40,14 @@ export function StrategyEditor() {
   const agentIdBigInt = agentId ? BigInt(agentId) : undefined;
   const { data: agent, isLoading: loadingAgent } = useAgent(agentIdBigInt);
   const { data: contractRules, isLoading: loadingRules, refetch: refetchRules } = useAgentRules(agentIdBigInt);
+  const {
+    evaluation,
+    isLoading: loadingEvaluation,
+    error: evaluationError,
+    isSignedIn: evaluationSignedIn,
+    signIn: evaluationSignIn,
+    refresh: refreshEvaluation,
+  } = useAgentEvaluation(agentId);
   
   const { updateRule: updateRuleContract, isPending: updatePending, isSuccess: updateSuccess } = useUpdateRule();
   const { addRule: addRuleContract, isPending: addPending, isSuccess: addSuccess } = useAddRule();
@@ -385,6 +394,16 @@ export function StrategyEditor() {
                     </p>
                   </div>
                 )}
+
+                {/* Keeper's view of the saved rule */}
+                <RuleEvaluationPanel
+                  rule={evaluation?.rules.find((r) => r.ruleIndex === selectedRuleData.id)}
+                  evaluation={evaluation}
+                  isLoading={loadingEvaluation}
+                  error={evaluationError}
+                  onRefresh={refreshEvaluation}
+                  onSignIn={evaluationSignedIn ? undefined : evaluationSignIn}
+                />
               </div>
             </GlowPanel>
           ) : (